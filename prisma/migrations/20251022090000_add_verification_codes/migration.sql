@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "VerificationChannel" AS ENUM ('EMAIL', 'SMS');
+
+-- CreateTable
+CREATE TABLE "verification_codes" (
+    "id" TEXT NOT NULL,
+    "signup_attempt_id" TEXT NOT NULL,
+    "channel" "VerificationChannel" NOT NULL,
+    "target" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "verification_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "verification_codes_signup_attempt_id_channel_idx" ON "verification_codes"("signup_attempt_id", "channel");
+
+-- AddForeignKey
+ALTER TABLE "verification_codes" ADD CONSTRAINT "verification_codes_signup_attempt_id_fkey" FOREIGN KEY ("signup_attempt_id") REFERENCES "signup_attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
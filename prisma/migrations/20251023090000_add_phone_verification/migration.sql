@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "signup_attempts" ADD COLUMN     "phone_number" TEXT,
+ADD COLUMN     "skipped_steps" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "verification_codes_channel_target_created_at_idx" ON "verification_codes"("channel", "target", "created_at");
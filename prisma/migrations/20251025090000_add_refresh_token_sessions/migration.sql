@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "session_id" TEXT,
+ADD COLUMN     "user_agent" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "platform" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3);
+
+-- Existing tokens each become their own session
+UPDATE "refresh_tokens" SET "session_id" = "id" WHERE "session_id" IS NULL;
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "session_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_user_id_session_id_idx" ON "refresh_tokens"("user_id", "session_id");
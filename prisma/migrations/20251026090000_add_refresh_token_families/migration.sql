@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "parent_id" TEXT,
+ADD COLUMN     "revoked_at" TIMESTAMP(3),
+ADD COLUMN     "revoked_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "user_id" TEXT,
+    "session_id" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_parent_id_idx" ON "refresh_tokens"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "security_events"("type", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "refresh_tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Refresh tokens were stored as plaintext JWTs. The HMAC key lives outside the
+-- database, so existing rows cannot be re-hashed here: revoke them instead and
+-- give them a hash that can never match. Affected users must log in again.
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "token_hash" TEXT;
+
+UPDATE "refresh_tokens"
+SET "token_hash" = '',
+    "revoked" = true,
+    "revoked_at" = COALESCE("revoked_at", CURRENT_TIMESTAMP),
+    "revoked_reason" = COALESCE("revoked_reason", 'hash_migration');
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "token_hash" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "refresh_tokens_token_key";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" DROP COLUMN "token";
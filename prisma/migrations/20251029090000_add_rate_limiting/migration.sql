@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "failed_login_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "rate_limit_counters" (
+    "key" TEXT NOT NULL,
+    "window_start" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_counters_pkey" PRIMARY KEY ("key","window_start")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limit_counters_expires_at_idx" ON "rate_limit_counters"("expires_at");
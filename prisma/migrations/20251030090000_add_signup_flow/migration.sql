@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "signup_attempts" ADD COLUMN     "flow" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,32 @@
+-- Several attempts for one email can share a terminal status (e.g. two EXPIRED
+-- attempts), which the unique constraint made impossible to record
+
+-- DropIndex
+DROP INDEX "signup_attempts_email_status_key";
+
+-- CreateIndex
+CREATE INDEX "signup_attempts_email_status_idx" ON "signup_attempts"("email", "status");
+
+-- CreateIndex
+CREATE INDEX "signup_attempts_status_updated_at_idx" ON "signup_attempts"("status", "updated_at");
+
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "triggered_by" TEXT,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "result" JSONB,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_started_at_idx" ON "job_runs"("job", "started_at");
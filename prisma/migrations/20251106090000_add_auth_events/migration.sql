@@ -0,0 +1,24 @@
+-- Generalize security_events into the auth_events audit log
+ALTER TABLE "security_events" RENAME TO "auth_events";
+
+-- AlterTable
+ALTER TABLE "auth_events" RENAME CONSTRAINT "security_events_pkey" TO "auth_events_pkey";
+ALTER TABLE "auth_events" ADD COLUMN     "actor_id" TEXT,
+ADD COLUMN     "request_id" TEXT;
+
+-- RenameIndex
+ALTER INDEX "security_events_user_id_created_at_idx" RENAME TO "auth_events_user_id_created_at_idx";
+
+-- RenameIndex
+ALTER INDEX "security_events_type_created_at_idx" RENAME TO "auth_events_type_created_at_idx";
+
+-- CreateIndex
+CREATE INDEX "auth_events_created_at_idx" ON "auth_events"("created_at");
+
+-- Seed the audit:read permission for the admin role
+INSERT INTO "permissions" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'audit:read', 'Query and export the authentication audit log');
+
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "roles" r CROSS JOIN "permissions" p
+WHERE r."name" = 'admin' AND p."name" = 'audit:read';
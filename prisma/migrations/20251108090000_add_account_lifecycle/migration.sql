@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "anonymized_at" TIMESTAMP(3),
+ADD COLUMN     "deletion_scheduled_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_status_deletion_scheduled_at_idx" ON "users"("status", "deletion_scheduled_at");
@@ -0,0 +1,7 @@
+-- Seed the users:manage permission for the admin role
+INSERT INTO "permissions" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'users:manage', 'Search, suspend and sign out users and manage signup attempts');
+
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id" FROM "roles" r CROSS JOIN "permissions" p
+WHERE r."name" = 'admin' AND p."name" = 'users:manage';
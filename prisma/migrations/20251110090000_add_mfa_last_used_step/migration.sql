@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "signup_attempts" ADD COLUMN     "mfa_last_used_step" INTEGER;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "mfa_last_used_step" INTEGER;
@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
+import { MetricsModule } from './modules/metrics/metrics.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { JobsModule } from './modules/jobs/jobs.module';
+import { OAuthModule } from './modules/oauth/oauth.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { AdminModule } from './modules/admin/admin.module';
 
 @Module({
   imports: [
@@ -11,8 +17,14 @@ import { AuthModule } from './modules/auth/auth.module';
       isGlobal: true,
       envFilePath: '.env',
     }),
+    ScheduleModule.forRoot(),
+    MetricsModule,
     PrismaModule,
     AuthModule,
+    JobsModule,
+    OAuthModule,
+    OrganizationsModule,
+    AdminModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -1,4 +1,5 @@
 import fastifyCookie from '@fastify/cookie';
+import { randomUUID } from 'crypto';
 import { NestFactory } from '@nestjs/core';
 import {
   FastifyAdapter,
@@ -9,7 +10,13 @@ import { AppModule } from './app.module';
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter(),
+    new FastifyAdapter({
+      // Trust X-Forwarded-For when running behind a proxy so request.ip is the client
+      trustProxy: process.env.TRUST_PROXY === 'true',
+      // Request ids (recorded on audit events) follow X-Request-Id from the proxy when set
+      requestIdHeader: 'x-request-id',
+      genReqId: () => randomUUID(),
+    }),
   );
 
   // Register cookie support
@@ -23,10 +30,19 @@ async function bootstrap() {
       'http://localhost:5174', // Other possible ports
     ],
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Client-Platform',
+      'X-Request-Id',
+    ],
   });
 
+  // Run the shutdown lifecycle on SIGTERM/SIGINT so buffered audit events
+  // are flushed before the database connection closes
+  app.enableShutdownHooks();
+
   const port = process.env.PORT ?? 3000;
   await app.listen(port, '0.0.0.0');
   console.log(`API Nexus running on http://localhost:${port}`);
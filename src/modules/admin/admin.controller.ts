@@ -0,0 +1,248 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Req,
+  Res,
+  HttpStatus,
+  HttpException,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { AdminService } from './admin.service';
+import {
+  SignupAttemptQueryDto,
+  UserSearchQueryDto,
+} from './dto/admin-query.dto';
+import {
+  AdminFailureResponseDto,
+  AdminSignupAttemptListResponseDto,
+  AdminSignupAttemptResponseDto,
+  AdminUserDetailResponseDto,
+  AdminUserListResponseDto,
+  AdminUserResponseDto,
+} from './dto/admin-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthorizationGuard } from '../auth/guards/authorization.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Permission } from '../auth/constants/permissions';
+import { getSessionContext } from '../auth/utils/session-context.util';
+import type { AuthEventSource } from '../auth/services/auth-event.service';
+import type { AuthenticatedUser } from '../auth/services/role.service';
+
+/**
+ * User and signup attempt management for support staff
+ */
+@Controller('admin')
+@UseGuards(JwtAuthGuard, AuthorizationGuard)
+@RequirePermissions(Permission.USERS_MANAGE)
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class AdminController {
+  private readonly logger = new Logger(AdminController.name);
+
+  constructor(private readonly adminService: AdminService) {}
+
+  /**
+   * GET /admin/users?email=&status=&createdFrom=&createdTo=&limit=&cursor=
+   * Search users, newest first
+   */
+  @Get('users')
+  async searchUsers(
+    @Query() query: UserSearchQueryDto,
+    @Res() res: FastifyReply,
+  ) {
+    const limit = this.getLimit(query.limit);
+    const users = await this.adminService.searchUsers(query, limit);
+
+    const response: AdminUserListResponseDto = {
+      success: true,
+      users,
+      nextCursor: users.length === limit ? users[users.length - 1].id : null,
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * GET /admin/users/:userId
+   * A user with their roles and active sessions
+   */
+  @Get('users/:userId')
+  async getUser(@Param('userId') userId: string, @Res() res: FastifyReply) {
+    return this.handle(res, async () => {
+      const response: AdminUserDetailResponseDto = {
+        success: true,
+        ...(await this.adminService.getUserDetail(userId)),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * POST /admin/users/:userId/suspend
+   * Suspend a user and sign out all their sessions
+   */
+  @Post('users/:userId/suspend')
+  async suspendUser(
+    @Param('userId') userId: string,
+    @CurrentUser() admin: AuthenticatedUser,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      const response: AdminUserResponseDto = {
+        success: true,
+        user: await this.adminService.suspendUser(
+          userId,
+          this.getSource(admin, req),
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * POST /admin/users/:userId/unsuspend
+   * Make a suspended user active again
+   */
+  @Post('users/:userId/unsuspend')
+  async unsuspendUser(
+    @Param('userId') userId: string,
+    @CurrentUser() admin: AuthenticatedUser,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      const response: AdminUserResponseDto = {
+        success: true,
+        user: await this.adminService.unsuspendUser(
+          userId,
+          this.getSource(admin, req),
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * POST /admin/users/:userId/logout
+   * Sign out every session of a user
+   */
+  @Post('users/:userId/logout')
+  async forceLogout(
+    @Param('userId') userId: string,
+    @CurrentUser() admin: AuthenticatedUser,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      await this.adminService.forceLogout(userId, this.getSource(admin, req));
+      return { success: true, message: 'All sessions signed out' };
+    });
+  }
+
+  /**
+   * POST /admin/users/:userId/verify-email
+   * Mark a user's email as verified
+   */
+  @Post('users/:userId/verify-email')
+  async markEmailVerified(
+    @Param('userId') userId: string,
+    @CurrentUser() admin: AuthenticatedUser,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      const response: AdminUserResponseDto = {
+        success: true,
+        user: await this.adminService.markEmailVerified(
+          userId,
+          this.getSource(admin, req),
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * GET /admin/signup-attempts?email=&status=&limit=&cursor=
+   * Signup attempts, newest first
+   */
+  @Get('signup-attempts')
+  async listSignupAttempts(
+    @Query() query: SignupAttemptQueryDto,
+    @Res() res: FastifyReply,
+  ) {
+    const limit = this.getLimit(query.limit);
+    const signupAttempts = await this.adminService.listSignupAttempts(
+      query,
+      limit,
+    );
+
+    const response: AdminSignupAttemptListResponseDto = {
+      success: true,
+      signupAttempts,
+      nextCursor:
+        signupAttempts.length === limit
+          ? signupAttempts[signupAttempts.length - 1].id
+          : null,
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /admin/signup-attempts/:attemptId/expire
+   * Expire an in-progress signup attempt
+   */
+  @Post('signup-attempts/:attemptId/expire')
+  async expireSignupAttempt(
+    @Param('attemptId') attemptId: string,
+    @CurrentUser() admin: AuthenticatedUser,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      const response: AdminSignupAttemptResponseDto = {
+        success: true,
+        signupAttempt: await this.adminService.expireSignupAttempt(
+          attemptId,
+          this.getSource(admin, req),
+        ),
+      };
+      return response;
+    });
+  }
+
+  private getLimit(limit: string | undefined): number {
+    return Math.min(Math.max(parseInt(limit ?? '50', 10) || 50, 1), 200);
+  }
+
+  private getSource(
+    admin: AuthenticatedUser,
+    req: FastifyRequest,
+  ): AuthEventSource {
+    return { actorId: admin.id, context: getSessionContext(req) };
+  }
+
+  private async handle(res: FastifyReply, operation: () => Promise<object>) {
+    try {
+      return res.status(HttpStatus.OK).send(await operation());
+    } catch (error) {
+      if (error instanceof HttpException) {
+        this.logger.warn(`Admin request failed: ${error.message}`);
+        const response: AdminFailureResponseDto = {
+          success: false,
+          message: error.message,
+          statusCode: error.getStatus(),
+        };
+        return res.status(error.getStatus()).send(response);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AttemptStatus, User, UserStatus } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AccountService } from '../auth/services/account.service';
+import { SessionService } from '../auth/services/session.service';
+import { RoleService } from '../auth/services/role.service';
+import { TokenService } from '../auth/services/token.service';
+import {
+  AuthEventService,
+  AuthEventType,
+} from '../auth/services/auth-event.service';
+import { RefreshTokenRevokedReason } from '../auth/constants/refresh-token';
+
+describe('AdminService', () => {
+  let adminService: AdminService;
+  let prisma: Record<'user' | 'signupAttempt', Record<string, jest.Mock>>;
+  let accountService: Record<string, jest.Mock>;
+  let tokenService: Record<string, jest.Mock>;
+  let authEventService: Record<string, jest.Mock>;
+
+  const source = { actorId: 'admin-1', context: { ipAddress: '10.0.0.1' } };
+  const user = {
+    id: 'user-1',
+    email: 'user@example.com',
+    status: UserStatus.ACTIVE,
+  } as User;
+
+  beforeEach(async () => {
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue(user) },
+      signupAttempt: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'attempt-1',
+          email: 'signup@example.com',
+          status: AttemptStatus.EXPIRED,
+        }),
+      },
+    };
+    accountService = {
+      changeStatus: jest.fn((target: User, status: UserStatus) => ({
+        ...target,
+        status,
+      })),
+    };
+    tokenService = { revokeAllUserRefreshTokens: jest.fn() };
+    authEventService = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AccountService, useValue: accountService },
+        { provide: SessionService, useValue: {} },
+        { provide: RoleService, useValue: {} },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuthEventService, useValue: authEventService },
+      ],
+    }).compile();
+
+    adminService = module.get(AdminService);
+  });
+
+  describe('suspendUser', () => {
+    it('refuses to let admins suspend themselves', async () => {
+      await expect(
+        adminService.suspendUser(source.actorId, source),
+      ).rejects.toThrow(BadRequestException);
+      expect(accountService.changeStatus).not.toHaveBeenCalled();
+    });
+
+    it('suspends the user and revokes their sessions as the acting admin', async () => {
+      const suspended = await adminService.suspendUser(user.id, source);
+
+      expect(suspended.status).toBe(UserStatus.SUSPENDED);
+      expect(accountService.changeStatus).toHaveBeenCalledWith(
+        user,
+        UserStatus.SUSPENDED,
+        source,
+      );
+      expect(tokenService.revokeAllUserRefreshTokens).toHaveBeenCalledWith(
+        user.id,
+        RefreshTokenRevokedReason.ACCOUNT_SUSPENDED,
+        source,
+      );
+    });
+
+    it.each([UserStatus.SUSPENDED, UserStatus.DELETED])(
+      'reports a conflict for a %s user',
+      async (status) => {
+        prisma.user.findUnique.mockResolvedValue({ ...user, status });
+
+        await expect(adminService.suspendUser(user.id, source)).rejects.toThrow(
+          ConflictException,
+        );
+        expect(tokenService.revokeAllUserRefreshTokens).not.toHaveBeenCalled();
+      },
+    );
+
+    it('reports an unknown user', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(adminService.suspendUser(user.id, source)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('unsuspendUser', () => {
+    it('reactivates a suspended user', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        ...user,
+        status: UserStatus.SUSPENDED,
+      });
+
+      const active = await adminService.unsuspendUser(user.id, source);
+
+      expect(active.status).toBe(UserStatus.ACTIVE);
+      expect(accountService.changeStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ id: user.id }),
+        UserStatus.ACTIVE,
+        source,
+      );
+    });
+
+    it('reports a conflict for a user who is not suspended', async () => {
+      await expect(adminService.unsuspendUser(user.id, source)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(accountService.changeStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireSignupAttempt', () => {
+    it('expires an in-progress attempt and records the acting admin', async () => {
+      await adminService.expireSignupAttempt('attempt-1', source);
+
+      expect(prisma.signupAttempt.updateMany).toHaveBeenCalledWith({
+        where: { id: 'attempt-1', status: AttemptStatus.IN_PROGRESS },
+        data: {
+          status: AttemptStatus.EXPIRED,
+          expiresAt: expect.any(Date) as Date,
+        },
+      });
+      expect(authEventService.record).toHaveBeenCalledWith({
+        type: AuthEventType.SIGNUP_EXPIRED,
+        ...source,
+        metadata: { attemptId: 'attempt-1', email: 'signup@example.com' },
+      });
+    });
+
+    it('reports a conflict for an attempt that is not in progress', async () => {
+      prisma.signupAttempt.updateMany.mockResolvedValue({ count: 0 });
+      prisma.signupAttempt.findUnique.mockResolvedValue({
+        id: 'attempt-1',
+        status: AttemptStatus.COMPLETED,
+      });
+
+      await expect(
+        adminService.expireSignupAttempt('attempt-1', source),
+      ).rejects.toThrow(new ConflictException('Signup attempt is completed'));
+      expect(authEventService.record).not.toHaveBeenCalled();
+    });
+
+    it('reports an unknown attempt', async () => {
+      prisma.signupAttempt.updateMany.mockResolvedValue({ count: 0 });
+      prisma.signupAttempt.findUnique.mockResolvedValue(null);
+
+      await expect(
+        adminService.expireSignupAttempt('attempt-1', source),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
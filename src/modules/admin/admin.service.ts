@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AttemptStatus,
+  Prisma,
+  SignupAttempt,
+  User,
+  UserStatus,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AccountService } from '../auth/services/account.service';
+import { SessionService } from '../auth/services/session.service';
+import { RoleService } from '../auth/services/role.service';
+import { TokenService } from '../auth/services/token.service';
+import {
+  AuthEventService,
+  AuthEventSource,
+  AuthEventType,
+} from '../auth/services/auth-event.service';
+import { RefreshTokenRevokedReason } from '../auth/constants/refresh-token';
+import {
+  SignupAttemptQueryDto,
+  UserSearchQueryDto,
+} from './dto/admin-query.dto';
+import {
+  AdminSignupAttemptDto,
+  AdminUserDetailResponseDto,
+  AdminUserDto,
+} from './dto/admin-response.dto';
+
+/**
+ * User and signup attempt management for support staff. Every change is
+ * recorded in the auth event log with the acting admin as actor.
+ * Failures are thrown as HTTP exceptions for the controller to report
+ */
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly accountService: AccountService,
+    private readonly sessionService: SessionService,
+    private readonly roleService: RoleService,
+    private readonly tokenService: TokenService,
+    private readonly authEventService: AuthEventService,
+  ) {}
+
+  /**
+   * Users matching the filters, newest first; pass the last user's id as
+   * cursor for the next page
+   */
+  async searchUsers(
+    query: UserSearchQueryDto,
+    limit: number,
+  ): Promise<AdminUserDto[]> {
+    const where: Prisma.UserWhereInput = {
+      status: query.status,
+      ...(query.email && {
+        email: { contains: query.email, mode: 'insensitive' },
+      }),
+      ...((query.createdFrom || query.createdTo) && {
+        createdAt: {
+          gte: query.createdFrom ? new Date(query.createdFrom) : undefined,
+          lte: query.createdTo ? new Date(query.createdTo) : undefined,
+        },
+      }),
+    };
+
+    const users = await this.prisma.user.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    return users.map((user) => this.toAdminUserDto(user));
+  }
+
+  async getUserDetail(
+    userId: string,
+  ): Promise<Omit<AdminUserDetailResponseDto, 'success'>> {
+    const user = await this.getUser(userId);
+    const [{ roles }, { sessions }] = await Promise.all([
+      this.roleService.getUserAuthorization(user),
+      this.sessionService.listSessions(user.id),
+    ]);
+
+    return { user: this.toAdminUserDto(user), roles, sessions };
+  }
+
+  /**
+   * Suspend a user and sign out all their sessions
+   */
+  async suspendUser(
+    userId: string,
+    source: AuthEventSource,
+  ): Promise<AdminUserDto> {
+    if (userId === source.actorId) {
+      throw new BadRequestException('You cannot suspend yourself');
+    }
+
+    const user = await this.getUser(userId);
+    if (
+      user.status === UserStatus.SUSPENDED ||
+      user.status === UserStatus.DELETED
+    ) {
+      throw new ConflictException(`User is ${user.status.toLowerCase()}`);
+    }
+
+    const suspended = await this.accountService.changeStatus(
+      user,
+      UserStatus.SUSPENDED,
+      source,
+    );
+    await this.tokenService.revokeAllUserRefreshTokens(
+      user.id,
+      RefreshTokenRevokedReason.ACCOUNT_SUSPENDED,
+      source,
+    );
+
+    this.logger.log(`Admin ${source.actorId} suspended user ${user.id}`);
+
+    return this.toAdminUserDto(suspended);
+  }
+
+  async unsuspendUser(
+    userId: string,
+    source: AuthEventSource,
+  ): Promise<AdminUserDto> {
+    const user = await this.getUser(userId);
+    if (user.status !== UserStatus.SUSPENDED) {
+      throw new ConflictException('User is not suspended');
+    }
+
+    const active = await this.accountService.changeStatus(
+      user,
+      UserStatus.ACTIVE,
+      source,
+    );
+
+    this.logger.log(`Admin ${source.actorId} unsuspended user ${user.id}`);
+
+    return this.toAdminUserDto(active);
+  }
+
+  /**
+   * Sign out every session of a user
+   */
+  async forceLogout(userId: string, source: AuthEventSource): Promise<void> {
+    const user = await this.getUser(userId);
+
+    await this.tokenService.revokeAllUserRefreshTokens(
+      user.id,
+      RefreshTokenRevokedReason.FORCED_LOGOUT,
+      source,
+    );
+
+    this.logger.log(`Admin ${source.actorId} signed out user ${user.id}`);
+  }
+
+  async markEmailVerified(
+    userId: string,
+    source: AuthEventSource,
+  ): Promise<AdminUserDto> {
+    const user = await this.getUser(userId);
+
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: true },
+    });
+
+    this.authEventService.record({
+      type: AuthEventType.EMAIL_VERIFIED,
+      userId: user.id,
+      ...source,
+      metadata: { email: user.email, manual: true },
+    });
+    this.logger.log(
+      `Admin ${source.actorId} marked email of user ${user.id} verified`,
+    );
+
+    return this.toAdminUserDto(updated);
+  }
+
+  /**
+   * Signup attempts matching the filters, newest first
+   */
+  async listSignupAttempts(
+    query: SignupAttemptQueryDto,
+    limit: number,
+  ): Promise<AdminSignupAttemptDto[]> {
+    const attempts = await this.prisma.signupAttempt.findMany({
+      where: {
+        status: query.status,
+        ...(query.email && {
+          email: { contains: query.email, mode: 'insensitive' },
+        }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    return attempts.map((attempt) => this.toSignupAttemptDto(attempt));
+  }
+
+  /**
+   * Expire an in-progress signup attempt so it can no longer be completed
+   */
+  async expireSignupAttempt(
+    attemptId: string,
+    source: AuthEventSource,
+  ): Promise<AdminSignupAttemptDto> {
+    // Conditional update so an attempt completing concurrently is left alone
+    const result = await this.prisma.signupAttempt.updateMany({
+      where: { id: attemptId, status: AttemptStatus.IN_PROGRESS },
+      data: { status: AttemptStatus.EXPIRED, expiresAt: new Date() },
+    });
+
+    const attempt = await this.prisma.signupAttempt.findUnique({
+      where: { id: attemptId },
+    });
+    if (!attempt) {
+      throw new NotFoundException(`Unknown signup attempt ${attemptId}`);
+    }
+    if (result.count === 0) {
+      throw new ConflictException(
+        `Signup attempt is ${attempt.status.toLowerCase()}`,
+      );
+    }
+
+    this.authEventService.record({
+      type: AuthEventType.SIGNUP_EXPIRED,
+      ...source,
+      metadata: { attemptId, email: attempt.email },
+    });
+    this.logger.log(
+      `Admin ${source.actorId} expired signup attempt ${attemptId}`,
+    );
+
+    return this.toSignupAttemptDto(attempt);
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException(`Unknown user ${userId}`);
+    }
+
+    return user;
+  }
+
+  private toAdminUserDto(user: User): AdminUserDto {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      emailVerified: user.emailVerified,
+      status: user.status,
+      mfaEnabled: user.mfaEnabled,
+      lockedUntil: user.lockedUntil,
+      deletionScheduledAt: user.deletionScheduledAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  private toSignupAttemptDto(attempt: SignupAttempt): AdminSignupAttemptDto {
+    return {
+      id: attempt.id,
+      email: attempt.email,
+      flow: attempt.flow,
+      status: attempt.status,
+      currentStep: attempt.currentStep,
+      completedSteps: attempt.completedSteps,
+      oauthProvider: attempt.oauthProvider,
+      attemptCount: attempt.attemptCount,
+      createdAt: attempt.createdAt,
+      updatedAt: attempt.updatedAt,
+      expiresAt: attempt.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  IsEnum,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { AttemptStatus, UserStatus } from '@prisma/client';
+
+export class UserSearchQueryDto {
+  @IsOptional()
+  @IsString()
+  email?: string; // matches part of the email, case-insensitively
+
+  @IsOptional()
+  @IsEnum(UserStatus, {
+    message: 'Status must be ACTIVE, INACTIVE, SUSPENDED or DELETED',
+  })
+  status?: UserStatus;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'createdFrom must be an ISO 8601 date' })
+  createdFrom?: string;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'createdTo must be an ISO 8601 date' })
+  createdTo?: string;
+
+  @IsOptional()
+  @IsString()
+  limit?: string;
+
+  @IsOptional()
+  @IsUUID('all', { message: 'cursor must be a user id' })
+  cursor?: string;
+}
+
+export class SignupAttemptQueryDto {
+  @IsOptional()
+  @IsString()
+  email?: string; // matches part of the email, case-insensitively
+
+  @IsOptional()
+  @IsEnum(AttemptStatus, {
+    message: `Status must be one of: ${Object.values(AttemptStatus).join(', ')}`,
+  })
+  status?: AttemptStatus;
+
+  @IsOptional()
+  @IsString()
+  limit?: string;
+
+  @IsOptional()
+  @IsUUID('all', { message: 'cursor must be a signup attempt id' })
+  cursor?: string;
+}
@@ -0,0 +1,64 @@
+import { SessionDto } from '../../auth/dto/session-response.dto';
+
+export class AdminUserDto {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  emailVerified: boolean;
+  status: string;
+  mfaEnabled: boolean;
+  lockedUntil: Date | null;
+  deletionScheduledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class AdminUserListResponseDto {
+  success: true;
+  users: AdminUserDto[];
+  nextCursor: string | null; // pass as cursor to get the next page
+}
+
+export class AdminUserDetailResponseDto {
+  success: true;
+  user: AdminUserDto;
+  roles: string[];
+  sessions: SessionDto[];
+}
+
+export class AdminUserResponseDto {
+  success: true;
+  user: AdminUserDto;
+}
+
+export class AdminSignupAttemptDto {
+  id: string;
+  email: string;
+  flow: string;
+  status: string;
+  currentStep: string;
+  completedSteps: string[];
+  oauthProvider: string | null;
+  attemptCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export class AdminSignupAttemptListResponseDto {
+  success: true;
+  signupAttempts: AdminSignupAttemptDto[];
+  nextCursor: string | null;
+}
+
+export class AdminSignupAttemptResponseDto {
+  success: true;
+  signupAttempt: AdminSignupAttemptDto;
+}
+
+export class AdminFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode: number;
+}
@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Res,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  NotFoundException,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { ApiKeyService } from './services/api-key.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthenticatedUser } from './services/role.service';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto/api-key.dto';
+import {
+  ApiKeyCreatedResponseDto,
+  ApiKeyFailureResponseDto,
+  ApiKeyListResponseDto,
+  ApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+
+/**
+ * Personal API keys. Keys cannot manage keys: these routes declare no
+ * scopes, so JwtAuthGuard only admits session tokens here.
+ */
+@Controller('auth/api-keys')
+@UseGuards(JwtAuthGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * GET /auth/api-keys
+   * List the user's API keys (without the keys themselves)
+   */
+  @Get()
+  async listKeys(
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: FastifyReply,
+  ) {
+    const response: ApiKeyListResponseDto = {
+      success: true,
+      apiKeys: await this.apiKeyService.listKeys(user.id),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /auth/api-keys
+   * Create an API key; the key is only returned in this response
+   */
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @Res() res: FastifyReply,
+  ) {
+    const { apiKey, key } = await this.apiKeyService.createKey(
+      user.id,
+      createApiKeyDto,
+    );
+
+    const response: ApiKeyCreatedResponseDto = { success: true, apiKey, key };
+    res.header('Cache-Control', 'no-store');
+    return res.status(HttpStatus.CREATED).send(response);
+  }
+
+  /**
+   * GET /auth/api-keys/:id
+   * Details of one API key
+   */
+  @Get(':id')
+  async getKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') keyId: string,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const response: ApiKeyResponseDto = {
+        success: true,
+        apiKey: await this.apiKeyService.getKey(user.id, keyId),
+      };
+      return res.status(HttpStatus.OK).send(response);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendNotFound(res, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * PATCH /auth/api-keys/:id
+   * Rename an API key and/or extend or shorten its expiry
+   */
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') keyId: string,
+    @Body() updateApiKeyDto: UpdateApiKeyDto,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const response: ApiKeyResponseDto = {
+        success: true,
+        apiKey: await this.apiKeyService.updateKey(
+          user.id,
+          keyId,
+          updateApiKeyDto,
+        ),
+      };
+      return res.status(HttpStatus.OK).send(response);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendNotFound(res, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DELETE /auth/api-keys/:id
+   * Revoke an API key immediately
+   */
+  @Delete(':id')
+  async deleteKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') keyId: string,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      await this.apiKeyService.deleteKey(user.id, keyId);
+      return res
+        .status(HttpStatus.OK)
+        .send({ success: true, message: 'API key revoked' });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendNotFound(res, error);
+      }
+      throw error;
+    }
+  }
+
+  private sendNotFound(res: FastifyReply, error: NotFoundException) {
+    const response: ApiKeyFailureResponseDto = {
+      success: false,
+      message: error.message,
+      statusCode: HttpStatus.NOT_FOUND,
+    };
+    return res.status(HttpStatus.NOT_FOUND).send(response);
+  }
+}
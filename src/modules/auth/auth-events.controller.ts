@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  HttpStatus,
+  Logger,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { AuthEvent } from '@prisma/client';
+import type { FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import {
+  AuthEventFilter,
+  AuthEventService,
+} from './services/auth-event.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AuthorizationGuard } from './guards/authorization.guard';
+import { RequirePermissions } from './decorators/require-permissions.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Permission } from './constants/permissions';
+import type { AuthenticatedUser } from './services/role.service';
+import {
+  AuthEventExportQueryDto,
+  AuthEventQueryDto,
+} from './dto/auth-event.dto';
+import {
+  AuthEventDto,
+  AuthEventListResponseDto,
+} from './dto/auth-event-response.dto';
+import { toCsvLine } from './utils/csv.util';
+
+const CSV_COLUMNS: (keyof AuthEventDto)[] = [
+  'id',
+  'createdAt',
+  'type',
+  'userId',
+  'actorId',
+  'sessionId',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'metadata',
+];
+
+/**
+ * Authentication audit log for administrators
+ */
+@Controller('admin/auth-events')
+@UseGuards(JwtAuthGuard, AuthorizationGuard)
+@RequirePermissions(Permission.AUDIT_READ)
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class AuthEventsController {
+  private readonly logger = new Logger(AuthEventsController.name);
+
+  constructor(
+    private readonly authEventService: AuthEventService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * GET /admin/auth-events?userId=&actorId=&type=a,b&from=&to=&limit=&cursor=
+   * Events newest first, a page at a time
+   */
+  @Get()
+  async listEvents(
+    @Query() query: AuthEventQueryDto,
+    @Res() res: FastifyReply,
+  ) {
+    const limit = Math.min(
+      Math.max(parseInt(query.limit ?? '50', 10) || 50, 1),
+      500,
+    );
+
+    const events = await this.authEventService.findEvents(
+      this.toFilter(query),
+      limit,
+      query.cursor,
+    );
+
+    const response: AuthEventListResponseDto = {
+      success: true,
+      events: events.map((event) => this.toAuthEventDto(event)),
+      nextCursor: events.length === limit ? events[events.length - 1].id : null,
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * GET /admin/auth-events/export?format=csv|ndjson&<filters>
+   * Download the matching events, up to AUTH_EVENT_EXPORT_MAX_ROWS
+   */
+  @Get('export')
+  exportEvents(
+    @Query() query: AuthEventExportQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: FastifyReply,
+  ) {
+    const format = query.format ?? 'csv';
+    const maxRows = parseInt(
+      this.configService.get<string>('AUTH_EVENT_EXPORT_MAX_ROWS', '100000'),
+      10,
+    );
+
+    this.logger.log(`User ${user.id} exported auth events as ${format}`);
+
+    const events = this.authEventService.streamEvents(
+      this.toFilter(query),
+      maxRows,
+    );
+    const toAuthEventDto = (event: AuthEvent) => this.toAuthEventDto(event);
+
+    const lines = async function* () {
+      if (format === 'csv') {
+        yield toCsvLine(CSV_COLUMNS);
+      }
+      for await (const event of events) {
+        const dto = toAuthEventDto(event);
+        yield format === 'csv'
+          ? toCsvLine(CSV_COLUMNS.map((column) => dto[column]))
+          : JSON.stringify(dto) + '\n';
+      }
+    };
+
+    const filename = `auth-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.header(
+      'Content-Type',
+      format === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/x-ndjson; charset=utf-8',
+    );
+    res.header('Content-Disposition', `attachment; filename="${filename}"`);
+    res.header('Cache-Control', 'no-store');
+    return res.status(HttpStatus.OK).send(Readable.from(lines()));
+  }
+
+  private toFilter(query: AuthEventQueryDto): AuthEventFilter {
+    return {
+      userId: query.userId,
+      actorId: query.actorId,
+      types: query.type
+        ?.split(',')
+        .map((type) => type.trim())
+        .filter(Boolean),
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    };
+  }
+
+  private toAuthEventDto(event: AuthEvent): AuthEventDto {
+    return {
+      id: event.id,
+      type: event.type,
+      userId: event.userId,
+      actorId: event.actorId,
+      sessionId: event.sessionId,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      requestId: event.requestId,
+      metadata: event.metadata,
+      createdAt: event.createdAt,
+    };
+  }
+}
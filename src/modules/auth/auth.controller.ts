@@ -2,37 +2,78 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Param,
+  Query,
   Body,
   Req,
   Res,
   HttpStatus,
+  HttpException,
   UsePipes,
+  UseGuards,
   ValidationPipe,
   Logger,
 } from '@nestjs/common';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { AuthService } from './auth.service';
+import { SessionService } from './services/session.service';
+import { IntrospectionService } from './services/introspection.service';
+import {
+  CompletedAuthorization,
+  OAuthClientService,
+} from './services/oauth-client.service';
+import type { OAuthCallbackParams } from './services/oauth-client.service';
+import type { AccessTokenPayload } from './services/token.service';
 import { SignupDto } from './dto/signup.dto';
+import { SignupProfileDto } from './dto/signup-profile.dto';
+import { LoginDto } from './dto/login.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { IntrospectTokenDto } from './dto/introspect.dto';
+import { VerifyCodeDto } from './dto/verify-code.dto';
+import { PhoneNumberDto } from './dto/phone-number.dto';
+import { MfaChallengeDto } from './dto/mfa.dto';
 import {
   RefreshSuccessResponseDto,
   RefreshFailureResponseDto,
 } from './dto/refresh-response.dto';
+import { SignupJwtGuard } from './guards/signup-jwt.guard';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { IntrospectionClientGuard } from './guards/introspection-client.guard';
+import { getSessionContext } from './utils/session-context.util';
+import { SignupStepHandler } from './decorators/signup-step.decorator';
+import { RequireScopes } from './decorators/require-scopes.decorator';
+import { SignupStep } from './constants/signup-steps';
+import { OAuthScope } from './constants/oauth-scopes';
+import { RateLimitGuard } from '../rate-limit/guards/rate-limit.guard';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
 import {
-  SignupSuccessResponseDto,
-  SignupFailureResponseDto,
-} from './dto/signup-response.dto';
+  CurrentAccessToken,
+  CurrentSignupAttempt,
+  CurrentUser,
+} from './decorators/current-user.decorator';
+import type { SignupAttempt, User } from '@prisma/client';
+
+const OAUTH_STATE_COOKIE = 'oauth_state';
 
 @Controller('auth')
+@UseGuards(RateLimitGuard)
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
 
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+    private readonly introspectionService: IntrospectionService,
+    private readonly oauthClientService: OAuthClientService,
+  ) {}
 
   /**
    * GET /auth/refresh-application
    * Check for refresh token in cookie and return access token
    */
   @Get('refresh-application')
+  @RateLimit({ by: 'ip', limit: 60, windowSeconds: 60 })
   async refreshApplication(
     @Req() req: FastifyRequest,
     @Res() res: FastifyReply,
@@ -42,7 +83,10 @@ export class AuthController {
 
     this.logger.log('Refresh application request received');
 
-    const result = await this.authService.refreshApplication(refreshToken);
+    const result = await this.authService.refreshApplication(
+      refreshToken,
+      getSessionContext(req),
+    );
 
     if (!result.success) {
       const failureResult = result as RefreshFailureResponseDto;
@@ -56,13 +100,7 @@ export class AuthController {
       const newRefreshToken = (successResult as any).newRefreshToken;
       delete (successResult as any).newRefreshToken;
 
-      res.setCookie('session', newRefreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-        path: '/',
-      });
+      this.setSessionCookie(res, newRefreshToken);
 
       this.logger.log('Refresh token rotated and cookie updated');
     }
@@ -70,27 +108,731 @@ export class AuthController {
     return res.status(HttpStatus.OK).send(successResult);
   }
 
+  /**
+   * POST /auth/login
+   * Log in with email and password
+   */
+  @Post('login')
+  @RateLimit(
+    { by: 'ip', limit: 20, windowSeconds: 15 * 60 },
+    { by: 'email', limit: 10, windowSeconds: 15 * 60 },
+  )
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async login(
+    @Body() loginDto: LoginDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log('Login request received');
+
+    const result = await this.authService.login(
+      loginDto,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.UNAUTHORIZED;
+      if (result.retryAfter) {
+        res.header('Retry-After', result.retryAfter.toString());
+      }
+      return res.status(statusCode).send(result);
+    }
+
+    // MFA users must complete the challenge at POST /auth/mfa/verify first
+    if ('mfaRequired' in result) {
+      return res.status(HttpStatus.OK).send(result);
+    }
+
+    this.setSessionCookie(res, result.refreshToken);
+
+    return res.status(HttpStatus.OK).send(result.response);
+  }
+
+  /**
+   * GET /auth/oauth/providers
+   * List the providers available for social login
+   */
+  @Get('oauth/providers')
+  getOAuthProviders(@Res() res: FastifyReply) {
+    return res.status(HttpStatus.OK).send({
+      success: true,
+      providers: this.oauthClientService.getProviderNames(),
+    });
+  }
+
+  /**
+   * GET /auth/oauth/:provider
+   * Redirect to the provider to log in; returnTo is handed back afterwards
+   */
+  @Get('oauth/:provider')
+  @RateLimit({ by: 'ip', limit: 30, windowSeconds: 15 * 60 })
+  async startOAuthLogin(
+    @Param('provider') provider: string,
+    @Query('returnTo') returnTo: string | undefined,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Social login request received for ${provider}`);
+
+    const request = await this.oauthClientService.createAuthorizationRequest(
+      provider,
+      returnTo,
+    );
+
+    // Lax so the cookie is sent on the top-level redirect back from the provider
+    res.setCookie(OAUTH_STATE_COOKIE, request.stateToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 10 * 60, // seconds
+      path: '/auth/oauth',
+    });
+
+    return res.redirect(request.url, HttpStatus.FOUND);
+  }
+
+  /**
+   * GET /auth/oauth/:provider/callback
+   * Finish a social login and redirect to the frontend with the outcome
+   * (session cookie set, MFA challenge, or signup attempt to continue)
+   */
+  @Get('oauth/:provider/callback')
+  @RateLimit({ by: 'ip', limit: 30, windowSeconds: 15 * 60 })
+  async oauthCallback(
+    @Param('provider') provider: string,
+    @Query() params: OAuthCallbackParams,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Social login callback received for ${provider}`);
+
+    const stateToken = req.cookies?.[OAUTH_STATE_COOKIE];
+    res.clearCookie(OAUTH_STATE_COOKIE, { path: '/auth/oauth' });
+
+    let authorization: CompletedAuthorization;
+    try {
+      authorization = await this.oauthClientService.completeAuthorization(
+        provider,
+        params,
+        stateToken,
+      );
+    } catch (error) {
+      this.logger.warn(`Social login with ${provider} failed: ${error}`);
+      return this.redirectToOAuthResult(res, {
+        status: 'error',
+        reason: 'OAUTH_FAILED',
+        message:
+          error instanceof HttpException
+            ? error.message
+            : 'Login with the provider failed',
+      });
+    }
+
+    const { identity, returnTo } = authorization;
+    const result = await this.authService.socialLogin(
+      identity,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      return this.redirectToOAuthResult(res, {
+        status: 'error',
+        reason: ('reason' in result && result.reason) || 'LOGIN_FAILED',
+        message: result.message,
+      });
+    }
+
+    if ('mfaRequired' in result) {
+      return this.redirectToOAuthResult(res, {
+        status: 'mfa_required',
+        mfaToken: result.mfaToken,
+        returnTo,
+      });
+    }
+
+    if ('signupToken' in result) {
+      return this.redirectToOAuthResult(res, {
+        status: 'signup',
+        signupToken: result.signupToken,
+        nextStep: result.nextStep,
+        returnTo,
+      });
+    }
+
+    this.setSessionCookie(res, result.refreshToken);
+
+    return this.redirectToOAuthResult(res, {
+      status: 'authenticated',
+      returnTo,
+    });
+  }
+
+  /**
+   * POST /auth/logout
+   * Revoke the current session and clear the session cookie
+   */
+  @Post('logout')
+  async logout(@Req() req: FastifyRequest, @Res() res: FastifyReply) {
+    this.logger.log('Logout request received');
+
+    const result = await this.authService.logout(
+      req.cookies?.session,
+      getSessionContext(req),
+    );
+
+    this.clearSessionCookie(res);
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/logout-all
+   * Revoke every session of the current user
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @RequireScopes(OAuthScope.SESSIONS)
+  async logoutAll(
+    @CurrentUser() user: User,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Logout all request received for user ${user.id}`);
+
+    const result = await this.authService.logoutAll(
+      user,
+      getSessionContext(req),
+    );
+
+    this.clearSessionCookie(res);
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/password/forgot
+   * Request a password reset link (always 202, whether or not the account exists)
+   */
+  @Post('password/forgot')
+  @RateLimit(
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  )
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log('Forgot password request received');
+
+    const result = this.authService.forgotPassword(forgotPasswordDto);
+
+    return res.status(HttpStatus.ACCEPTED).send(result);
+  }
+
+  /**
+   * POST /auth/password/reset
+   * Set a new password with a reset token; all sessions are revoked
+   */
+  @Post('password/reset')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 15 * 60 })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log('Reset password request received');
+
+    const result = await this.authService.resetPassword(
+      resetPasswordDto,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/introspect
+   * RFC 7662 token introspection for internal services (HTTP Basic client auth)
+   */
+  @Post('introspect')
+  @UseGuards(IntrospectionClientGuard)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async introspect(
+    @Body() introspectTokenDto: IntrospectTokenDto,
+    @Res() res: FastifyReply,
+  ) {
+    const result = await this.introspectionService.introspect(
+      introspectTokenDto.token,
+    );
+
+    res.header('Cache-Control', 'no-store');
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * GET /auth/sessions
+   * List the current user's active sessions
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @RequireScopes(OAuthScope.SESSIONS)
+  async listSessions(
+    @CurrentUser() user: User,
+    @CurrentAccessToken() accessToken: AccessTokenPayload,
+    @Res() res: FastifyReply,
+  ) {
+    const result = await this.sessionService.listSessions(
+      user.id,
+      accessToken.sid,
+    );
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * DELETE /auth/sessions/:id
+   * Sign one of the current user's sessions out
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @RequireScopes(OAuthScope.SESSIONS)
+  async revokeSession(
+    @CurrentUser() user: User,
+    @CurrentAccessToken() accessToken: AccessTokenPayload,
+    @Param('id') sessionId: string,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Revoke session request received for user ${user.id}: ${sessionId}`,
+    );
+
+    const result = await this.sessionService.revokeSession(
+      user.id,
+      sessionId,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    if (sessionId === accessToken.sid) {
+      this.clearSessionCookie(res);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
   /**
    * POST /auth/signup
    * Create or resume signup attempt
    */
   @Post('signup')
+  @RateLimit(
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 5, windowSeconds: 60 * 60 },
+    { by: 'route', limit: 300, windowSeconds: 60 },
+  )
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async signup(
     @Body() signupDto: SignupDto,
+    @Req() req: FastifyRequest,
     @Res() res: FastifyReply,
   ) {
     this.logger.log(`Signup request received for email: ${signupDto.email}`);
 
-    const result = await this.authService.signup(signupDto);
+    const result = await this.authService.signup(
+      signupDto,
+      getSessionContext(req),
+    );
 
     if (!result.success) {
-      const failureResult = result as SignupFailureResponseDto;
-      const statusCode = failureResult.statusCode || HttpStatus.BAD_REQUEST;
-      return res.status(statusCode).send(failureResult);
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
     }
 
-    const successResult = result as SignupSuccessResponseDto;
-    return res.status(HttpStatus.OK).send(successResult);
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/verify-email
+   * Complete the email verification step with a one-time code
+   */
+  @Post('signup/verify-email')
+  @RateLimit({ by: 'ip', limit: 30, windowSeconds: 15 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.EMAIL_VERIFICATION)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async verifyEmail(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Body() verifyCodeDto: VerifyCodeDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Verify email request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.verifyEmail(
+      attempt,
+      verifyCodeDto.code,
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/resend-email-code
+   * Issue a new email verification code
+   */
+  @Post('signup/resend-email-code')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 60 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.EMAIL_VERIFICATION)
+  async resendEmailCode(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Resend email code request received for attempt ${attempt.id}`,
+    );
+
+    const result = await this.authService.resendEmailCode(attempt);
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      if (result.retryAfter) {
+        res.header('Retry-After', result.retryAfter.toString());
+      }
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/phone
+   * Set the phone number to verify and send a code by SMS
+   */
+  @Post('signup/phone')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 60 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.PHONE_VERIFICATION)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async startPhoneVerification(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Body() phoneNumberDto: PhoneNumberDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Phone verification request received for attempt ${attempt.id}`,
+    );
+
+    const result = await this.authService.startPhoneVerification(
+      attempt,
+      phoneNumberDto.phoneNumber,
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      if (result.retryAfter) {
+        res.header('Retry-After', result.retryAfter.toString());
+      }
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/verify-phone
+   * Complete the phone verification step with a one-time code
+   */
+  @Post('signup/verify-phone')
+  @RateLimit({ by: 'ip', limit: 30, windowSeconds: 15 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.PHONE_VERIFICATION)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async verifyPhone(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Body() verifyCodeDto: VerifyCodeDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Verify phone request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.verifyPhone(
+      attempt,
+      verifyCodeDto.code,
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/resend-phone-code
+   * Issue a new SMS code for the stored phone number
+   */
+  @Post('signup/resend-phone-code')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 60 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.PHONE_VERIFICATION)
+  async resendPhoneCode(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Resend phone code request received for attempt ${attempt.id}`,
+    );
+
+    const result = await this.authService.resendPhoneCode(attempt);
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      if (result.retryAfter) {
+        res.header('Retry-After', result.retryAfter.toString());
+      }
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/skip-phone
+   * Skip phone verification when it is configured as optional
+   */
+  @Post('signup/skip-phone')
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.PHONE_VERIFICATION)
+  async skipPhoneVerification(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Skip phone request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.skipPhoneVerification(attempt);
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/mfa/setup
+   * Generate a TOTP secret, otpauth URI and QR code for enrollment
+   */
+  @Post('signup/mfa/setup')
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.MFA_SETUP)
+  async setupMfa(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`MFA setup request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.setupMfa(attempt);
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/mfa/verify
+   * Confirm the first TOTP code and receive one-time backup codes
+   */
+  @Post('signup/mfa/verify')
+  @RateLimit({ by: 'ip', limit: 30, windowSeconds: 15 * 60 })
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.MFA_SETUP)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async confirmMfa(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Body() verifyCodeDto: VerifyCodeDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`MFA confirm request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.confirmMfa(
+      attempt,
+      verifyCodeDto.code,
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/mfa/skip
+   * Skip MFA setup when it is configured as optional
+   */
+  @Post('signup/mfa/skip')
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.MFA_SETUP)
+  async skipMfa(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Skip MFA request received for attempt ${attempt.id}`);
+
+    const result = await this.authService.skipMfa(attempt);
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/profile
+   * Provide the name a social login provider did not share
+   */
+  @Post('signup/profile')
+  @UseGuards(SignupJwtGuard)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async setSignupProfile(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Body() signupProfileDto: SignupProfileDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Signup profile request received for attempt ${attempt.id}`,
+    );
+
+    const result = await this.authService.setSignupProfile(
+      attempt,
+      signupProfileDto,
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /auth/signup/complete
+   * Create the user from a finished signup attempt and start a session
+   */
+  @Post('signup/complete')
+  @UseGuards(SignupJwtGuard)
+  @SignupStepHandler(SignupStep.COMPLETE)
+  async completeSignup(
+    @CurrentSignupAttempt() attempt: SignupAttempt,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Complete signup request received for attempt ${attempt.id}`,
+    );
+
+    const result = await this.authService.completeSignup(
+      attempt,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.BAD_REQUEST;
+      return res.status(statusCode).send(result);
+    }
+
+    this.setSessionCookie(res, result.refreshToken);
+
+    return res.status(HttpStatus.CREATED).send(result.response);
+  }
+
+  /**
+   * POST /auth/mfa/verify
+   * Exchange an MFA challenge token and TOTP/backup code for a session
+   */
+  @Post('mfa/verify')
+  @RateLimit({ by: 'ip', limit: 20, windowSeconds: 15 * 60 })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async verifyMfaChallenge(
+    @Body() mfaChallengeDto: MfaChallengeDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log('MFA challenge verification request received');
+
+    const result = await this.authService.verifyMfaChallenge(
+      mfaChallengeDto.mfaToken,
+      mfaChallengeDto.code,
+      getSessionContext(req),
+    );
+
+    if (!result.success) {
+      const statusCode = result.statusCode || HttpStatus.UNAUTHORIZED;
+      if (result.retryAfter) {
+        res.header('Retry-After', result.retryAfter.toString());
+      }
+      return res.status(statusCode).send(result);
+    }
+
+    this.setSessionCookie(res, result.refreshToken);
+
+    return res.status(HttpStatus.OK).send(result.response);
+  }
+
+  /**
+   * Set the refresh token as the httpOnly session cookie
+   */
+  private setSessionCookie(res: FastifyReply, refreshToken: string) {
+    res.setCookie('session', refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      path: '/',
+    });
+  }
+
+  /**
+   * Redirect to the frontend social login result page
+   */
+  private redirectToOAuthResult(
+    res: FastifyReply,
+    params: Record<string, string | undefined>,
+  ) {
+    return res.redirect(
+      this.oauthClientService.buildResultUrl(params),
+      HttpStatus.FOUND,
+    );
+  }
+
+  /**
+   * Remove the session cookie
+   */
+  private clearSessionCookie(res: FastifyReply) {
+    res.clearCookie('session', { path: '/' });
   }
 }
@@ -1,32 +1,91 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthController } from './auth.controller';
+import { JwksController } from './jwks.controller';
+import { RolesController } from './roles.controller';
+import { ApiKeysController } from './api-keys.controller';
+import { AuthEventsController } from './auth-events.controller';
+import { ProfileController } from './profile.controller';
 import { AuthService } from './auth.service';
 import { TokenService } from './services/token.service';
+import { SigningKeyService } from './services/signing-key.service';
 import { SignupAttemptService } from './services/signup-attempt.service';
+import { VerificationCodeService } from './services/verification-code.service';
+import { MfaService } from './services/mfa.service';
+import { SessionService } from './services/session.service';
+import { IntrospectionService } from './services/introspection.service';
+import { OAuthClientService } from './services/oauth-client.service';
+import { PasswordResetService } from './services/password-reset.service';
+import { EmailChangeService } from './services/email-change.service';
+import { ProfileService } from './services/profile.service';
+import { AccountService } from './services/account.service';
+import { AccountLockoutService } from './services/account-lockout.service';
+import { AuthEventService } from './services/auth-event.service';
+import { RoleService } from './services/role.service';
+import { ApiKeyService } from './services/api-key.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { SignupJwtGuard } from './guards/signup-jwt.guard';
+import { AuthorizationGuard } from './guards/authorization.guard';
+import { OrganizationGuard } from './guards/organization.guard';
+import { IntrospectionClientGuard } from './guards/introspection-client.guard';
+import { MailModule } from '../mail/mail.module';
+import { SmsModule } from '../sms/sms.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
 
 @Module({
   imports: [
     JwtModule.register({
       global: false, // We'll use specific secrets for different token types
     }),
+    MailModule,
+    SmsModule,
+    RateLimitModule,
+  ],
+  controllers: [
+    AuthController,
+    JwksController,
+    RolesController,
+    ApiKeysController,
+    AuthEventsController,
+    ProfileController,
   ],
-  controllers: [AuthController],
   providers: [
     AuthService,
     TokenService,
+    SigningKeyService,
     SignupAttemptService,
+    VerificationCodeService,
+    MfaService,
+    SessionService,
+    IntrospectionService,
+    OAuthClientService,
+    PasswordResetService,
+    EmailChangeService,
+    ProfileService,
+    AccountService,
+    AccountLockoutService,
+    AuthEventService,
+    RoleService,
+    ApiKeyService,
     JwtAuthGuard,
     SignupJwtGuard,
+    AuthorizationGuard,
+    OrganizationGuard,
+    IntrospectionClientGuard,
   ],
   exports: [
     AuthService,
     TokenService,
     SignupAttemptService,
+    AccountService,
+    SessionService,
+    AuthEventService,
+    RoleService,
+    ApiKeyService,
     JwtAuthGuard,
     SignupJwtGuard,
+    AuthorizationGuard,
+    OrganizationGuard,
   ],
 })
 export class AuthModule {}
@@ -0,0 +1,925 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, RefreshToken, SignupAttempt, User } from '@prisma/client';
+import { AuthService } from './auth.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TokenService } from './services/token.service';
+import { SignupAttemptService } from './services/signup-attempt.service';
+import { VerificationCodeService } from './services/verification-code.service';
+import { MfaService } from './services/mfa.service';
+import { AccountLockoutService } from './services/account-lockout.service';
+import { PasswordResetService } from './services/password-reset.service';
+import { AccountService } from './services/account.service';
+import { AuthEventService, AuthEventType } from './services/auth-event.service';
+import { RoleService } from './services/role.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { RefreshTokenRevokedReason } from './constants/refresh-token';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let signupAttemptService: Record<string, jest.Mock>;
+  let tokenService: Record<string, jest.Mock>;
+  let accountLockoutService: Record<string, jest.Mock>;
+  let accountService: Record<string, jest.Mock>;
+  let mfaService: Record<string, jest.Mock>;
+  let verificationCodeService: Record<string, jest.Mock>;
+  let smsService: Record<string, jest.Mock>;
+  let authEventService: Record<string, jest.Mock>;
+  let prisma: {
+    $transaction: jest.Mock;
+    user: Record<string, jest.Mock>;
+    refreshToken: Record<string, jest.Mock>;
+  };
+
+  const attempt = {
+    id: 'attempt-1',
+    email: 'victim@example.com',
+    passwordHash: 'hash',
+    currentStep: 'email_verification',
+    completedSteps: [],
+  } as unknown as SignupAttempt;
+
+  beforeEach(async () => {
+    signupAttemptService = {
+      checkUserExists: jest.fn().mockResolvedValue(false),
+      findInProgressAttempt: jest.fn().mockResolvedValue(attempt),
+      resumeSignupAttempt: jest.fn().mockResolvedValue(attempt),
+      verifyPassword: jest.fn(),
+      hashPassword: jest.fn().mockResolvedValue('dummy-hash'),
+      getMissingRequiredSteps: jest.fn().mockReturnValue([]),
+      completeSignupAttempt: jest.fn(),
+      checkStepTransition: jest.fn().mockReturnValue(null),
+      setProfileDetails: jest.fn(
+        (_id: string, firstName: string, lastName: string) => ({
+          ...attempt,
+          firstName,
+          lastName,
+        }),
+      ),
+      setPhoneNumber: jest.fn((_id: string, phoneNumber: string) => ({
+        ...attempt,
+        phoneNumber,
+      })),
+      markPhoneVerified: jest.fn(() => ({ ...attempt, phoneVerified: true })),
+      advanceSignupStep: jest.fn(() => ({
+        ...attempt,
+        currentStep: 'complete',
+      })),
+    };
+    verificationCodeService = {
+      getResendCooldownRemaining: jest.fn().mockResolvedValue(0),
+      countCodesSentToTarget: jest.fn().mockResolvedValue(0),
+      issueCode: jest.fn().mockResolvedValue({
+        code: '123456',
+        expiresAt: new Date(Date.now() + 600_000),
+      }),
+      verifyCode: jest.fn().mockResolvedValue({ valid: true }),
+    };
+    smsService = { send: jest.fn() };
+    accountLockoutService = {
+      getLockRemainingSeconds: jest.fn().mockReturnValue(0),
+      recordFailure: jest.fn().mockResolvedValue(0),
+      reset: jest.fn(),
+    };
+    accountService = {
+      canReactivate: jest.fn().mockReturnValue(true),
+      reactivate: jest.fn((user: User) => ({ ...user, status: 'ACTIVE' })),
+    };
+    mfaService = { verifyUserTotp: jest.fn(), transferEnrollment: jest.fn() };
+    authEventService = { record: jest.fn() };
+    prisma = {
+      $transaction: jest.fn(),
+      user: { findUnique: jest.fn() },
+      refreshToken: {
+        findUnique: jest.fn(),
+        count: jest.fn().mockResolvedValue(1),
+      },
+    };
+    tokenService = {
+      generateSignupToken: jest.fn().mockReturnValue('signup-token'),
+      generateMfaChallengeToken: jest.fn().mockReturnValue('mfa-token'),
+      getMfaChallengeExpiryInSeconds: jest.fn().mockReturnValue(300),
+      verifyMfaChallengeToken: jest.fn(),
+      verifyRefreshToken: jest.fn(),
+      matchesRefreshTokenHash: jest.fn().mockReturnValue(true),
+      getRotationGraceSeconds: jest.fn().mockReturnValue(30),
+      generateAccessToken: jest.fn().mockReturnValue('access-token'),
+      getAccessTokenExpiryInSeconds: jest.fn().mockReturnValue(900),
+      shouldRotateRefreshToken: jest.fn().mockResolvedValue(false),
+      rotateRefreshToken: jest.fn(),
+      touchRefreshToken: jest.fn(),
+      revokeSession: jest.fn().mockResolvedValue(2),
+      revokeRefreshToken: jest.fn(),
+      generateRefreshToken: jest.fn().mockResolvedValue({
+        token: 'refresh-token',
+        sessionId: 'session-1',
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: tokenService },
+        { provide: SignupAttemptService, useValue: signupAttemptService },
+        {
+          provide: VerificationCodeService,
+          useValue: verificationCodeService,
+        },
+        { provide: MfaService, useValue: mfaService },
+        {
+          provide: AccountLockoutService,
+          useValue: accountLockoutService,
+        },
+        { provide: PasswordResetService, useValue: {} },
+        { provide: AccountService, useValue: accountService },
+        { provide: AuthEventService, useValue: authEventService },
+        {
+          provide: RoleService,
+          useValue: { getRolesClaim: jest.fn() },
+        },
+        { provide: MailService, useValue: {} },
+        { provide: SmsService, useValue: smsService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    authService = module.get<AuthService>(AuthService);
+  });
+
+  describe('signup', () => {
+    const signupDto = {
+      email: 'victim@example.com',
+      firstName: 'Eve',
+      lastName: 'Attacker',
+      password: 'Guessed-Password1',
+    };
+
+    it('resumes an in-progress attempt when the password matches', async () => {
+      signupAttemptService.verifyPassword.mockResolvedValue(true);
+
+      const result = await authService.signup(signupDto);
+
+      expect(result).toMatchObject({
+        success: true,
+        signupToken: 'signup-token',
+        resumedSession: true,
+      });
+      expect(signupAttemptService.verifyPassword).toHaveBeenCalledWith(
+        signupDto.password,
+        attempt.passwordHash,
+      );
+    });
+
+    it('issues no token when the password does not match', async () => {
+      signupAttemptService.verifyPassword.mockResolvedValue(false);
+
+      const result = await authService.signup(signupDto);
+
+      expect(result.success).toBe(true);
+      expect(result).not.toHaveProperty('signupToken');
+      expect(tokenService.generateSignupToken).not.toHaveBeenCalled();
+      expect(signupAttemptService.resumeSignupAttempt).not.toHaveBeenCalled();
+    });
+
+    it('issues no token for attempts without a password', async () => {
+      signupAttemptService.findInProgressAttempt.mockResolvedValue({
+        ...attempt,
+        passwordHash: null,
+      });
+
+      const result = await authService.signup(signupDto);
+
+      expect(result).not.toHaveProperty('signupToken');
+      expect(signupAttemptService.verifyPassword).not.toHaveBeenCalled();
+      expect(tokenService.generateSignupToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('phone verification', () => {
+    const phoneNumber = '+15555550100';
+    const phoneAttempt = { ...attempt, phoneNumber } as SignupAttempt;
+
+    it('stores the number and texts it a code', async () => {
+      await expect(
+        authService.startPhoneVerification(attempt, phoneNumber),
+      ).resolves.toMatchObject({ success: true });
+
+      expect(signupAttemptService.setPhoneNumber).toHaveBeenCalledWith(
+        attempt.id,
+        phoneNumber,
+      );
+      expect(verificationCodeService.issueCode).toHaveBeenCalledWith(
+        attempt.id,
+        'SMS',
+        phoneNumber,
+      );
+      expect(smsService.send).toHaveBeenCalledWith({
+        to: phoneNumber,
+        body: 'Your Vritti verification code is 123456',
+      });
+    });
+
+    it('sends nothing once the number reached its send limit', async () => {
+      verificationCodeService.countCodesSentToTarget.mockResolvedValue(5);
+
+      await expect(
+        authService.startPhoneVerification(attempt, phoneNumber),
+      ).resolves.toMatchObject({
+        success: false,
+        statusCode: 429,
+        retryAfter: 3600,
+      });
+
+      const [channel, target, since] = verificationCodeService
+        .countCodesSentToTarget.mock.calls[0] as [string, string, Date];
+      expect([channel, target]).toEqual(['SMS', phoneNumber]);
+      expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(3_600_000);
+      expect(verificationCodeService.issueCode).not.toHaveBeenCalled();
+      expect(smsService.send).not.toHaveBeenCalled();
+    });
+
+    it('refuses a new code within the resend cooldown', async () => {
+      verificationCodeService.getResendCooldownRemaining.mockResolvedValue(42);
+
+      await expect(
+        authService.startPhoneVerification(attempt, phoneNumber),
+      ).resolves.toMatchObject({ statusCode: 429, retryAfter: 42 });
+      expect(signupAttemptService.setPhoneNumber).not.toHaveBeenCalled();
+    });
+
+    it('refuses the step when the flow does not allow it now', async () => {
+      signupAttemptService.checkStepTransition.mockReturnValue({
+        message: 'Complete email_verification first',
+        statusCode: 409,
+      });
+
+      await expect(
+        authService.startPhoneVerification(attempt, phoneNumber),
+      ).resolves.toMatchObject({ success: false, statusCode: 409 });
+      expect(smsService.send).not.toHaveBeenCalled();
+    });
+
+    it('refuses a number that is already verified', async () => {
+      await expect(
+        authService.startPhoneVerification(
+          { ...phoneAttempt, phoneVerified: true },
+          phoneNumber,
+        ),
+      ).resolves.toMatchObject({
+        message: 'Phone number has already been verified',
+        statusCode: 409,
+      });
+    });
+
+    it('completes the step with a valid code', async () => {
+      await expect(
+        authService.verifyPhone(phoneAttempt, '123456'),
+      ).resolves.toMatchObject({ success: true, nextStep: 'complete' });
+
+      expect(verificationCodeService.verifyCode).toHaveBeenCalledWith(
+        attempt.id,
+        'SMS',
+        '123456',
+      );
+      expect(signupAttemptService.advanceSignupStep).toHaveBeenCalledWith(
+        expect.objectContaining({ phoneVerified: true }),
+        'phone_verification',
+      );
+    });
+
+    it('keeps the step open for a wrong code', async () => {
+      verificationCodeService.verifyCode.mockResolvedValue({
+        valid: false,
+        reason: 'invalid',
+        remainingAttempts: 2,
+      });
+
+      await expect(
+        authService.verifyPhone(phoneAttempt, '000000'),
+      ).resolves.toMatchObject({ statusCode: 400, remainingAttempts: 2 });
+      expect(signupAttemptService.markPhoneVerified).not.toHaveBeenCalled();
+    });
+
+    it('resends a code to the stored number', async () => {
+      await expect(
+        authService.resendPhoneCode(phoneAttempt),
+      ).resolves.toMatchObject({ success: true });
+
+      expect(smsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: phoneNumber }),
+      );
+    });
+
+    it('resends nothing before a number was given', async () => {
+      await expect(authService.resendPhoneCode(attempt)).resolves.toMatchObject(
+        { success: false, statusCode: 400 },
+      );
+      expect(smsService.send).not.toHaveBeenCalled();
+    });
+
+    it('applies the send limit to resends', async () => {
+      verificationCodeService.countCodesSentToTarget.mockResolvedValue(5);
+
+      await expect(
+        authService.resendPhoneCode(phoneAttempt),
+      ).resolves.toMatchObject({ statusCode: 429 });
+      expect(smsService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setSignupProfile', () => {
+    const profile = { firstName: 'Ada', lastName: 'Lovelace' };
+    const socialAttempt = {
+      ...attempt,
+      passwordHash: null,
+      oauthProvider: 'google',
+      firstName: null,
+      lastName: null,
+    } as unknown as SignupAttempt;
+
+    it('stores the name of a social signup that lacks one', async () => {
+      await expect(
+        authService.setSignupProfile(socialAttempt, profile),
+      ).resolves.toMatchObject({ success: true, signupToken: 'signup-token' });
+
+      expect(signupAttemptService.setProfileDetails).toHaveBeenCalledWith(
+        attempt.id,
+        'Ada',
+        'Lovelace',
+      );
+    });
+
+    it('refuses password signups', async () => {
+      await expect(
+        authService.setSignupProfile(
+          { ...socialAttempt, oauthProvider: null },
+          profile,
+        ),
+      ).resolves.toMatchObject({ success: false, statusCode: 400 });
+      expect(signupAttemptService.setProfileDetails).not.toHaveBeenCalled();
+    });
+
+    it('refuses to overwrite a name that is already set', async () => {
+      await expect(
+        authService.setSignupProfile(
+          { ...socialAttempt, firstName: 'Grace', lastName: 'Hopper' },
+          profile,
+        ),
+      ).resolves.toMatchObject({ success: false, statusCode: 409 });
+      expect(signupAttemptService.setProfileDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeSignup', () => {
+    const readyAttempt = {
+      ...attempt,
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      emailVerified: true,
+      oauthProvider: null,
+      oauthSubject: null,
+    } as SignupAttempt;
+    let tx: Record<'user' | 'userIdentity', Record<string, jest.Mock>>;
+
+    beforeEach(() => {
+      tx = {
+        user: {
+          create: jest.fn().mockResolvedValue({ id: 'user-1' }),
+          findUniqueOrThrow: jest.fn().mockResolvedValue({
+            id: 'user-1',
+            email: readyAttempt.email,
+            status: 'ACTIVE',
+          }),
+        },
+        userIdentity: { create: jest.fn() },
+      };
+      prisma.$transaction.mockImplementation(
+        (fn: (client: typeof tx) => unknown) => fn(tx),
+      );
+    });
+
+    it('rejects an attempt with required steps still missing', async () => {
+      signupAttemptService.getMissingRequiredSteps.mockReturnValue([
+        'email_verification',
+      ]);
+
+      await expect(authService.completeSignup(readyAttempt)).resolves.toEqual({
+        success: false,
+        message: 'Required signup steps have not been completed',
+        statusCode: 400,
+        missingSteps: ['email_verification'],
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects an attempt without profile details', async () => {
+      await expect(
+        authService.completeSignup({ ...readyAttempt, lastName: null }),
+      ).resolves.toMatchObject({ success: false, statusCode: 400 });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('creates the user, moves MFA over and completes the attempt in one transaction', async () => {
+      const result = await authService.completeSignup(readyAttempt);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.user.create).toHaveBeenCalledWith({
+        data: {
+          email: readyAttempt.email,
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          passwordHash: readyAttempt.passwordHash,
+          emailVerified: true,
+        },
+      });
+      expect(mfaService.transferEnrollment).toHaveBeenCalledWith(
+        readyAttempt,
+        'user-1',
+        tx,
+      );
+      expect(signupAttemptService.completeSignupAttempt).toHaveBeenCalledWith(
+        readyAttempt.id,
+        tx,
+      );
+      expect(result).toMatchObject({
+        success: true,
+        refreshToken: 'refresh-token',
+      });
+    });
+
+    it('starts no session when the transaction fails', async () => {
+      signupAttemptService.completeSignupAttempt.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      await expect(
+        authService.completeSignup(readyAttempt),
+      ).resolves.toMatchObject({ success: false, statusCode: 500 });
+      expect(tokenService.generateRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('reports a conflict when the email was registered meanwhile', async () => {
+      tx.user.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(authService.completeSignup(readyAttempt)).resolves.toEqual({
+        success: false,
+        message: 'An account with this email already exists',
+        statusCode: 409,
+      });
+      expect(mfaService.transferEnrollment).not.toHaveBeenCalled();
+      expect(tokenService.generateRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshApplication', () => {
+    const user = {
+      id: 'user-1',
+      email: 'user@example.com',
+      status: 'ACTIVE',
+    } as User;
+    const tokenRecord = {
+      id: 'token-1',
+      userId: user.id,
+      sessionId: 'session-1',
+      tokenHash: 'hash',
+      clientId: null,
+      organizationId: null,
+      revoked: false,
+      revokedAt: null,
+      revokedReason: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      user,
+    } as unknown as RefreshToken;
+
+    const rotatedAgo = (seconds: number) => ({
+      ...tokenRecord,
+      revoked: true,
+      revokedAt: new Date(Date.now() - seconds * 1000),
+      revokedReason: RefreshTokenRevokedReason.ROTATED,
+    });
+
+    beforeEach(() => {
+      tokenService.verifyRefreshToken.mockReturnValue({
+        sub: user.id,
+        tokenId: tokenRecord.id,
+        type: 'refresh',
+      });
+    });
+
+    it('rotates an old token and returns its successor', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(tokenRecord);
+      tokenService.shouldRotateRefreshToken.mockResolvedValue(true);
+      tokenService.rotateRefreshToken.mockResolvedValue({
+        token: 'new-refresh-token',
+        expiresAt: new Date(),
+      });
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({
+        success: true,
+        accessToken: 'access-token',
+        newRefreshToken: 'new-refresh-token',
+      });
+      expect(tokenService.rotateRefreshToken).toHaveBeenCalledWith(
+        tokenRecord.id,
+        user.id,
+        {},
+      );
+    });
+
+    it('only touches a token that is not due for rotation', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(tokenRecord);
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({ success: true });
+      expect(result).not.toHaveProperty('newRefreshToken');
+      expect(tokenService.touchRefreshToken).toHaveBeenCalledWith(
+        tokenRecord.id,
+        {},
+      );
+    });
+
+    it('accepts a token rotated within the grace window without rotating it again', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(rotatedAgo(5));
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({ success: true });
+      expect(tokenService.shouldRotateRefreshToken).not.toHaveBeenCalled();
+      expect(tokenService.rotateRefreshToken).not.toHaveBeenCalled();
+      expect(tokenService.touchRefreshToken).not.toHaveBeenCalled();
+      expect(tokenService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token rotated within the grace window once its session was revoked', async () => {
+      // rotated, then logout-all revoked the successor and left no live token
+      prisma.refreshToken.findUnique.mockResolvedValue(rotatedAgo(5));
+      prisma.refreshToken.count.mockResolvedValue(0);
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Session has been revoked',
+      });
+      const [{ where }] = prisma.refreshToken.count.mock.calls[0] as [
+        { where: Record<string, unknown> },
+      ];
+      expect(where).toMatchObject({
+        sessionId: tokenRecord.sessionId,
+        revoked: false,
+      });
+      expect(tokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('revokes the whole session when a rotated token is reused after the grace window', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(rotatedAgo(60));
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Session has been revoked',
+      });
+      expect(tokenService.revokeSession).toHaveBeenCalledWith(
+        user.id,
+        tokenRecord.sessionId,
+        RefreshTokenRevokedReason.REUSE_DETECTED,
+        { context: {} },
+      );
+      expect(authEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: AuthEventType.REFRESH_TOKEN_REUSE,
+          sessionId: tokenRecord.sessionId,
+        }),
+      );
+    });
+
+    it('does not treat a token revoked at logout as reuse', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        ...tokenRecord,
+        revoked: true,
+        revokedAt: new Date(),
+        revokedReason: RefreshTokenRevokedReason.LOGOUT,
+      });
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({ success: false });
+      expect(tokenService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token whose hash does not match the stored one', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(tokenRecord);
+      tokenService.matchesRefreshTokenHash.mockReturnValue(false);
+
+      const result = await authService.refreshApplication('refresh-token');
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Invalid session',
+      });
+      expect(tokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    const tokenRecord = {
+      id: 'token-1',
+      userId: 'user-1',
+      tokenHash: 'hash',
+    } as RefreshToken;
+
+    beforeEach(() => {
+      tokenService.verifyRefreshToken.mockReturnValue({
+        sub: tokenRecord.userId,
+        tokenId: tokenRecord.id,
+        type: 'refresh',
+      });
+      prisma.refreshToken.findUnique.mockResolvedValue(tokenRecord);
+    });
+
+    it('revokes the token of the session cookie', async () => {
+      await expect(authService.logout('refresh-token')).resolves.toEqual({
+        success: true,
+        message: 'Logged out',
+      });
+
+      expect(tokenService.matchesRefreshTokenHash).toHaveBeenCalledWith(
+        'refresh-token',
+        tokenRecord.tokenHash,
+      );
+      expect(tokenService.revokeRefreshToken).toHaveBeenCalledWith(
+        tokenRecord.id,
+        RefreshTokenRevokedReason.LOGOUT,
+        { actorId: tokenRecord.userId, context: {} },
+      );
+    });
+
+    it('revokes nothing for a token whose hash does not match the stored one', async () => {
+      tokenService.matchesRefreshTokenHash.mockReturnValue(false);
+
+      await expect(authService.logout('refresh-token')).resolves.toMatchObject({
+        success: true,
+      });
+      expect(tokenService.revokeRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('still revokes the session of an expired token', async () => {
+      await expect(authService.logout('refresh-token')).resolves.toMatchObject({
+        success: true,
+      });
+
+      expect(tokenService.verifyRefreshToken).toHaveBeenCalledWith(
+        'refresh-token',
+        { ignoreExpiration: true },
+      );
+      expect(tokenService.revokeRefreshToken).toHaveBeenCalledWith(
+        tokenRecord.id,
+        RefreshTokenRevokedReason.LOGOUT,
+        expect.anything(),
+      );
+    });
+
+    it('does not treat a revoked token as reuse', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        ...tokenRecord,
+        revoked: true,
+        revokedReason: RefreshTokenRevokedReason.ROTATED,
+      });
+
+      await expect(authService.logout('refresh-token')).resolves.toMatchObject({
+        success: true,
+      });
+
+      // Revoking an already revoked token is a no-op in TokenService
+      expect(tokenService.revokeRefreshToken).toHaveBeenCalledTimes(1);
+      expect(tokenService.revokeRefreshToken).toHaveBeenCalledWith(
+        tokenRecord.id,
+        RefreshTokenRevokedReason.LOGOUT,
+        expect.anything(),
+      );
+      expect(tokenService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('succeeds without a lookup for a malformed token', async () => {
+      tokenService.verifyRefreshToken.mockImplementation(() => {
+        throw new UnauthorizedException('Invalid refresh token');
+      });
+
+      await expect(authService.logout('not-a-jwt')).resolves.toMatchObject({
+        success: true,
+      });
+      expect(prisma.refreshToken.findUnique).not.toHaveBeenCalled();
+      expect(tokenService.revokeRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('succeeds for a token that is not in the database', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(authService.logout('refresh-token')).resolves.toMatchObject({
+        success: true,
+      });
+      expect(tokenService.revokeRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('succeeds without a session cookie', async () => {
+      await expect(authService.logout(undefined)).resolves.toMatchObject({
+        success: true,
+      });
+      expect(tokenService.verifyRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('succeeds when the token cannot be looked up', async () => {
+      prisma.refreshToken.findUnique.mockRejectedValue(
+        new Error('database unavailable'),
+      );
+
+      await expect(authService.logout('refresh-token')).resolves.toMatchObject({
+        success: true,
+      });
+      expect(tokenService.revokeRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    const user = {
+      id: 'user-1',
+      email: 'user@example.com',
+      passwordHash: 'hash',
+      status: 'ACTIVE',
+      mfaEnabled: false,
+    } as User;
+    const loginDto = { email: 'user@example.com', password: 'Password1!' };
+
+    it('answers a locked account like wrong credentials', async () => {
+      prisma.user.findUnique.mockResolvedValue(user);
+      accountLockoutService.getLockRemainingSeconds.mockReturnValue(120);
+      signupAttemptService.verifyPassword.mockResolvedValue(true);
+
+      const result = await authService.login(loginDto);
+
+      expect(result).toMatchObject({
+        success: false,
+        statusCode: 401,
+        reason: 'INVALID_CREDENTIALS',
+      });
+      expect(result).not.toHaveProperty('retryAfter');
+    });
+
+    it('answers a failure that locks the account like wrong credentials', async () => {
+      prisma.user.findUnique.mockResolvedValue(user);
+      accountLockoutService.recordFailure.mockResolvedValue(60);
+      signupAttemptService.verifyPassword.mockResolvedValue(false);
+
+      const result = await authService.login(loginDto);
+
+      expect(accountLockoutService.recordFailure).toHaveBeenCalledWith(user);
+      expect(result).toMatchObject({
+        statusCode: 401,
+        reason: 'INVALID_CREDENTIALS',
+      });
+    });
+
+    it('checks a password even for unknown emails', async () => {
+      prisma.user.findUnique.mockResolvedValue(null);
+      signupAttemptService.verifyPassword.mockResolvedValue(false);
+
+      const result = await authService.login(loginDto);
+
+      expect(signupAttemptService.verifyPassword).toHaveBeenCalledWith(
+        loginDto.password,
+        'dummy-hash',
+      );
+      expect(result).toMatchObject({
+        statusCode: 401,
+        reason: 'INVALID_CREDENTIALS',
+      });
+    });
+  });
+
+  describe('reactivation with MFA', () => {
+    const mfaUser = {
+      id: 'user-1',
+      email: 'user@example.com',
+      passwordHash: 'hash',
+      status: 'INACTIVE',
+      mfaEnabled: true,
+      mfaSecret: 'secret',
+    } as User;
+
+    it('does not reactivate on the password alone', async () => {
+      prisma.user.findUnique.mockResolvedValue(mfaUser);
+      signupAttemptService.verifyPassword.mockResolvedValue(true);
+
+      const result = await authService.login({
+        email: mfaUser.email,
+        password: 'Password1!',
+        reactivate: true,
+      });
+
+      expect(result).toMatchObject({
+        mfaRequired: true,
+        mfaToken: 'mfa-token',
+      });
+      expect(tokenService.generateMfaChallengeToken).toHaveBeenCalledWith(
+        mfaUser.id,
+        true,
+      );
+      expect(accountService.reactivate).not.toHaveBeenCalled();
+    });
+
+    it('reactivates once the MFA challenge is passed', async () => {
+      prisma.user.findUnique.mockResolvedValue(mfaUser);
+      tokenService.verifyMfaChallengeToken.mockReturnValue({
+        sub: mfaUser.id,
+        type: 'mfa_challenge',
+        reactivate: true,
+      });
+      mfaService.verifyUserTotp.mockResolvedValue(true);
+      const createSession = jest
+        .spyOn(
+          authService as unknown as { createSession: () => Promise<object> },
+          'createSession',
+        )
+        .mockResolvedValue({ success: true });
+
+      await authService.verifyMfaChallenge('mfa-token', '123456');
+
+      expect(accountService.reactivate).toHaveBeenCalled();
+      expect(createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'ACTIVE' }),
+        {},
+        'mfa',
+      );
+    });
+
+    it('keeps the account inactive when the MFA code is wrong', async () => {
+      prisma.user.findUnique.mockResolvedValue(mfaUser);
+      tokenService.verifyMfaChallengeToken.mockReturnValue({
+        sub: mfaUser.id,
+        type: 'mfa_challenge',
+        reactivate: true,
+      });
+      mfaService.verifyUserTotp.mockResolvedValue(false);
+
+      const result = await authService.verifyMfaChallenge(
+        'mfa-token',
+        '000000',
+      );
+
+      expect(result).toMatchObject({ success: false, statusCode: 401 });
+      expect(accountService.reactivate).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired or forged challenge token', async () => {
+      tokenService.verifyMfaChallengeToken.mockImplementation(() => {
+        throw new UnauthorizedException('Invalid or expired MFA challenge');
+      });
+
+      const result = await authService.verifyMfaChallenge(
+        'mfa-token',
+        '123456',
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        message: 'Invalid or expired MFA challenge',
+        statusCode: 401,
+      });
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+      expect(mfaService.verifyUserTotp).not.toHaveBeenCalled();
+    });
+
+    it('refuses a non-active account when the challenge did not ask to reactivate', async () => {
+      prisma.user.findUnique.mockResolvedValue(mfaUser);
+      tokenService.verifyMfaChallengeToken.mockReturnValue({
+        sub: mfaUser.id,
+        type: 'mfa_challenge',
+      });
+
+      const result = await authService.verifyMfaChallenge(
+        'mfa-token',
+        '123456',
+      );
+
+      expect(result).toMatchObject({ success: false, statusCode: 403 });
+      expect(mfaService.verifyUserTotp).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,8 +4,9 @@ import {
   UnauthorizedException,
   ConflictException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
-import { TokenService } from './services/token.service';
+import { SessionContext, TokenService } from './services/token.service';
 import { SignupAttemptService } from './services/signup-attempt.service';
 import {
   RefreshResponseDto,
@@ -16,19 +17,86 @@ import {
 import {
   SignupResponseDto,
   SignupSuccessResponseDto,
+  SignupPendingResponseDto,
   SignupFailureResponseDto,
 } from './dto/signup-response.dto';
+import {
+  CodeSentResponseDto,
+  ResendCodeResponseDto,
+  VerificationFailureResponseDto,
+  VerifyCodeResponseDto,
+} from './dto/verification-response.dto';
+import {
+  MfaChallengeResponseDto,
+  MfaEnrollmentResponseDto,
+  MfaFailureResponseDto,
+  MfaSetupResponseDto,
+} from './dto/mfa-response.dto';
+import { LoginFailureResponseDto } from './dto/login-response.dto';
+import { SocialLoginFailureResponseDto } from './dto/social-login-response.dto';
+import { LogoutResponseDto } from './dto/logout-response.dto';
+import {
+  PasswordResetResponseDto,
+  PasswordResetSuccessResponseDto,
+} from './dto/password-reset-response.dto';
 import { SignupDto } from './dto/signup.dto';
-import { User } from '@prisma/client';
+import { SignupProfileDto } from './dto/signup-profile.dto';
+import { LoginDto } from './dto/login.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { SignupStep, SignupStepName } from './constants/signup-steps';
+import { getAccountStatusReason } from './constants/account-status';
+import { RefreshTokenRevokedReason } from './constants/refresh-token';
+import { AccountService } from './services/account.service';
+import {
+  VerificationCodeService,
+  VerificationResult,
+} from './services/verification-code.service';
+import { MfaService } from './services/mfa.service';
+import { AccountLockoutService } from './services/account-lockout.service';
+import { PasswordResetService } from './services/password-reset.service';
+import type { ExternalIdentity } from './services/oauth-client.service';
+import { AuthEventService, AuthEventType } from './services/auth-event.service';
+import { RoleService } from './services/role.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import {
+  Prisma,
+  RefreshToken,
+  SignupAttempt,
+  User,
+  VerificationChannel,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+
+/**
+ * A started session: the refresh token goes into the session cookie,
+ * the response goes into the body
+ */
+export interface IssuedSession {
+  success: true;
+  refreshToken: string;
+  response: RefreshSuccessResponseDto;
+}
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
+  private dummyPasswordHash?: Promise<string>;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly tokenService: TokenService,
     private readonly signupAttemptService: SignupAttemptService,
+    private readonly verificationCodeService: VerificationCodeService,
+    private readonly mfaService: MfaService,
+    private readonly accountLockoutService: AccountLockoutService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly accountService: AccountService,
+    private readonly authEventService: AuthEventService,
+    private readonly roleService: RoleService,
+    private readonly mailService: MailService,
+    private readonly smsService: SmsService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -36,10 +104,12 @@ export class AuthService {
    */
   async refreshApplication(
     refreshToken?: string,
+    context: SessionContext = {},
   ): Promise<RefreshResponseDto> {
     // No refresh token provided
     if (!refreshToken) {
       this.logger.warn('No refresh token provided');
+      this.recordRefreshFailure('no_session', context);
       return {
         success: false,
         message: 'No session found',
@@ -57,8 +127,18 @@ export class AuthService {
         include: { user: true },
       });
 
-      if (!tokenRecord) {
+      // Tokens issued to OAuth clients are only refreshed at /oauth/token,
+      // where they keep their scopes
+      if (
+        !tokenRecord ||
+        tokenRecord.clientId ||
+        !this.tokenService.matchesRefreshTokenHash(
+          refreshToken,
+          tokenRecord.tokenHash,
+        )
+      ) {
         this.logger.warn(`Refresh token ${payload.tokenId} not found in DB`);
+        this.recordRefreshFailure('invalid_session', context, tokenRecord);
         return {
           success: false,
           message: 'Invalid session',
@@ -66,8 +146,20 @@ export class AuthService {
         } as RefreshFailureResponseDto;
       }
 
-      if (tokenRecord.revoked) {
+      // A token rotated moments ago is tolerated (concurrent tabs) while its
+      // session is still live; any other reuse of a rotated token revokes
+      // its whole family
+      const inRotationGrace =
+        tokenRecord.revoked && (await this.isWithinRotationGrace(tokenRecord));
+
+      if (tokenRecord.revoked && !inRotationGrace) {
         this.logger.warn(`Refresh token ${payload.tokenId} has been revoked`);
+
+        if (tokenRecord.revokedReason === RefreshTokenRevokedReason.ROTATED) {
+          await this.handleRefreshTokenReuse(tokenRecord, context);
+        }
+        this.recordRefreshFailure('session_revoked', context, tokenRecord);
+
         return {
           success: false,
           message: 'Session has been revoked',
@@ -77,6 +169,7 @@ export class AuthService {
 
       if (tokenRecord.expiresAt < new Date()) {
         this.logger.warn(`Refresh token ${payload.tokenId} has expired`);
+        this.recordRefreshFailure('session_expired', context, tokenRecord);
         return {
           success: false,
           message: 'Session has expired',
@@ -88,21 +181,32 @@ export class AuthService {
       const user = tokenRecord.user;
       if (user.status !== 'ACTIVE') {
         this.logger.warn(`User ${user.id} is not active: ${user.status}`);
+        this.recordRefreshFailure('account_not_active', context, tokenRecord);
+        const { reason, message } = getAccountStatusReason(user);
         return {
           success: false,
-          message: 'User account is not active',
+          message,
+          reason,
           redirectTo: '/login',
         } as RefreshFailureResponseDto;
       }
 
       // Generate new access token
-      const accessToken = this.tokenService.generateAccessToken(user);
+      const accessToken = this.tokenService.generateAccessToken(
+        user,
+        tokenRecord.sessionId,
+        {
+          roles: await this.roleService.getRolesClaim(user),
+          organizationId: await this.getSessionOrganizationId(tokenRecord),
+        },
+      );
       const expiresIn = this.tokenService.getAccessTokenExpiryInSeconds();
 
       // Check if refresh token should be rotated
-      const shouldRotate = await this.tokenService.shouldRotateRefreshToken(
-        payload.tokenId,
-      );
+      // (a token inside its rotation grace period already has a successor)
+      const shouldRotate =
+        !inRotationGrace &&
+        (await this.tokenService.shouldRotateRefreshToken(payload.tokenId));
 
       let newRefreshToken: string | undefined;
       if (shouldRotate) {
@@ -110,8 +214,11 @@ export class AuthService {
         const rotated = await this.tokenService.rotateRefreshToken(
           payload.tokenId,
           user.id,
+          context,
         );
-        newRefreshToken = rotated.token;
+        newRefreshToken = rotated?.token;
+      } else if (!inRotationGrace) {
+        await this.tokenService.touchRefreshToken(payload.tokenId, context);
       }
 
       const userData: UserDataDto = {
@@ -136,10 +243,20 @@ export class AuthService {
         (response as any).newRefreshToken = newRefreshToken;
       }
 
+      this.authEventService.record({
+        type: AuthEventType.REFRESH_SUCCEEDED,
+        userId: user.id,
+        actorId: user.id,
+        sessionId: tokenRecord.sessionId,
+        context,
+        metadata: { tokenId: tokenRecord.id, rotated: !!newRefreshToken },
+      });
+
       this.logger.log(`Successfully refreshed application for user ${user.id}`);
       return response;
     } catch (error) {
       if (error instanceof UnauthorizedException) {
+        this.recordRefreshFailure('invalid_token', context);
         return {
           success: false,
           message: error.message,
@@ -156,10 +273,118 @@ export class AuthService {
     }
   }
 
+  /**
+   * Record a failed refresh with a machine-readable reason
+   */
+  private recordRefreshFailure(
+    reason: string,
+    context: SessionContext,
+    tokenRecord?: RefreshToken | null,
+  ): void {
+    this.authEventService.record({
+      type: AuthEventType.REFRESH_FAILED,
+      userId: tokenRecord?.userId,
+      sessionId: tokenRecord?.sessionId,
+      context,
+      metadata: { reason, ...(tokenRecord && { tokenId: tokenRecord.id }) },
+    });
+  }
+
+  /**
+   * Whether a revoked refresh token was rotated recently enough to still be accepted.
+   * Rotated tokens keep their ROTATED reason when their session is later revoked,
+   * so the grace also requires another token of the session to still be usable.
+   */
+  private async isWithinRotationGrace(
+    tokenRecord: RefreshToken,
+  ): Promise<boolean> {
+    if (
+      tokenRecord.revokedReason !== RefreshTokenRevokedReason.ROTATED ||
+      !tokenRecord.revokedAt
+    ) {
+      return false;
+    }
+
+    const secondsSinceRotation =
+      (Date.now() - tokenRecord.revokedAt.getTime()) / 1000;
+
+    if (secondsSinceRotation > this.tokenService.getRotationGraceSeconds()) {
+      return false;
+    }
+
+    const liveTokens = await this.prisma.refreshToken.count({
+      where: {
+        userId: tokenRecord.userId,
+        sessionId: tokenRecord.sessionId,
+        revoked: false,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    return liveTokens > 0;
+  }
+
+  /**
+   * Active organization of a session, dropped once the user is no longer a member
+   */
+  private async getSessionOrganizationId(
+    tokenRecord: RefreshToken,
+  ): Promise<string | undefined> {
+    if (!tokenRecord.organizationId) {
+      return undefined;
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: tokenRecord.organizationId,
+          userId: tokenRecord.userId,
+        },
+      },
+    });
+
+    return membership ? tokenRecord.organizationId : undefined;
+  }
+
+  /**
+   * A rotated refresh token was presented again: assume it was stolen,
+   * revoke the whole token family and record a security event
+   */
+  private async handleRefreshTokenReuse(
+    tokenRecord: RefreshToken,
+    context: SessionContext,
+  ): Promise<void> {
+    this.logger.warn(
+      `Reuse of rotated refresh token ${tokenRecord.id} detected, revoking session ${tokenRecord.sessionId}`,
+    );
+
+    const revokedCount = await this.tokenService.revokeSession(
+      tokenRecord.userId,
+      tokenRecord.sessionId,
+      RefreshTokenRevokedReason.REUSE_DETECTED,
+      { context },
+    );
+
+    this.authEventService.record({
+      type: AuthEventType.REFRESH_TOKEN_REUSE,
+      userId: tokenRecord.userId,
+      sessionId: tokenRecord.sessionId,
+      context,
+      metadata: {
+        tokenId: tokenRecord.id,
+        rotatedAt: tokenRecord.revokedAt?.toISOString() ?? null,
+        revokedTokens: revokedCount,
+      },
+    });
+  }
+
   /**
    * Signup - Create or resume signup attempt
    */
-  async signup(signupDto: SignupDto): Promise<SignupResponseDto> {
+  async signup(
+    signupDto: SignupDto,
+    context: SessionContext = {},
+  ): Promise<SignupResponseDto> {
     const { email, firstName, lastName, password } = signupDto;
 
     try {
@@ -179,10 +404,36 @@ export class AuthService {
         await this.signupAttemptService.findInProgressAttempt(email);
 
       if (existingAttempt) {
+        // Only whoever chose the attempt's password may resume it; anyone
+        // else gets no token, so knowing the email is not enough
+        const passwordMatches =
+          existingAttempt.passwordHash !== null &&
+          (await this.signupAttemptService.verifyPassword(
+            password,
+            existingAttempt.passwordHash,
+          ));
+        if (!passwordMatches) {
+          this.logger.warn(
+            `Signup resume for ${email} rejected: password does not match attempt ${existingAttempt.id}`,
+          );
+          return {
+            success: true,
+            message: 'Continue signing up with the password you chose',
+          } as SignupPendingResponseDto;
+        }
+
         // Resume existing attempt
         this.logger.log(`Resuming signup attempt for ${email}`);
         const resumedAttempt =
           await this.signupAttemptService.resumeSignupAttempt(existingAttempt);
+        this.authEventService.record({
+          type: AuthEventType.SIGNUP_RESUMED,
+          context,
+          metadata: {
+            attemptId: resumedAttempt.id,
+            email: resumedAttempt.email,
+          },
+        });
 
         const signupToken = this.tokenService.generateSignupToken(
           resumedAttempt.id,
@@ -208,6 +459,7 @@ export class AuthService {
         lastName,
         password,
       );
+      this.recordSignupCreated(attempt, context);
 
       const signupToken = this.tokenService.generateSignupToken(
         attempt.id,
@@ -215,6 +467,16 @@ export class AuthService {
         attempt.currentStep,
       );
 
+      // A delivery failure must not fail signup; the client can resend
+      try {
+        await this.sendEmailVerificationCode(attempt);
+      } catch (error) {
+        this.logger.error(
+          `Failed to send verification email for attempt ${attempt.id}`,
+          error,
+        );
+      }
+
       return {
         success: true,
         signupToken,
@@ -239,6 +501,1378 @@ export class AuthService {
     }
   }
 
+  /**
+   * Login - Check email/password and start a session (or issue an MFA challenge)
+   */
+  async login(
+    loginDto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<
+    IssuedSession | MfaChallengeResponseDto | LoginFailureResponseDto
+  > {
+    const { email, password, reactivate } = loginDto;
+
+    const invalidCredentials: LoginFailureResponseDto = {
+      success: false,
+      message: 'Invalid email or password',
+      statusCode: 401,
+      reason: 'INVALID_CREDENTIALS',
+    };
+
+    try {
+      let user = await this.prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+
+      // Compare against a dummy hash for unknown emails so response timing
+      // does not reveal whether the account exists
+      const passwordValid = await this.signupAttemptService.verifyPassword(
+        password,
+        user?.passwordHash ?? (await this.getDummyPasswordHash()),
+      );
+
+      // A locked account answers like wrong credentials, since a distinct
+      // response would only ever be seen for emails that have an account
+      if (
+        user &&
+        this.accountLockoutService.getLockRemainingSeconds(user) > 0
+      ) {
+        this.logger.warn(`Login rejected: user ${user.id} is locked`);
+        this.recordLoginFailure('account_locked', email, context, user);
+        return invalidCredentials;
+      }
+
+      if (!user || !passwordValid) {
+        this.logger.warn('Login failed: invalid credentials');
+        this.recordLoginFailure('invalid_credentials', email, context, user);
+        if (user) {
+          await this.recordCredentialFailure(user, context);
+        }
+        return invalidCredentials;
+      }
+
+      const reactivating =
+        user.status !== 'ACTIVE' &&
+        !!reactivate &&
+        this.accountService.canReactivate(user);
+
+      if (user.status !== 'ACTIVE' && !reactivating) {
+        this.logger.warn(`User ${user.id} is not active: ${user.status}`);
+        this.recordLoginFailure('account_not_active', email, context, user);
+        const { reason, message } = getAccountStatusReason(user);
+        return { success: false, message, statusCode: 403, reason };
+      }
+
+      // Failed MFA codes keep counting until the challenge is passed, and
+      // the account is only reactivated once it is
+      if (user.mfaEnabled) {
+        return this.createMfaChallenge(user, reactivating);
+      }
+
+      if (reactivating) {
+        user = await this.accountService.reactivate(user, {
+          actorId: user.id,
+          context,
+        });
+      }
+
+      await this.accountLockoutService.reset(user);
+
+      this.logger.log(`User ${user.id} logged in`);
+      return await this.createSession(user, context, 'password');
+    } catch (error) {
+      this.logger.error('Error during login', error);
+      return {
+        success: false,
+        message: 'An error occurred during login',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Social Login - Log in with an identity verified by an OAuth/OIDC provider
+   * A linked identity logs in as its user. Otherwise a verified email links
+   * the identity to the user with that email, and without such a user a
+   * signup attempt is started (completed right away if the flow allows).
+   */
+  async socialLogin(
+    identity: ExternalIdentity,
+    context: SessionContext = {},
+  ): Promise<
+    | IssuedSession
+    | MfaChallengeResponseDto
+    | SignupSuccessResponseDto
+    | SignupFailureResponseDto
+    | SocialLoginFailureResponseDto
+  > {
+    const { provider, subject } = identity;
+
+    try {
+      const linkedIdentity = await this.prisma.userIdentity.findUnique({
+        where: { provider_subject: { provider, subject } },
+        include: { user: true },
+      });
+
+      let user: User;
+
+      if (linkedIdentity) {
+        user = linkedIdentity.user;
+        await this.prisma.userIdentity.update({
+          where: { id: linkedIdentity.id },
+          data: { email: identity.email, lastLoginAt: new Date() },
+        });
+      } else {
+        if (!identity.email) {
+          this.logger.warn(`No email shared by ${provider} for ${subject}`);
+          return {
+            success: false,
+            message: 'The login provider did not share an email address',
+            statusCode: 400,
+            reason: 'EMAIL_REQUIRED',
+          };
+        }
+
+        const existingUser = await this.prisma.user.findUnique({
+          where: { email: identity.email },
+        });
+
+        if (!existingUser) {
+          return await this.startExternalSignup(
+            { ...identity, email: identity.email },
+            context,
+          );
+        }
+
+        user = existingUser;
+
+        // Linking on an unverified email would let anyone claim the account
+        if (!identity.emailVerified) {
+          this.logger.warn(
+            `Not linking unverified ${provider} email to user ${user.id}`,
+          );
+          return {
+            success: false,
+            message:
+              'An account with this email already exists. Log in with your password instead.',
+            statusCode: 409,
+            reason: 'ACCOUNT_EXISTS',
+          };
+        }
+
+        await this.prisma.userIdentity.create({
+          data: {
+            userId: user.id,
+            provider,
+            subject,
+            email: identity.email,
+            lastLoginAt: new Date(),
+          },
+        });
+
+        this.logger.log(`Linked ${provider} identity to user ${user.id}`);
+      }
+
+      if (user.status !== 'ACTIVE') {
+        this.logger.warn(`User ${user.id} is not active: ${user.status}`);
+        const { reason, message } = getAccountStatusReason(user);
+        return { success: false, message, statusCode: 403, reason };
+      }
+
+      if (user.mfaEnabled) {
+        return this.createMfaChallenge(user);
+      }
+
+      this.logger.log(`User ${user.id} logged in with ${provider}`);
+      return await this.createSession(user, context, provider);
+    } catch (error) {
+      this.logger.error('Error during social login', error);
+      return {
+        success: false,
+        message: 'An error occurred during login',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Logout - Revoke the refresh token from the session cookie
+   * Idempotent: missing, invalid, expired or revoked tokens still log out
+   */
+  async logout(
+    refreshToken?: string,
+    context: SessionContext = {},
+  ): Promise<LogoutResponseDto> {
+    if (refreshToken) {
+      try {
+        // An expired token still identifies the session to revoke
+        const payload = this.tokenService.verifyRefreshToken(refreshToken, {
+          ignoreExpiration: true,
+        });
+
+        const tokenRecord = await this.prisma.refreshToken.findUnique({
+          where: { id: payload.tokenId },
+        });
+
+        if (
+          tokenRecord &&
+          this.tokenService.matchesRefreshTokenHash(
+            refreshToken,
+            tokenRecord.tokenHash,
+          )
+        ) {
+          await this.tokenService.revokeRefreshToken(
+            tokenRecord.id,
+            RefreshTokenRevokedReason.LOGOUT,
+            { actorId: tokenRecord.userId, context },
+          );
+          this.logger.log(`User ${payload.sub} logged out`);
+        }
+      } catch (error) {
+        if (!(error instanceof UnauthorizedException)) {
+          this.logger.error('Error during logout', error);
+        }
+      }
+    }
+
+    return { success: true, message: 'Logged out' };
+  }
+
+  /**
+   * Logout All - Revoke every refresh token of the user
+   */
+  async logoutAll(
+    user: User,
+    context: SessionContext = {},
+  ): Promise<LogoutResponseDto> {
+    await this.tokenService.revokeAllUserRefreshTokens(
+      user.id,
+      RefreshTokenRevokedReason.LOGOUT_ALL,
+      { actorId: user.id, context },
+    );
+
+    this.logger.log(`User ${user.id} logged out of all sessions`);
+
+    return { success: true, message: 'Logged out of all sessions' };
+  }
+
+  /**
+   * Forgot Password - Email a reset link if an active account exists
+   * The outcome is never revealed, so the email is sent in the background
+   */
+  forgotPassword(
+    forgotPasswordDto: ForgotPasswordDto,
+  ): PasswordResetSuccessResponseDto {
+    void this.sendPasswordResetEmail(forgotPasswordDto.email.toLowerCase());
+
+    return {
+      success: true,
+      message:
+        'If an account exists for this email, a password reset link has been sent',
+    };
+  }
+
+  /**
+   * Reset Password - Set a new password with a reset token and end all sessions
+   */
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+    context: SessionContext = {},
+  ): Promise<PasswordResetResponseDto> {
+    const { token, password } = resetPasswordDto;
+
+    try {
+      const passwordHash =
+        await this.signupAttemptService.hashPassword(password);
+
+      const user = await this.prisma.$transaction(async (tx) => {
+        const userId = await this.passwordResetService.consumeToken(token, tx);
+        if (!userId) {
+          return null;
+        }
+
+        return tx.user.update({
+          where: { id: userId },
+          data: { passwordHash, failedLoginAttempts: 0, lockedUntil: null },
+        });
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          message: 'Invalid or expired password reset token',
+          statusCode: 400,
+        };
+      }
+
+      await this.tokenService.revokeAllUserRefreshTokens(
+        user.id,
+        RefreshTokenRevokedReason.PASSWORD_RESET,
+        { actorId: user.id, context },
+      );
+
+      this.logger.log(`Password reset for user ${user.id}`);
+
+      try {
+        await this.mailService.send({
+          to: user.email,
+          subject: 'Your password was changed',
+          text:
+            'The password for your account was just reset and all sessions were signed out.\n\n' +
+            'If you did not do this, contact support immediately.',
+        });
+      } catch (error) {
+        this.logger.error('Failed to send password change notice', error);
+      }
+
+      return {
+        success: true,
+        message: 'Password has been reset. Please log in again.',
+      };
+    } catch (error) {
+      this.logger.error('Error resetting password', error);
+      return {
+        success: false,
+        message: 'An error occurred while resetting the password',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Verify Email - Complete the email verification step with a one-time code
+   */
+  async verifyEmail(
+    attempt: SignupAttempt,
+    code: string,
+  ): Promise<VerifyCodeResponseDto> {
+    if (attempt.emailVerified) {
+      return {
+        success: false,
+        message: 'Email has already been verified',
+        statusCode: 409,
+      } as VerificationFailureResponseDto;
+    }
+
+    const violation = this.checkSignupStep(
+      attempt,
+      SignupStep.EMAIL_VERIFICATION,
+    );
+    if (violation) {
+      return violation;
+    }
+
+    try {
+      const result = await this.verificationCodeService.verifyCode(
+        attempt.id,
+        VerificationChannel.EMAIL,
+        code,
+      );
+
+      if (!result.valid) {
+        this.logger.warn(
+          `Email verification failed for attempt ${attempt.id}: ${result.reason}`,
+        );
+        return this.createVerificationFailure(result);
+      }
+
+      const verifiedAttempt = await this.signupAttemptService.markEmailVerified(
+        attempt.id,
+      );
+      const updatedAttempt = await this.signupAttemptService.advanceSignupStep(
+        verifiedAttempt,
+        SignupStep.EMAIL_VERIFICATION,
+      );
+
+      this.logger.log(`Email verified for signup attempt ${attempt.id}`);
+
+      return this.createSignupStepResponse(updatedAttempt);
+    } catch (error) {
+      this.logger.error('Error verifying email', error);
+      return {
+        success: false,
+        message: 'An error occurred during email verification',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Resend Email Code - Issue a new email verification code
+   */
+  async resendEmailCode(
+    attempt: SignupAttempt,
+  ): Promise<ResendCodeResponseDto> {
+    if (attempt.emailVerified) {
+      return {
+        success: false,
+        message: 'Email has already been verified',
+        statusCode: 409,
+      } as VerificationFailureResponseDto;
+    }
+
+    const violation = this.checkSignupStep(
+      attempt,
+      SignupStep.EMAIL_VERIFICATION,
+    );
+    if (violation) {
+      return violation;
+    }
+
+    try {
+      const cooldownFailure = await this.checkResendCooldown(
+        attempt.id,
+        VerificationChannel.EMAIL,
+      );
+      if (cooldownFailure) {
+        return cooldownFailure;
+      }
+
+      return await this.sendEmailVerificationCode(attempt);
+    } catch (error) {
+      this.logger.error('Error resending email verification code', error);
+      return {
+        success: false,
+        message: 'An error occurred while sending the verification code',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Start Phone Verification - Store the phone number and send a code by SMS
+   */
+  async startPhoneVerification(
+    attempt: SignupAttempt,
+    phoneNumber: string,
+  ): Promise<ResendCodeResponseDto> {
+    const precondition = this.checkPhoneStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    try {
+      const cooldownFailure = await this.checkResendCooldown(
+        attempt.id,
+        VerificationChannel.SMS,
+      );
+      if (cooldownFailure) {
+        return cooldownFailure;
+      }
+
+      const updatedAttempt = await this.signupAttemptService.setPhoneNumber(
+        attempt.id,
+        phoneNumber,
+      );
+
+      return await this.sendPhoneVerificationCode(updatedAttempt, phoneNumber);
+    } catch (error) {
+      this.logger.error('Error starting phone verification', error);
+      return {
+        success: false,
+        message: 'An error occurred while sending the verification code',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Verify Phone - Complete the phone verification step with a one-time code
+   */
+  async verifyPhone(
+    attempt: SignupAttempt,
+    code: string,
+  ): Promise<VerifyCodeResponseDto> {
+    const precondition = this.checkPhoneStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    try {
+      const result = await this.verificationCodeService.verifyCode(
+        attempt.id,
+        VerificationChannel.SMS,
+        code,
+      );
+
+      if (!result.valid) {
+        this.logger.warn(
+          `Phone verification failed for attempt ${attempt.id}: ${result.reason}`,
+        );
+        return this.createVerificationFailure(result);
+      }
+
+      const verifiedAttempt = await this.signupAttemptService.markPhoneVerified(
+        attempt.id,
+      );
+      const updatedAttempt = await this.signupAttemptService.advanceSignupStep(
+        verifiedAttempt,
+        SignupStep.PHONE_VERIFICATION,
+      );
+
+      this.logger.log(`Phone verified for signup attempt ${attempt.id}`);
+
+      return this.createSignupStepResponse(updatedAttempt);
+    } catch (error) {
+      this.logger.error('Error verifying phone', error);
+      return {
+        success: false,
+        message: 'An error occurred during phone verification',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Resend Phone Code - Issue a new SMS code for the stored phone number
+   */
+  async resendPhoneCode(
+    attempt: SignupAttempt,
+  ): Promise<ResendCodeResponseDto> {
+    const precondition = this.checkPhoneStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    if (!attempt.phoneNumber) {
+      return {
+        success: false,
+        message: 'No phone number has been provided',
+        statusCode: 400,
+      } as VerificationFailureResponseDto;
+    }
+
+    try {
+      const cooldownFailure = await this.checkResendCooldown(
+        attempt.id,
+        VerificationChannel.SMS,
+      );
+      if (cooldownFailure) {
+        return cooldownFailure;
+      }
+
+      return await this.sendPhoneVerificationCode(attempt, attempt.phoneNumber);
+    } catch (error) {
+      this.logger.error('Error resending phone verification code', error);
+      return {
+        success: false,
+        message: 'An error occurred while sending the verification code',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Skip Phone Verification - Only allowed when the step is optional
+   */
+  async skipPhoneVerification(
+    attempt: SignupAttempt,
+  ): Promise<VerifyCodeResponseDto> {
+    if (
+      !this.signupAttemptService.isStepSkippable(
+        attempt,
+        SignupStep.PHONE_VERIFICATION,
+      )
+    ) {
+      return {
+        success: false,
+        message: 'Phone verification cannot be skipped',
+        statusCode: 400,
+      } as VerificationFailureResponseDto;
+    }
+
+    const precondition = this.checkPhoneStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    try {
+      const updatedAttempt = await this.signupAttemptService.skipSignupStep(
+        attempt,
+        SignupStep.PHONE_VERIFICATION,
+      );
+
+      return this.createSignupStepResponse(updatedAttempt);
+    } catch (error) {
+      this.logger.error('Error skipping phone verification', error);
+      return {
+        success: false,
+        message: 'An error occurred while skipping phone verification',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Setup MFA - Generate a TOTP secret for the attempt to enroll
+   */
+  async setupMfa(
+    attempt: SignupAttempt,
+  ): Promise<MfaSetupResponseDto | VerificationFailureResponseDto> {
+    const precondition = this.checkMfaStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    try {
+      const enrollment = await this.mfaService.createEnrollmentSecret(
+        attempt.email,
+      );
+      await this.signupAttemptService.setMfaSecret(
+        attempt.id,
+        enrollment.encryptedSecret,
+      );
+
+      this.logger.log(`Started MFA setup for signup attempt ${attempt.id}`);
+
+      return {
+        success: true,
+        secret: enrollment.secret,
+        otpauthUri: enrollment.otpauthUri,
+        qrCodeDataUrl: enrollment.qrCodeDataUrl,
+      };
+    } catch (error) {
+      this.logger.error('Error setting up MFA', error);
+      return {
+        success: false,
+        message: 'An error occurred during MFA setup',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Confirm MFA - Check the first TOTP code and issue backup codes
+   */
+  async confirmMfa(
+    attempt: SignupAttempt,
+    code: string,
+  ): Promise<MfaEnrollmentResponseDto | VerificationFailureResponseDto> {
+    const precondition = this.checkMfaStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    if (!attempt.mfaSecret) {
+      return {
+        success: false,
+        message: 'MFA setup has not been started',
+        statusCode: 400,
+      };
+    }
+
+    try {
+      if (!(await this.mfaService.verifyAttemptTotp(attempt, code))) {
+        this.logger.warn(`Invalid MFA code for signup attempt ${attempt.id}`);
+        return {
+          success: false,
+          message: 'Invalid authenticator code',
+          statusCode: 400,
+        };
+      }
+
+      const { codes, hashes } = this.mfaService.generateBackupCodes();
+      const enrolledAttempt = await this.signupAttemptService.markMfaEnrolled(
+        attempt.id,
+        hashes,
+      );
+      const updatedAttempt = await this.signupAttemptService.advanceSignupStep(
+        enrolledAttempt,
+        SignupStep.MFA_SETUP,
+      );
+
+      return {
+        ...this.createSignupStepResponse(updatedAttempt),
+        backupCodes: codes,
+      };
+    } catch (error) {
+      this.logger.error('Error confirming MFA', error);
+      return {
+        success: false,
+        message: 'An error occurred during MFA setup',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Skip MFA - Only allowed when the step is optional
+   */
+  async skipMfa(attempt: SignupAttempt): Promise<VerifyCodeResponseDto> {
+    if (
+      !this.signupAttemptService.isStepSkippable(attempt, SignupStep.MFA_SETUP)
+    ) {
+      return {
+        success: false,
+        message: 'MFA setup cannot be skipped',
+        statusCode: 400,
+      } as VerificationFailureResponseDto;
+    }
+
+    const precondition = this.checkMfaStepAvailable(attempt);
+    if (precondition) {
+      return precondition;
+    }
+
+    try {
+      const updatedAttempt = await this.signupAttemptService.skipSignupStep(
+        attempt,
+        SignupStep.MFA_SETUP,
+      );
+
+      return this.createSignupStepResponse(updatedAttempt);
+    } catch (error) {
+      this.logger.error('Error skipping MFA setup', error);
+      return {
+        success: false,
+        message: 'An error occurred while skipping MFA setup',
+        statusCode: 500,
+      } as VerificationFailureResponseDto;
+    }
+  }
+
+  /**
+   * Set Profile - Provide the name a social login signup attempt is missing
+   * Password signups give their name upfront, so only social attempts
+   * without one may set it here
+   */
+  async setSignupProfile(
+    attempt: SignupAttempt,
+    profileDto: SignupProfileDto,
+  ): Promise<SignupResponseDto> {
+    if (!attempt.oauthProvider) {
+      return {
+        success: false,
+        message: 'Profile details can only be set for social login signups',
+        statusCode: 400,
+      };
+    }
+
+    if (attempt.firstName && attempt.lastName) {
+      return {
+        success: false,
+        message: 'Profile details have already been provided',
+        statusCode: 409,
+      };
+    }
+
+    try {
+      const updatedAttempt = await this.signupAttemptService.setProfileDetails(
+        attempt.id,
+        profileDto.firstName,
+        profileDto.lastName,
+      );
+
+      return this.createSignupStepResponse(updatedAttempt);
+    } catch (error) {
+      this.logger.error('Error setting signup profile', error);
+      return {
+        success: false,
+        message: 'An error occurred while saving profile details',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Complete Signup - Convert the signup attempt into a user and start a session
+   */
+  async completeSignup(
+    attempt: SignupAttempt,
+    context: SessionContext = {},
+  ): Promise<IssuedSession | SignupFailureResponseDto> {
+    const missingSteps =
+      this.signupAttemptService.getMissingRequiredSteps(attempt);
+
+    if (missingSteps.length > 0) {
+      this.logger.warn(
+        `Signup attempt ${attempt.id} is missing steps: ${missingSteps.join(', ')}`,
+      );
+      return {
+        success: false,
+        message: 'Required signup steps have not been completed',
+        statusCode: 400,
+        missingSteps,
+      };
+    }
+
+    if (!attempt.firstName || !attempt.lastName || !attempt.passwordHash) {
+      return {
+        success: false,
+        message: 'Signup attempt is missing profile details',
+        statusCode: 400,
+      };
+    }
+
+    const { firstName, lastName, passwordHash } = attempt;
+
+    try {
+      const user = await this.prisma.$transaction(async (tx) => {
+        const createdUser = await tx.user.create({
+          data: {
+            email: attempt.email,
+            firstName,
+            lastName,
+            passwordHash,
+            emailVerified: attempt.emailVerified,
+          },
+        });
+
+        await this.mfaService.transferEnrollment(attempt, createdUser.id, tx);
+
+        if (attempt.oauthProvider && attempt.oauthSubject) {
+          await tx.userIdentity.create({
+            data: {
+              userId: createdUser.id,
+              provider: attempt.oauthProvider,
+              subject: attempt.oauthSubject,
+              email: attempt.email,
+              lastLoginAt: new Date(),
+            },
+          });
+        }
+        await this.signupAttemptService.completeSignupAttempt(attempt.id, tx);
+
+        return tx.user.findUniqueOrThrow({ where: { id: createdUser.id } });
+      });
+
+      this.logger.log(
+        `Completed signup attempt ${attempt.id} as user ${user.id}`,
+      );
+
+      return await this.createSession(user, context, 'signup');
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.warn(`User already exists for ${attempt.email}`);
+        return {
+          success: false,
+          message: 'An account with this email already exists',
+          statusCode: 409,
+        };
+      }
+
+      this.logger.error('Error completing signup', error);
+      return {
+        success: false,
+        message: 'An error occurred while completing signup',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Create the intermediate challenge returned instead of a session for MFA users
+   */
+  createMfaChallenge(user: User, reactivate = false): MfaChallengeResponseDto {
+    this.logger.log(`MFA challenge issued for user ${user.id}`);
+
+    return {
+      success: true,
+      mfaRequired: true,
+      mfaToken: this.tokenService.generateMfaChallengeToken(
+        user.id,
+        reactivate,
+      ),
+      expiresIn: this.tokenService.getMfaChallengeExpiryInSeconds(),
+    };
+  }
+
+  /**
+   * Verify MFA Challenge - Exchange a challenge token and TOTP/backup code for a session
+   */
+  async verifyMfaChallenge(
+    mfaToken: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<IssuedSession | MfaFailureResponseDto> {
+    try {
+      const payload = this.tokenService.verifyMfaChallengeToken(mfaToken);
+
+      let user = await this.prisma.user.findUnique({
+        where: { id: payload.sub },
+      });
+
+      if (!user || !user.mfaEnabled || !user.mfaSecret) {
+        this.logger.warn(`MFA challenge for unknown user ${payload.sub}`);
+        return {
+          success: false,
+          message: 'Invalid or expired MFA challenge',
+          statusCode: 401,
+        };
+      }
+
+      // Reactivation requested at login waits for the second factor
+      const reactivating =
+        user.status !== 'ACTIVE' &&
+        !!payload.reactivate &&
+        this.accountService.canReactivate(user);
+
+      if (user.status !== 'ACTIVE' && !reactivating) {
+        this.logger.warn(`User ${user.id} is not active: ${user.status}`);
+        const { reason, message } = getAccountStatusReason(user);
+        return { success: false, message, statusCode: 403, reason };
+      }
+
+      const lockedFor =
+        this.accountLockoutService.getLockRemainingSeconds(user);
+      if (lockedFor > 0) {
+        this.logger.warn(`MFA challenge rejected: user ${user.id} is locked`);
+        return this.createAccountLockedFailure(lockedFor);
+      }
+
+      const isValid = /^\d{6}$/.test(code)
+        ? await this.mfaService.verifyUserTotp(user, code)
+        : await this.mfaService.consumeBackupCode(user.id, code);
+
+      if (!isValid) {
+        this.logger.warn(`Invalid MFA code for user ${user.id}`);
+        const lockSeconds = await this.recordCredentialFailure(user, context);
+        if (lockSeconds > 0) {
+          return this.createAccountLockedFailure(lockSeconds);
+        }
+        return {
+          success: false,
+          message: 'Invalid authentication code',
+          statusCode: 401,
+        };
+      }
+
+      await this.accountLockoutService.reset(user);
+
+      if (reactivating) {
+        user = await this.accountService.reactivate(user, {
+          actorId: user.id,
+          context,
+        });
+      }
+
+      return await this.createSession(user, context, 'mfa');
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return {
+          success: false,
+          message: error.message,
+          statusCode: 401,
+        };
+      }
+
+      this.logger.error('Error verifying MFA challenge', error);
+      return {
+        success: false,
+        message: 'An error occurred',
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Start a session: store a refresh token and issue an access token
+   */
+  private async createSession(
+    user: User,
+    context: SessionContext,
+    method: string,
+  ): Promise<IssuedSession> {
+    const { token, sessionId } = await this.tokenService.generateRefreshToken(
+      user.id,
+      context,
+    );
+
+    this.logger.log(`Started session for user ${user.id}`);
+    this.authEventService.record({
+      type: AuthEventType.LOGIN_SUCCEEDED,
+      userId: user.id,
+      actorId: user.id,
+      sessionId,
+      context,
+      metadata: { method },
+    });
+
+    return {
+      success: true,
+      refreshToken: token,
+      response: {
+        success: true,
+        accessToken: this.tokenService.generateAccessToken(user, sessionId, {
+          roles: await this.roleService.getRolesClaim(user),
+        }),
+        user: this.createUserData(user),
+        expiresIn: this.tokenService.getAccessTokenExpiryInSeconds(),
+      },
+    };
+  }
+
+  /**
+   * Start a signup attempt for an external identity without a user, and
+   * complete it at once when no required step or profile detail is missing
+   */
+  private async startExternalSignup(
+    identity: ExternalIdentity & { email: string },
+    context: SessionContext,
+  ): Promise<
+    IssuedSession | SignupSuccessResponseDto | SignupFailureResponseDto
+  > {
+    const attempt =
+      await this.signupAttemptService.createExternalSignupAttempt(identity);
+    this.recordSignupCreated(attempt, context);
+
+    if (
+      this.signupAttemptService.getMissingRequiredSteps(attempt).length === 0 &&
+      attempt.firstName &&
+      attempt.lastName
+    ) {
+      return this.completeSignup(attempt, context);
+    }
+
+    if (!attempt.emailVerified) {
+      try {
+        await this.sendEmailVerificationCode(attempt);
+      } catch (error) {
+        this.logger.error(
+          `Failed to send verification email for attempt ${attempt.id}`,
+          error,
+        );
+      }
+    }
+
+    return this.createSignupStepResponse(attempt);
+  }
+
+  /**
+   * Issue a password reset token and email the reset link (errors are only logged)
+   */
+  private async sendPasswordResetEmail(email: string): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({ where: { email } });
+
+      if (!user || user.status !== 'ACTIVE') {
+        this.logger.log(
+          'Password reset requested for unknown or inactive account',
+        );
+        return;
+      }
+
+      const { token, expiresAt } = await this.passwordResetService.issueToken(
+        user.id,
+      );
+
+      const ttlMinutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+
+      await this.mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text:
+          `Reset your password using this link:\n\n${this.passwordResetService.buildResetUrl(token)}\n\n` +
+          `It expires in ${ttlMinutes} minutes. If you did not request it, you can ignore this email.`,
+      });
+    } catch (error) {
+      this.logger.error('Failed to send password reset email', error);
+    }
+  }
+
+  /**
+   * Count a failed password or MFA check and record a security event if it locked the account
+   */
+  private async recordCredentialFailure(
+    user: User,
+    context: SessionContext,
+  ): Promise<number> {
+    const lockSeconds = await this.accountLockoutService.recordFailure(user);
+
+    if (lockSeconds > 0) {
+      this.authEventService.record({
+        type: AuthEventType.ACCOUNT_LOCKED,
+        userId: user.id,
+        context,
+        metadata: { lockSeconds },
+      });
+    }
+
+    return lockSeconds;
+  }
+
+  private recordSignupCreated(
+    attempt: SignupAttempt,
+    context: SessionContext,
+  ): void {
+    this.authEventService.record({
+      type: AuthEventType.SIGNUP_CREATED,
+      context,
+      metadata: {
+        attemptId: attempt.id,
+        email: attempt.email,
+        ...(attempt.oauthProvider && { provider: attempt.oauthProvider }),
+      },
+    });
+  }
+
+  private recordLoginFailure(
+    reason: string,
+    email: string,
+    context: SessionContext,
+    user?: User | null,
+  ): void {
+    this.authEventService.record({
+      type: AuthEventType.LOGIN_FAILED,
+      userId: user?.id,
+      context,
+      metadata: { reason, email: email.toLowerCase() },
+    });
+  }
+
+  private createAccountLockedFailure(
+    retryAfter: number,
+  ): LoginFailureResponseDto {
+    return {
+      success: false,
+      message: 'Too many failed attempts. Please try again later.',
+      statusCode: 429,
+      reason: 'ACCOUNT_LOCKED',
+      retryAfter,
+    };
+  }
+
+  /**
+   * Hash compared against when the login email is unknown (computed once)
+   */
+  private getDummyPasswordHash(): Promise<string> {
+    if (!this.dummyPasswordHash) {
+      this.dummyPasswordHash = this.signupAttemptService.hashPassword(
+        crypto.randomUUID(),
+      );
+    }
+    return this.dummyPasswordHash;
+  }
+
+  /**
+   * Reject MFA step requests when the flow does not allow the step now or it is already done
+   */
+  private checkMfaStepAvailable(
+    attempt: SignupAttempt,
+  ): VerificationFailureResponseDto | null {
+    if (attempt.mfaEnabled) {
+      return {
+        success: false,
+        message: 'MFA has already been enabled',
+        statusCode: 409,
+      };
+    }
+
+    return this.checkSignupStep(attempt, SignupStep.MFA_SETUP);
+  }
+
+  /**
+   * Reject requests for a step the attempt's signup flow does not allow now
+   */
+  private checkSignupStep(
+    attempt: SignupAttempt,
+    step: SignupStepName,
+  ): VerificationFailureResponseDto | null {
+    const violation = this.signupAttemptService.checkStepTransition(
+      attempt,
+      step,
+    );
+
+    if (violation) {
+      this.logger.warn(
+        `Signup attempt ${attempt.id} cannot work on ${step}: ${violation.message}`,
+      );
+      return { success: false, ...violation };
+    }
+
+    return null;
+  }
+
+  /**
+   * Issue an email verification code and deliver it
+   */
+  private async sendEmailVerificationCode(
+    attempt: SignupAttempt,
+  ): Promise<CodeSentResponseDto> {
+    const { code, expiresAt } = await this.verificationCodeService.issueCode(
+      attempt.id,
+      VerificationChannel.EMAIL,
+      attempt.email,
+    );
+
+    const ttlMinutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+
+    await this.mailService.send({
+      to: attempt.email,
+      subject: 'Your verification code',
+      text:
+        `Your verification code is ${code}.\n\n` +
+        `It expires in ${ttlMinutes} minutes. If you did not request it, you can ignore this email.`,
+    });
+
+    return {
+      success: true,
+      message: 'Verification code sent',
+      expiresAt,
+      resendAvailableIn:
+        await this.verificationCodeService.getResendCooldownRemaining(
+          attempt.id,
+          VerificationChannel.EMAIL,
+        ),
+    };
+  }
+
+  /**
+   * Issue an SMS verification code and deliver it, enforcing the per-number send limit
+   */
+  private async sendPhoneVerificationCode(
+    attempt: SignupAttempt,
+    phoneNumber: string,
+  ): Promise<ResendCodeResponseDto> {
+    const windowMinutes = parseInt(
+      this.configService.get<string>('SMS_SEND_WINDOW_MINUTES', '60'),
+      10,
+    );
+    const maxSends = parseInt(
+      this.configService.get<string>('SMS_MAX_SENDS_PER_NUMBER', '5'),
+      10,
+    );
+
+    const sentCount = await this.verificationCodeService.countCodesSentToTarget(
+      VerificationChannel.SMS,
+      phoneNumber,
+      new Date(Date.now() - windowMinutes * 60 * 1000),
+    );
+
+    if (sentCount >= maxSends) {
+      this.logger.warn(`SMS send limit reached for ${phoneNumber}`);
+      return {
+        success: false,
+        message: 'Too many codes sent to this phone number. Try again later',
+        statusCode: 429,
+        retryAfter: windowMinutes * 60,
+      } as VerificationFailureResponseDto;
+    }
+
+    const { code, expiresAt } = await this.verificationCodeService.issueCode(
+      attempt.id,
+      VerificationChannel.SMS,
+      phoneNumber,
+    );
+
+    await this.smsService.send({
+      to: phoneNumber,
+      body: `Your Vritti verification code is ${code}`,
+    });
+
+    return {
+      success: true,
+      message: 'Verification code sent',
+      expiresAt,
+      resendAvailableIn:
+        await this.verificationCodeService.getResendCooldownRemaining(
+          attempt.id,
+          VerificationChannel.SMS,
+        ),
+    };
+  }
+
+  /**
+   * Reject phone step requests when the flow does not allow the step now or it is already done
+   */
+  private checkPhoneStepAvailable(
+    attempt: SignupAttempt,
+  ): VerificationFailureResponseDto | null {
+    if (attempt.phoneVerified) {
+      return {
+        success: false,
+        message: 'Phone number has already been verified',
+        statusCode: 409,
+      };
+    }
+
+    return this.checkSignupStep(attempt, SignupStep.PHONE_VERIFICATION);
+  }
+
+  /**
+   * Reject resend requests made within the cooldown period
+   */
+  private async checkResendCooldown(
+    attemptId: string,
+    channel: VerificationChannel,
+  ): Promise<VerificationFailureResponseDto | null> {
+    const retryAfter =
+      await this.verificationCodeService.getResendCooldownRemaining(
+        attemptId,
+        channel,
+      );
+
+    if (retryAfter > 0) {
+      return {
+        success: false,
+        message: 'Please wait before requesting a new code',
+        statusCode: 429,
+        retryAfter,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Map a failed code check to a failure response
+   */
+  private createVerificationFailure(
+    result: Exclude<VerificationResult, { valid: true }>,
+  ): VerificationFailureResponseDto {
+    switch (result.reason) {
+      case 'too_many_attempts':
+        return {
+          success: false,
+          message: 'Too many incorrect attempts. Please request a new code',
+          statusCode: 429,
+        };
+      case 'expired':
+        return {
+          success: false,
+          message: 'Verification code has expired',
+          statusCode: 400,
+        };
+      case 'invalid':
+        return {
+          success: false,
+          message: 'Invalid verification code',
+          statusCode: 400,
+          remainingAttempts: result.remainingAttempts,
+        };
+      default:
+        return {
+          success: false,
+          message: 'No active verification code. Please request a new one',
+          statusCode: 400,
+        };
+    }
+  }
+
+  /**
+   * Build the signup response for the attempt's current step with a fresh token
+   */
+  private createSignupStepResponse(
+    attempt: SignupAttempt,
+  ): SignupSuccessResponseDto {
+    const signupToken = this.tokenService.generateSignupToken(
+      attempt.id,
+      attempt.email,
+      attempt.currentStep,
+    );
+
+    return {
+      success: true,
+      signupToken,
+      nextStep: attempt.currentStep,
+      attemptId: attempt.id,
+      completedSteps: attempt.completedSteps,
+    };
+  }
+
   /**
    * Helper method to create user data DTO
    */
@@ -0,0 +1,45 @@
+import { User, UserStatus } from '@prisma/client';
+
+export interface AccountStatusReason {
+  reason: string; // machine-readable
+  message: string;
+}
+
+/**
+ * Why a non-active account cannot authenticate
+ */
+export const ACCOUNT_STATUS_REASONS: Record<
+  Exclude<UserStatus, 'ACTIVE'>,
+  AccountStatusReason
+> = {
+  INACTIVE: {
+    reason: 'ACCOUNT_INACTIVE',
+    message: 'This account has been deactivated',
+  },
+  SUSPENDED: {
+    reason: 'ACCOUNT_SUSPENDED',
+    message: 'This account has been suspended',
+  },
+  DELETED: {
+    reason: 'ACCOUNT_DELETED',
+    message: 'This account has been deleted',
+  },
+};
+
+const ACCOUNT_DELETION_PENDING: AccountStatusReason = {
+  reason: 'ACCOUNT_DELETION_PENDING',
+  message: 'This account is scheduled for deletion',
+};
+
+/**
+ * Why a non-active user cannot authenticate; deleted accounts that are not
+ * anonymized yet can still be reactivated and report so
+ */
+export function getAccountStatusReason(
+  user: Pick<User, 'status' | 'anonymizedAt'>,
+): AccountStatusReason {
+  if (user.status === UserStatus.DELETED && !user.anonymizedAt) {
+    return ACCOUNT_DELETION_PENDING;
+  }
+  return ACCOUNT_STATUS_REASONS[user.status as Exclude<UserStatus, 'ACTIVE'>];
+}
@@ -0,0 +1,16 @@
+import { OAuthScope, OAuthScopeName } from './oauth-scopes';
+
+/**
+ * Keys start with this prefix so JwtAuthGuard (and secret scanners) can
+ * tell them apart from access tokens
+ */
+export const API_KEY_PREFIX = 'vn_pat_';
+
+/**
+ * Scopes an API key can hold; like delegated tokens, keys only reach routes
+ * declaring them via @RequireScopes() (offline_access only applies to OAuth clients)
+ */
+export const API_KEY_SCOPES: OAuthScopeName[] = [
+  OAuthScope.PROFILE,
+  OAuthScope.SESSIONS,
+];
@@ -0,0 +1,37 @@
+/**
+ * How the external identity is read after the code exchange:
+ * - oidc: from the verified id_token (and the userinfo endpoint for missing claims)
+ * - oauth2: from the userinfo endpoint only
+ */
+export type OAuthProviderType = 'oidc' | 'oauth2';
+
+export interface OAuthProviderPreset {
+  type: OAuthProviderType;
+  issuer?: string; // oidc: endpoints are discovered from the issuer
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+  emailsUrl?: string; // GitHub-style list of { email, primary, verified }
+  scopes: string[];
+}
+
+/**
+ * Endpoints of well-known providers, selected by name in OAUTH_PROVIDERS.
+ * Any other name is a generic provider configured entirely from
+ * OAUTH_<NAME>_* variables (e.g. a local mock IdP via OAUTH_<NAME>_ISSUER).
+ */
+export const OAUTH_PROVIDER_PRESETS: Record<string, OAuthProviderPreset> = {
+  google: {
+    type: 'oidc',
+    issuer: 'https://accounts.google.com',
+    scopes: ['openid', 'email', 'profile'],
+  },
+  github: {
+    type: 'oauth2',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    emailsUrl: 'https://api.github.com/user/emails',
+    scopes: ['read:user', 'user:email'],
+  },
+};
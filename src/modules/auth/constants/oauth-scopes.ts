@@ -0,0 +1,18 @@
+/**
+ * Scopes OAuth clients can request, with the description shown on the
+ * consent screen. First-party session tokens carry no scope and are not
+ * limited by them.
+ */
+export const OAuthScope = {
+  PROFILE: 'profile',
+  SESSIONS: 'sessions',
+  OFFLINE_ACCESS: 'offline_access', // issues a refresh token
+} as const;
+
+export type OAuthScopeName = (typeof OAuthScope)[keyof typeof OAuthScope];
+
+export const OAUTH_SCOPE_DESCRIPTIONS: Record<OAuthScopeName, string> = {
+  profile: 'View your name and email address',
+  sessions: 'View and sign out your active sessions',
+  offline_access: 'Stay signed in while you are not using the app',
+};
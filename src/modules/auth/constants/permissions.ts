@@ -0,0 +1,22 @@
+/**
+ * Permissions checked by @RequirePermissions(). Roles are data (roles
+ * table); permissions are defined here and seeded by migration, so a
+ * permission only exists if some route checks it.
+ */
+export const Permission = {
+  ROLES_MANAGE: 'roles:manage',
+  JOBS_MANAGE: 'jobs:manage',
+  OAUTH_CLIENTS_MANAGE: 'oauth_clients:manage',
+  AUDIT_READ: 'audit:read',
+  USERS_MANAGE: 'users:manage',
+} as const;
+
+export type PermissionName = (typeof Permission)[keyof typeof Permission];
+
+/**
+ * Roles created by migration. The admin role holds every permission and is
+ * implicitly held by users listed in ADMIN_EMAILS (bootstrap).
+ */
+export const SystemRole = {
+  ADMIN: 'admin',
+} as const;
@@ -0,0 +1,22 @@
+/**
+ * Why a refresh token was revoked (RefreshToken.revokedReason)
+ */
+export const RefreshTokenRevokedReason = {
+  ROTATED: 'rotated',
+  LOGOUT: 'logout',
+  LOGOUT_ALL: 'logout_all',
+  SESSION_REVOKED: 'session_revoked',
+  REUSE_DETECTED: 'reuse_detected',
+  PASSWORD_RESET: 'password_reset',
+  PASSWORD_CHANGED: 'password_changed', // other sessions signed out by a password change
+  ACCOUNT_DEACTIVATED: 'account_deactivated',
+  ACCOUNT_DELETED: 'account_deleted',
+  ACCOUNT_SUSPENDED: 'account_suspended',
+  FORCED_LOGOUT: 'forced_logout', // signed out by an administrator
+  OAUTH_REVOKED: 'oauth_revoked', // revoked by the client at /oauth/revoke
+  CODE_REUSE: 'code_reuse', // authorization code redeemed twice
+  HASH_MIGRATION: 'hash_migration', // plaintext tokens invalidated when hashing was introduced
+} as const;
+
+export type RefreshTokenRevokedReasonValue =
+  (typeof RefreshTokenRevokedReason)[keyof typeof RefreshTokenRevokedReason];
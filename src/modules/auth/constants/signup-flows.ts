@@ -0,0 +1,80 @@
+import { SignupAttempt } from '@prisma/client';
+import { SignupFlowStepName, SignupStep } from './signup-steps';
+
+/**
+ * Condition the attempt must meet before a step can be worked on
+ */
+export interface SignupStepPrecondition {
+  check: (attempt: SignupAttempt) => boolean;
+  message: string; // returned to the client when the check fails
+}
+
+export interface SignupStepDefinition {
+  step: SignupFlowStepName;
+  required: boolean;
+  preconditions: SignupStepPrecondition[];
+  isComplete: (attempt: SignupAttempt) => boolean; // evidence checked before the step is recorded as completed
+}
+
+/**
+ * Ordered steps a signup attempt goes through before it can be completed.
+ * Routes act on a step through @SignupStepHandler().
+ */
+export interface SignupFlowDefinition {
+  name: string;
+  steps: SignupStepDefinition[];
+}
+
+const emailVerified: SignupStepPrecondition = {
+  check: (attempt) => attempt.emailVerified,
+  message: 'Email address must be verified first',
+};
+
+const emailVerificationStep: SignupStepDefinition = {
+  step: SignupStep.EMAIL_VERIFICATION,
+  required: true,
+  preconditions: [],
+  isComplete: (attempt) => attempt.emailVerified,
+};
+
+const phoneVerificationStep = (required: boolean): SignupStepDefinition => ({
+  step: SignupStep.PHONE_VERIFICATION,
+  required,
+  preconditions: [emailVerified],
+  isComplete: (attempt) => attempt.phoneVerified,
+});
+
+const mfaSetupStep = (required: boolean): SignupStepDefinition => ({
+  step: SignupStep.MFA_SETUP,
+  required,
+  preconditions: [emailVerified],
+  isComplete: (attempt) => attempt.mfaEnabled,
+});
+
+/**
+ * Flows selectable with SIGNUP_FLOW; the chosen flow is stored on each attempt
+ */
+export const SIGNUP_FLOWS: Record<string, SignupFlowDefinition> = {
+  email: {
+    name: 'email',
+    steps: [emailVerificationStep],
+  },
+  standard: {
+    name: 'standard',
+    steps: [
+      emailVerificationStep,
+      phoneVerificationStep(false),
+      mfaSetupStep(false),
+    ],
+  },
+  'email-phone-mfa': {
+    name: 'email-phone-mfa',
+    steps: [
+      emailVerificationStep,
+      phoneVerificationStep(true),
+      mfaSetupStep(true),
+    ],
+  },
+};
+
+export const DEFAULT_SIGNUP_FLOW = 'standard';
@@ -0,0 +1,19 @@
+/**
+ * Step identifiers stored in SignupAttempt.currentStep / completedSteps
+ */
+export const SignupStep = {
+  EMAIL_VERIFICATION: 'email_verification',
+  PHONE_VERIFICATION: 'phone_verification',
+  MFA_SETUP: 'mfa_setup',
+  COMPLETE: 'complete',
+} as const;
+
+export type SignupStepName = (typeof SignupStep)[keyof typeof SignupStep];
+
+/**
+ * Steps a signup flow can be made of (COMPLETE is the end of every flow)
+ */
+export type SignupFlowStepName = Exclude<
+  SignupStepName,
+  typeof SignupStep.COMPLETE
+>;
@@ -1,14 +1,57 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
-import { User, SignupAttempt } from '@prisma/client';
+import type { FastifyRequest } from 'fastify';
+import { Membership, Organization, SignupAttempt } from '@prisma/client';
+import {
+  AccessTokenPayload,
+  SignupTokenPayload,
+} from '../services/token.service';
+import { AuthenticatedUser } from '../services/role.service';
 
 /**
- * Decorator to extract current user from request
+ * Decorator to extract current user (with current roles) from request
  * Used with JwtAuthGuard
  */
 export const CurrentUser = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext): User => {
-    const request = ctx.switchToHttp().getRequest();
-    return request.user;
+  (data: unknown, ctx: ExecutionContext): AuthenticatedUser => {
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.user!;
+  },
+);
+
+/**
+ * Decorator to extract access token payload from request
+ * Used with JwtAuthGuard
+ */
+export const CurrentAccessToken = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): AccessTokenPayload => {
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.accessToken!;
+  },
+);
+
+/**
+ * Decorator to extract the active organization from request
+ * Set by JwtAuthGuard from the org claim, or by OrganizationGuard for the
+ * organization in the route; undefined when there is none
+ */
+export const CurrentOrg = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): Organization | undefined => {
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.organization;
+  },
+);
+
+/**
+ * Decorator to extract the user's membership in the active organization
+ * Used with OrganizationGuard
+ */
+export const CurrentMembership = createParamDecorator(
+  (
+    data: unknown,
+    ctx: ExecutionContext,
+  ): Membership & { organization: Organization } => {
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.membership!;
   },
 );
 
@@ -18,8 +61,8 @@ export const CurrentUser = createParamDecorator(
  */
 export const CurrentSignupAttempt = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): SignupAttempt => {
-    const request = ctx.switchToHttp().getRequest();
-    return request.signupAttempt;
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.signupAttempt!;
   },
 );
 
@@ -28,8 +71,8 @@ export const CurrentSignupAttempt = createParamDecorator(
  * Used with SignupJwtGuard
  */
 export const SignupToken = createParamDecorator(
-  (data: unknown, ctx: ExecutionContext) => {
-    const request = ctx.switchToHttp().getRequest();
-    return request.signupToken;
+  (data: unknown, ctx: ExecutionContext): SignupTokenPayload => {
+    const request = ctx.switchToHttp().getRequest<FastifyRequest>();
+    return request.signupToken!;
   },
 );
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { OrganizationRole } from '@prisma/client';
+
+export const REQUIRED_ORG_ROLES = 'requiredOrgRoles';
+
+/**
+ * Decorator to restrict an organization route to members holding any of
+ * the listed roles in that organization
+ * Used with OrganizationGuard
+ */
+export const OrgRoles = (...roles: OrganizationRole[]) =>
+  SetMetadata(REQUIRED_ORG_ROLES, roles);
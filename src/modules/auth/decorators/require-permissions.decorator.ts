@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionName } from '../constants/permissions';
+
+export const REQUIRED_PERMISSIONS = 'requiredPermissions';
+
+/**
+ * Decorator to restrict a route to users holding all of the listed
+ * permissions through their roles
+ * Used with AuthorizationGuard (after JwtAuthGuard)
+ */
+export const RequirePermissions = (...permissions: PermissionName[]) =>
+  SetMetadata(REQUIRED_PERMISSIONS, permissions);
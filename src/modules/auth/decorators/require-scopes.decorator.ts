@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { OAuthScopeName } from '../constants/oauth-scopes';
+
+export const REQUIRED_SCOPES = 'requiredScopes';
+
+/**
+ * Decorator to make a route available to delegated (OAuth client) tokens
+ * Used with JwtAuthGuard, which rejects delegated tokens on routes without
+ * it and tokens missing any of the listed scopes
+ */
+export const RequireScopes = (...scopes: OAuthScopeName[]) =>
+  SetMetadata(REQUIRED_SCOPES, scopes);
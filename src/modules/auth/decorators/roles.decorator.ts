@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRED_ROLES = 'requiredRoles';
+
+/**
+ * Decorator to restrict a route to users holding any of the listed roles
+ * Used with AuthorizationGuard (after JwtAuthGuard)
+ */
+export const Roles = (...roles: string[]) => SetMetadata(REQUIRED_ROLES, roles);
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { SignupStepName } from '../constants/signup-steps';
+
+export const SIGNUP_STEP_HANDLER = 'signupStepHandler';
+
+/**
+ * Decorator to bind a signup route to a step of the signup flow
+ * Used with SignupJwtGuard, which rejects the request unless the
+ * attempt's flow allows working on the step now
+ */
+export const SignupStepHandler = (step: SignupStepName) =>
+  SetMetadata(SIGNUP_STEP_HANDLER, step);
@@ -0,0 +1,53 @@
+export class AccountDeletionResponseDto {
+  success: true;
+  message: string;
+  deletionScheduledAt: Date; // logging in with reactivate: true before then cancels it
+}
+
+export class AccountExportDto {
+  exportedAt: Date;
+  profile: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    emailVerified: boolean;
+    status: string;
+    mfaEnabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  identities: {
+    provider: string;
+    email: string | null;
+    createdAt: Date;
+    lastLoginAt: Date | null;
+  }[];
+  sessions: {
+    sessionId: string;
+    clientId: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    platform: string | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+    expiresAt: Date;
+    revokedAt: Date | null;
+    revokedReason: string | null;
+  }[];
+  signupAttempts: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    phoneNumber: string | null;
+    flow: string;
+    oauthProvider: string | null;
+    status: string;
+    completedSteps: string[];
+    skippedSteps: string[];
+    attemptCount: number;
+    createdAt: Date;
+    completedAt: Date | null;
+  }[];
+}
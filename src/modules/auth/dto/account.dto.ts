@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Body of account deactivation and deletion requests
+ */
+export class ConfirmPasswordDto {
+  @IsString({ message: 'Current password must be a string' })
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+}
@@ -0,0 +1,31 @@
+export class ApiKeyDto {
+  id: string;
+  name: string;
+  prefix: string; // leading characters of the key, to recognise it
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export class ApiKeyListResponseDto {
+  success: true;
+  apiKeys: ApiKeyDto[];
+}
+
+export class ApiKeyResponseDto {
+  success: true;
+  apiKey: ApiKeyDto;
+}
+
+export class ApiKeyCreatedResponseDto {
+  success: true;
+  apiKey: ApiKeyDto;
+  key: string; // shown only once
+}
+
+export class ApiKeyFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode: number;
+}
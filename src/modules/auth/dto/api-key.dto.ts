@@ -0,0 +1,51 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { API_KEY_SCOPES } from '../constants/api-keys';
+
+export class CreateApiKeyDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters' })
+  name: string;
+
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @IsIn(API_KEY_SCOPES, {
+    each: true,
+    message: `Scopes must be one of: ${API_KEY_SCOPES.join(', ')}`,
+  })
+  scopes: string[];
+
+  @IsOptional()
+  @IsInt({ message: 'Expiry must be a whole number of days' })
+  @Min(1, { message: 'Expiry must be at least 1 day' })
+  @Max(365, { message: 'Expiry must be at most 365 days' })
+  expiresInDays?: number; // default API_KEY_DEFAULT_EXPIRY_DAYS (90)
+}
+
+/**
+ * Scopes cannot be changed; create a new key instead
+ */
+export class UpdateApiKeyDto {
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters' })
+  name?: string;
+
+  @IsOptional()
+  @IsInt({ message: 'Expiry must be a whole number of days' })
+  @Min(1, { message: 'Expiry must be at least 1 day' })
+  @Max(365, { message: 'Expiry must be at most 365 days' })
+  expiresInDays?: number; // from now
+}
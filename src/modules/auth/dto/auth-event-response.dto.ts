@@ -0,0 +1,18 @@
+export class AuthEventDto {
+  id: string;
+  type: string;
+  userId: string | null;
+  actorId: string | null;
+  sessionId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+export class AuthEventListResponseDto {
+  success: true;
+  events: AuthEventDto[];
+  nextCursor: string | null; // pass as cursor to get the next page
+}
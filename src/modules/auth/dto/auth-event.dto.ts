@@ -0,0 +1,41 @@
+import { IsIn, IsISO8601, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export const AUTH_EVENT_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export class AuthEventQueryDto {
+  @IsOptional()
+  @IsUUID('all', { message: 'userId must be a UUID' })
+  userId?: string;
+
+  @IsOptional()
+  @IsUUID('all', { message: 'actorId must be a UUID' })
+  actorId?: string;
+
+  @IsOptional()
+  @IsString()
+  type?: string; // comma-separated event types
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'from must be an ISO 8601 date' })
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'to must be an ISO 8601 date' })
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  limit?: string;
+
+  @IsOptional()
+  @IsUUID('all', { message: 'cursor must be an event id' })
+  cursor?: string;
+}
+
+export class AuthEventExportQueryDto extends AuthEventQueryDto {
+  @IsOptional()
+  @IsIn(AUTH_EVENT_EXPORT_FORMATS, {
+    message: `format must be one of: ${AUTH_EVENT_EXPORT_FORMATS.join(', ')}`,
+  })
+  format?: (typeof AUTH_EVENT_EXPORT_FORMATS)[number];
+}
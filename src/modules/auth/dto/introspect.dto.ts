@@ -0,0 +1,11 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class IntrospectTokenDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  @IsOptional()
+  @IsIn(['access_token'], { message: 'Only access tokens can be introspected' })
+  token_type_hint?: string;
+}
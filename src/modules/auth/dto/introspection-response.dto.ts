@@ -0,0 +1,20 @@
+import { UserStatus } from '@prisma/client';
+
+/**
+ * RFC 7662 introspection response. Invalid tokens only get `active: false`;
+ * validly signed tokens of users who are no longer ACTIVE also carry `sub`
+ * and `status` so callers can explain why access was denied.
+ */
+export class IntrospectionResponseDto {
+  active: boolean;
+  sub?: string;
+  username?: string; // user email
+  status?: UserStatus;
+  scope?: string;
+  client_id?: string;
+  token_type?: 'access_token';
+  sid?: string;
+  org?: string; // active organization id
+  iat?: number;
+  exp?: number;
+}
@@ -0,0 +1,7 @@
+export class LoginFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+  reason?: string; // machine-readable, e.g. INVALID_CREDENTIALS, ACCOUNT_SUSPENDED
+  retryAfter?: number; // seconds, when reason is ACCOUNT_LOCKED
+}
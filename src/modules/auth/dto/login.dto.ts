@@ -0,0 +1,22 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class LoginDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password: string;
+
+  // Reactivate a deactivated account, or one pending deletion
+  @IsOptional()
+  @IsBoolean({ message: 'Reactivate must be a boolean' })
+  reactivate?: boolean;
+}
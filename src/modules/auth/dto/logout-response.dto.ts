@@ -0,0 +1,4 @@
+export class LogoutResponseDto {
+  success: true;
+  message: string;
+}
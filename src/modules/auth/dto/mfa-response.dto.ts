@@ -0,0 +1,27 @@
+import { SignupSuccessResponseDto } from './signup-response.dto';
+
+export class MfaSetupResponseDto {
+  success: true;
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export class MfaEnrollmentResponseDto extends SignupSuccessResponseDto {
+  backupCodes: string[]; // shown once
+}
+
+export class MfaChallengeResponseDto {
+  success: true;
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number; // seconds
+}
+
+export class MfaFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+  reason?: string;
+  retryAfter?: number;
+}
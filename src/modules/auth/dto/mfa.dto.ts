@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class MfaChallengeDto {
+  @IsString({ message: 'MFA token must be a string' })
+  @IsNotEmpty({ message: 'MFA token is required' })
+  mfaToken: string;
+
+  @IsString({ message: 'Code must be a string' })
+  @Matches(/^(\d{6}|[A-Za-z2-7]{5}-?[A-Za-z2-7]{5})$/, {
+    message: 'Code must be a 6-digit authenticator code or a backup code',
+  })
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
@@ -0,0 +1,14 @@
+export class PasswordResetSuccessResponseDto {
+  success: true;
+  message: string;
+}
+
+export class PasswordResetFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+}
+
+export type PasswordResetResponseDto =
+  | PasswordResetSuccessResponseDto
+  | PasswordResetFailureResponseDto;
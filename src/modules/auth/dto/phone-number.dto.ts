@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class PhoneNumberDto {
+  @IsString({ message: 'Phone number must be a string' })
+  @Matches(/^\+[1-9]\d{1,14}$/, {
+    message: 'Phone number must be in E.164 format, e.g. +14155552671',
+  })
+  @IsNotEmpty({ message: 'Phone number is required' })
+  phoneNumber: string;
+}
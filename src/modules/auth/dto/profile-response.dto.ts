@@ -0,0 +1,18 @@
+import { UserDataDto } from './refresh-response.dto';
+
+export class ProfileResponseDto {
+  success: true;
+  user: UserDataDto;
+}
+
+export class EmailChangeRequestedResponseDto {
+  success: true;
+  message: string;
+  user: UserDataDto; // still with the current email
+}
+
+export class ProfileFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode: number;
+}
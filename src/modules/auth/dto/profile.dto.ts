@@ -0,0 +1,49 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString({ message: 'First name must be a string' })
+  @IsNotEmpty({ message: 'First name cannot be empty' })
+  @MaxLength(100, { message: 'First name must be at most 100 characters' })
+  firstName?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Last name must be a string' })
+  @IsNotEmpty({ message: 'Last name cannot be empty' })
+  @MaxLength(100, { message: 'Last name must be at most 100 characters' })
+  lastName?: string;
+}
+
+export class ChangePasswordDto {
+  @IsString({ message: 'Current password must be a string' })
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @IsNotEmpty({ message: 'Password is required' })
+  newPassword: string;
+}
+
+export class RequestEmailChangeDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  newEmail: string;
+
+  @IsString({ message: 'Current password must be a string' })
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
@@ -17,6 +17,7 @@ export class RefreshSuccessResponseDto {
 export class RefreshFailureResponseDto {
   success: false;
   message: string;
+  reason?: string; // machine-readable, when the account is not active
   redirectTo?: string;
 }
 
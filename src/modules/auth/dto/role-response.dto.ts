@@ -0,0 +1,34 @@
+export class RoleDto {
+  name: string;
+  description: string | null;
+  permissions: string[];
+  createdAt: Date;
+}
+
+export class RoleListResponseDto {
+  success: true;
+  roles: RoleDto[];
+}
+
+export class RoleCreatedResponseDto {
+  success: true;
+  role: RoleDto;
+}
+
+export class UserRoleDto {
+  role: string;
+  assignedAt: Date;
+  assignedById: string | null;
+}
+
+export class UserRoleListResponseDto {
+  success: true;
+  userId: string;
+  roles: UserRoleDto[];
+}
+
+export class RoleFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode: number;
+}
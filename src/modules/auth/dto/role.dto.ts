@@ -0,0 +1,21 @@
+import { IsArray, IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { Permission } from '../constants/permissions';
+
+export class CreateRoleDto {
+  @Matches(/^[a-z][a-z0-9_-]{1,63}$/, {
+    message:
+      'Role name must be 2-64 lowercase letters, digits, dashes or underscores',
+  })
+  name: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @IsArray({ message: 'Permissions must be an array' })
+  @IsIn(Object.values(Permission), {
+    each: true,
+    message: `Permissions must be one of: ${Object.values(Permission).join(', ')}`,
+  })
+  permissions: string[];
+}
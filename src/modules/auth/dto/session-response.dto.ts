@@ -0,0 +1,30 @@
+export class SessionDto {
+  id: string; // logical session id, stable across token rotations
+  userAgent: string | null;
+  ipAddress: string | null;
+  platform: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export class SessionListResponseDto {
+  success: true;
+  sessions: SessionDto[];
+}
+
+export class RevokeSessionSuccessResponseDto {
+  success: true;
+  message: string;
+}
+
+export class SessionFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+}
+
+export type RevokeSessionResponseDto =
+  | RevokeSessionSuccessResponseDto
+  | SessionFailureResponseDto;
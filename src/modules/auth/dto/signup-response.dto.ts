@@ -7,12 +7,23 @@ export class SignupSuccessResponseDto {
   completedSteps?: string[];
 }
 
+/**
+ * An in-progress attempt exists for the email but the password does not
+ * match it; no signup token is issued
+ */
+export class SignupPendingResponseDto {
+  success: true;
+  message: string;
+}
+
 export class SignupFailureResponseDto {
   success: false;
   message: string;
   statusCode?: number;
+  missingSteps?: string[];
 }
 
 export type SignupResponseDto =
   | SignupSuccessResponseDto
+  | SignupPendingResponseDto
   | SignupFailureResponseDto;
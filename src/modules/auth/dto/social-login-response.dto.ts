@@ -0,0 +1,7 @@
+export class SocialLoginFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+  reason?: string; // machine-readable, e.g. EMAIL_REQUIRED, ACCOUNT_EXISTS
+  retryAfter?: number; // seconds, when reason is ACCOUNT_LOCKED
+}
@@ -0,0 +1,24 @@
+import { SignupSuccessResponseDto } from './signup-response.dto';
+
+export class CodeSentResponseDto {
+  success: true;
+  message: string;
+  expiresAt: Date;
+  resendAvailableIn: number; // seconds
+}
+
+export class VerificationFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+  remainingAttempts?: number;
+  retryAfter?: number; // seconds
+}
+
+export type VerifyCodeResponseDto =
+  | SignupSuccessResponseDto
+  | VerificationFailureResponseDto;
+
+export type ResendCodeResponseDto =
+  | CodeSentResponseDto
+  | VerificationFailureResponseDto;
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class VerifyCodeDto {
+  @IsString({ message: 'Code must be a string' })
+  @Matches(/^\d{6}$/, { message: 'Code must be a 6-digit number' })
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+}
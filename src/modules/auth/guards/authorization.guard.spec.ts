@@ -0,0 +1,90 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthorizationGuard } from './authorization.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+import { Permission } from '../constants/permissions';
+import { AuthenticatedUser } from '../services/role.service';
+
+@Roles('support', 'admin')
+class TestController {
+  anyUser() {}
+
+  @Roles('auditor')
+  auditorsOnly() {}
+
+  @RequirePermissions(Permission.AUDIT_READ, Permission.USERS_MANAGE)
+  auditAndUsers() {}
+}
+
+describe('AuthorizationGuard', () => {
+  const guard = new AuthorizationGuard(new Reflector());
+
+  const contextFor = (
+    handler: keyof TestController | null,
+    user?: Partial<AuthenticatedUser>,
+  ) =>
+    ({
+      getHandler: () =>
+        handler ? TestController.prototype[handler] : () => undefined,
+      getClass: () => (handler ? TestController : Object),
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const userWith = (roles: string[], permissions: string[] = []) => ({
+    id: 'user-1',
+    roles,
+    permissions,
+  });
+
+  it('requires an authenticated user', () => {
+    expect(() => guard.canActivate(contextFor(null))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('lets any user through routes without requirements', () => {
+    expect(guard.canActivate(contextFor(null, userWith([])))).toBe(true);
+  });
+
+  it('accepts any one of the controller roles', () => {
+    expect(
+      guard.canActivate(contextFor('anyUser', userWith(['support']))),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(contextFor('anyUser', userWith(['auditor']))),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('lets handler roles override the controller roles', () => {
+    expect(
+      guard.canActivate(contextFor('auditorsOnly', userWith(['auditor']))),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(contextFor('auditorsOnly', userWith(['admin']))),
+    ).toThrow('Insufficient role');
+  });
+
+  it('requires every listed permission', () => {
+    expect(
+      guard.canActivate(
+        contextFor(
+          'auditAndUsers',
+          userWith(['admin'], [Permission.AUDIT_READ, Permission.USERS_MANAGE]),
+        ),
+      ),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(
+        contextFor(
+          'auditAndUsers',
+          userWith(['admin'], [Permission.AUDIT_READ]),
+        ),
+      ),
+    ).toThrow('Insufficient permissions');
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyRequest } from 'fastify';
+import { REQUIRED_ROLES } from '../decorators/roles.decorator';
+import { REQUIRED_PERMISSIONS } from '../decorators/require-permissions.decorator';
+
+/**
+ * Enforces @Roles() (any of) and @RequirePermissions() (all of), declared on
+ * the handler or the controller; routes without either only need a user
+ * Must run after JwtAuthGuard, which attaches the user with their roles
+ */
+@Injectable()
+export class AuthorizationGuard implements CanActivate {
+  private readonly logger = new Logger(AuthorizationGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const user = request.user;
+
+    if (!user) {
+      throw new UnauthorizedException('Access token required');
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredRoles = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(REQUIRED_ROLES, targets);
+    const requiredPermissions = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(REQUIRED_PERMISSIONS, targets);
+
+    if (
+      requiredRoles?.length &&
+      !requiredRoles.some((role) => user.roles.includes(role))
+    ) {
+      this.logger.warn(`User ${user.id} lacks a required role`);
+      throw new ForbiddenException('Insufficient role');
+    }
+
+    if (
+      requiredPermissions?.some(
+        (permission) => !user.permissions.includes(permission),
+      )
+    ) {
+      this.logger.warn(`User ${user.id} lacks a required permission`);
+      throw new ForbiddenException('Insufficient permissions');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import * as crypto from 'crypto';
+
+/**
+ * Authenticates internal services calling the introspection endpoint with
+ * HTTP Basic credentials listed in INTROSPECTION_CLIENTS ("id:secret,id:secret")
+ */
+@Injectable()
+export class IntrospectionClientGuard implements CanActivate {
+  private readonly logger = new Logger(IntrospectionClientGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const reply = context.switchToHttp().getResponse<FastifyReply>();
+
+    const authHeader = request.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Basic ')) {
+      reply.header('WWW-Authenticate', 'Basic realm="introspection"');
+      throw new UnauthorizedException('Client authentication required');
+    }
+
+    const credentials = Buffer.from(authHeader.substring(6), 'base64').toString(
+      'utf-8',
+    );
+    const separator = credentials.indexOf(':');
+    const clientId = credentials.slice(0, separator);
+    const clientSecret = credentials.slice(separator + 1);
+
+    const expectedSecret = this.getClientSecrets().get(clientId);
+
+    if (
+      separator === -1 ||
+      !expectedSecret ||
+      !this.secretsMatch(clientSecret, expectedSecret)
+    ) {
+      this.logger.warn(
+        `Introspection client authentication failed: ${clientId}`,
+      );
+      reply.header('WWW-Authenticate', 'Basic realm="introspection"');
+      throw new UnauthorizedException('Invalid client credentials');
+    }
+
+    return true;
+  }
+
+  private getClientSecrets(): Map<string, string> {
+    return new Map(
+      this.configService
+        .get<string>('INTROSPECTION_CLIENTS', '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.includes(':'))
+        .map((entry) => {
+          const separator = entry.indexOf(':');
+          return [entry.slice(0, separator), entry.slice(separator + 1)];
+        }),
+    );
+  }
+
+  /**
+   * Constant-time comparison (hashing first makes the lengths equal)
+   */
+  private secretsMatch(actual: string, expected: string): boolean {
+    const hash = (value: string) =>
+      crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(hash(actual), hash(expected));
+  }
+}
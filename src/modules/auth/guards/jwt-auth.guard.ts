@@ -2,20 +2,32 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { FastifyRequest } from 'fastify';
 import { TokenService } from '../services/token.service';
+import { RoleService } from '../services/role.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { API_KEY_PREFIX } from '../constants/api-keys';
+import { getAccountStatusReason } from '../constants/account-status';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { REQUIRED_SCOPES } from '../decorators/require-scopes.decorator';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
   private readonly logger = new Logger(JwtAuthGuard.name);
 
   constructor(
+    private readonly reflector: Reflector,
     private readonly tokenService: TokenService,
     private readonly prisma: PrismaService,
+    private readonly roleService: RoleService,
+    private readonly apiKeyService: ApiKeyService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -31,8 +43,10 @@ export class JwtAuthGuard implements CanActivate {
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
     try {
-      // Verify token
-      const payload = this.tokenService.verifyAccessToken(token);
+      // Verify token; personal API keys resolve to an equivalent scoped payload
+      const payload = token.startsWith(API_KEY_PREFIX)
+        ? await this.apiKeyService.authenticate(token)
+        : this.tokenService.verifyAccessToken(token);
 
       // Fetch user from database
       const user = await this.prisma.user.findUnique({
@@ -46,15 +60,67 @@ export class JwtAuthGuard implements CanActivate {
 
       if (user.status !== 'ACTIVE') {
         this.logger.warn(`User ${payload.sub} is not active: ${user.status}`);
-        throw new UnauthorizedException('User account is not active');
+        const { reason, message } = getAccountStatusReason(user);
+        throw new UnauthorizedException({
+          statusCode: HttpStatus.UNAUTHORIZED,
+          message,
+          reason,
+        });
       }
 
-      // Attach user to request
-      (request as any).user = user;
+      // Delegated (OAuth client) tokens and API keys only reach routes that
+      // declare the scopes they need via @RequireScopes()
+      if (payload.scope !== undefined) {
+        const requiredScopes = this.reflector.getAllAndOverride<
+          string[] | undefined
+        >(REQUIRED_SCOPES, [context.getHandler(), context.getClass()]);
+        const grantedScopes = payload.scope.split(' ');
+
+        if (
+          !requiredScopes ||
+          requiredScopes.some((scope) => !grantedScopes.includes(scope))
+        ) {
+          this.logger.warn(
+            `Token of ${payload.client_id ?? 'an API key'} lacks scope for this route`,
+          );
+          throw new ForbiddenException('Insufficient scope');
+        }
+      }
+
+      // Roles come from the database, not the token, so that revoking a
+      // role takes effect immediately
+      const authorization = await this.roleService.getUserAuthorization(user);
+
+      // The active organization only counts while the user is still a member
+      if (payload.org) {
+        const membership = await this.prisma.membership.findUnique({
+          where: {
+            organizationId_userId: {
+              organizationId: payload.org,
+              userId: user.id,
+            },
+          },
+          include: { organization: true },
+        });
+
+        if (!membership) {
+          this.logger.warn(
+            `User ${user.id} is no longer a member of organization ${payload.org}`,
+          );
+          throw new UnauthorizedException('Organization membership revoked');
+        }
+
+        request.membership = membership;
+        request.organization = membership.organization;
+      }
+
+      // Attach user (with roles) and token payload to request
+      request.user = { ...user, ...authorization };
+      request.accessToken = payload;
 
       return true;
     } catch (error) {
-      if (error instanceof UnauthorizedException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       this.logger.error('Token verification failed', error);
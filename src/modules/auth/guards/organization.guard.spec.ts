@@ -0,0 +1,123 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyRequest } from 'fastify';
+import { OrganizationRole } from '@prisma/client';
+import { OrganizationGuard } from './organization.guard';
+import { OrgRoles } from '../decorators/org-roles.decorator';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+class TestController {
+  anyMember() {}
+
+  @OrgRoles(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  adminsOnly() {}
+}
+
+describe('OrganizationGuard', () => {
+  let guard: OrganizationGuard;
+  let prisma: { membership: Record<string, jest.Mock> };
+
+  const organization = { id: 'org-1', name: 'Acme' };
+  const membership = {
+    id: 'membership-1',
+    organizationId: organization.id,
+    userId: 'user-1',
+    role: OrganizationRole.MEMBER,
+    organization,
+  };
+
+  const contextFor = (
+    request: Record<string, unknown>,
+    handler: keyof TestController = 'anyMember',
+  ) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const requestFor = (orgId?: string, tokenOrg?: string) => ({
+    user: { id: 'user-1' },
+    params: { orgId },
+    accessToken: { sub: 'user-1', type: 'access', org: tokenOrg },
+  });
+
+  beforeEach(() => {
+    prisma = {
+      membership: { findUnique: jest.fn().mockResolvedValue(membership) },
+    };
+    guard = new OrganizationGuard(
+      new Reflector(),
+      prisma as unknown as PrismaService,
+    );
+  });
+
+  it('requires an authenticated user', async () => {
+    await expect(guard.canActivate(contextFor({ params: {} }))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('requires an organization in the route or the token', async () => {
+    await expect(guard.canActivate(contextFor(requestFor()))).rejects.toThrow(
+      'No active organization',
+    );
+  });
+
+  it('attaches the membership and organization of a member', async () => {
+    const request = requestFor('org-1') as Partial<FastifyRequest>;
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+
+    expect(prisma.membership.findUnique).toHaveBeenCalledWith({
+      where: {
+        organizationId_userId: { organizationId: 'org-1', userId: 'user-1' },
+      },
+      include: { organization: true },
+    });
+    expect(request.membership).toBe(membership);
+    expect(request.organization).toBe(organization);
+  });
+
+  it('rejects users who are not members of the organization', async () => {
+    prisma.membership.findUnique.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(contextFor(requestFor('org-2'))),
+    ).rejects.toThrow('Not a member of this organization');
+  });
+
+  it('rejects a token scoped to another organization', async () => {
+    await expect(
+      guard.canActivate(contextFor(requestFor('org-2', 'org-1'))),
+    ).rejects.toThrow('Token is scoped to another organization');
+    expect(prisma.membership.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('reuses the membership JwtAuthGuard loaded for the token organization', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor({ ...requestFor(undefined, 'org-1'), membership }),
+      ),
+    ).resolves.toBe(true);
+    expect(prisma.membership.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('enforces the organization roles of the route', async () => {
+    await expect(
+      guard.canActivate(contextFor(requestFor('org-1'), 'adminsOnly')),
+    ).rejects.toThrow(ForbiddenException);
+
+    prisma.membership.findUnique.mockResolvedValue({
+      ...membership,
+      role: OrganizationRole.ADMIN,
+    });
+    await expect(
+      guard.canActivate(contextFor(requestFor('org-1'), 'adminsOnly')),
+    ).resolves.toBe(true);
+  });
+});
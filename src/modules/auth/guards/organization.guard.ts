@@ -0,0 +1,91 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyRequest } from 'fastify';
+import { OrganizationRole } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { REQUIRED_ORG_ROLES } from '../decorators/org-roles.decorator';
+
+type OrganizationRequest = FastifyRequest & {
+  params: { orgId?: string };
+};
+
+/**
+ * Rejects cross-tenant access: the target organization (the :orgId route
+ * parameter, else the token's org claim) must be one the user is a member
+ * of, and a token scoped to one organization cannot be used on another.
+ * Enforces @OrgRoles() and attaches the organization for @CurrentOrg()
+ * Must run after JwtAuthGuard
+ */
+@Injectable()
+export class OrganizationGuard implements CanActivate {
+  private readonly logger = new Logger(OrganizationGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<OrganizationRequest>();
+    const user = request.user;
+
+    if (!user) {
+      throw new UnauthorizedException('Access token required');
+    }
+
+    const tokenOrganizationId = request.accessToken?.org;
+    const organizationId = request.params.orgId ?? tokenOrganizationId;
+
+    if (!organizationId) {
+      throw new ForbiddenException('No active organization');
+    }
+
+    if (tokenOrganizationId && tokenOrganizationId !== organizationId) {
+      this.logger.warn(
+        `User ${user.id} used a token for organization ${tokenOrganizationId} on ${organizationId}`,
+      );
+      throw new ForbiddenException('Token is scoped to another organization');
+    }
+
+    // JwtAuthGuard already loaded the membership of the token's organization
+    const membership =
+      request.membership?.organizationId === organizationId
+        ? request.membership
+        : await this.prisma.membership.findUnique({
+            where: {
+              organizationId_userId: { organizationId, userId: user.id },
+            },
+            include: { organization: true },
+          });
+
+    if (!membership) {
+      this.logger.warn(
+        `User ${user.id} denied access to organization ${organizationId}`,
+      );
+      throw new ForbiddenException('Not a member of this organization');
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<
+      OrganizationRole[] | undefined
+    >(REQUIRED_ORG_ROLES, [context.getHandler(), context.getClass()]);
+
+    if (requiredRoles?.length && !requiredRoles.includes(membership.role)) {
+      this.logger.warn(
+        `User ${user.id} lacks a required role in organization ${organizationId}`,
+      );
+      throw new ForbiddenException('Insufficient organization role');
+    }
+
+    request.membership = membership;
+    request.organization = membership.organization;
+
+    return true;
+  }
+}
@@ -2,12 +2,16 @@ import {
   Injectable,
   CanActivate,
   ExecutionContext,
+  HttpException,
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { FastifyRequest } from 'fastify';
 import { TokenService } from '../services/token.service';
 import { SignupAttemptService } from '../services/signup-attempt.service';
+import { SIGNUP_STEP_HANDLER } from '../decorators/signup-step.decorator';
+import { SignupStepName } from '../constants/signup-steps';
 import { AttemptStatus } from '@prisma/client';
 
 @Injectable()
@@ -15,6 +19,7 @@ export class SignupJwtGuard implements CanActivate {
   private readonly logger = new Logger(SignupJwtGuard.name);
 
   constructor(
+    private readonly reflector: Reflector,
     private readonly tokenService: TokenService,
     private readonly signupAttemptService: SignupAttemptService,
   ) {}
@@ -57,13 +62,40 @@ export class SignupJwtGuard implements CanActivate {
         throw new UnauthorizedException('Signup attempt has expired');
       }
 
+      // Enforce the signup flow for routes bound to a step
+      const step = this.reflector.get<SignupStepName | undefined>(
+        SIGNUP_STEP_HANDLER,
+        context.getHandler(),
+      );
+      if (step) {
+        const violation = this.signupAttemptService.checkStepTransition(
+          attempt,
+          step,
+        );
+
+        if (violation) {
+          this.logger.warn(
+            `Signup attempt ${payload.attemptId} cannot work on ${step}: ${violation.message}`,
+          );
+          throw new HttpException(
+            {
+              success: false,
+              message: violation.message,
+              statusCode: violation.statusCode,
+              currentStep: attempt.currentStep,
+            },
+            violation.statusCode,
+          );
+        }
+      }
+
       // Attach signup attempt to request
-      (request as any).signupAttempt = attempt;
-      (request as any).signupToken = payload;
+      request.signupAttempt = attempt;
+      request.signupToken = payload;
 
       return true;
     } catch (error) {
-      if (error instanceof UnauthorizedException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       this.logger.error('Signup token verification failed', error);
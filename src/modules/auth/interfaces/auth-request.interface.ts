@@ -0,0 +1,24 @@
+import { Membership, Organization, SignupAttempt } from '@prisma/client';
+import type {
+  AccessTokenPayload,
+  SignupTokenPayload,
+} from '../services/token.service';
+import type { AuthenticatedUser } from '../services/role.service';
+
+/**
+ * What the auth guards attach to the request for the param decorators
+ * in current-user.decorator.ts
+ */
+declare module 'fastify' {
+  interface FastifyRequest {
+    // JwtAuthGuard
+    user?: AuthenticatedUser;
+    accessToken?: AccessTokenPayload;
+    // JwtAuthGuard (org claim) or OrganizationGuard (organization in the route)
+    membership?: Membership & { organization: Organization };
+    organization?: Organization;
+    // SignupJwtGuard
+    signupAttempt?: SignupAttempt;
+    signupToken?: SignupTokenPayload;
+  }
+}
@@ -0,0 +1,18 @@
+import { Controller, Get, Res, HttpStatus } from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { SigningKeyService } from './services/signing-key.service';
+
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly signingKeyService: SigningKeyService) {}
+
+  /**
+   * GET /.well-known/jwks.json
+   * Public keys for verifying access tokens, selected by the token's kid
+   */
+  @Get('jwks.json')
+  getJwks(@Res() res: FastifyReply) {
+    res.header('Cache-Control', 'public, max-age=300');
+    return res.status(HttpStatus.OK).send(this.signingKeyService.getJwks());
+  }
+}
@@ -0,0 +1,278 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Post,
+  Delete,
+  Body,
+  Req,
+  Res,
+  HttpStatus,
+  HttpException,
+  Logger,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ProfileService } from './services/profile.service';
+import { AccountService } from './services/account.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RequireScopes } from './decorators/require-scopes.decorator';
+import {
+  CurrentAccessToken,
+  CurrentUser,
+} from './decorators/current-user.decorator';
+import { OAuthScope } from './constants/oauth-scopes';
+import { RateLimitGuard } from '../rate-limit/guards/rate-limit.guard';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
+import { getSessionContext } from './utils/session-context.util';
+import type { AccessTokenPayload } from './services/token.service';
+import type { AuthenticatedUser } from './services/role.service';
+import {
+  ChangePasswordDto,
+  ConfirmEmailChangeDto,
+  RequestEmailChangeDto,
+  UpdateProfileDto,
+} from './dto/profile.dto';
+import { ConfirmPasswordDto } from './dto/account.dto';
+import { AccountDeletionResponseDto } from './dto/account-response.dto';
+import {
+  EmailChangeRequestedResponseDto,
+  ProfileFailureResponseDto,
+  ProfileResponseDto,
+} from './dto/profile-response.dto';
+
+/**
+ * The signed-in user's own account. Routes beyond reading and editing the
+ * profile declare no scopes, so JwtAuthGuard only admits session tokens there.
+ */
+@Controller('auth/me')
+@UseGuards(RateLimitGuard, JwtAuthGuard)
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class ProfileController {
+  private readonly logger = new Logger(ProfileController.name);
+
+  constructor(
+    private readonly profileService: ProfileService,
+    private readonly accountService: AccountService,
+  ) {}
+
+  /**
+   * GET /auth/me
+   * The current user's profile
+   */
+  @Get()
+  @RequireScopes(OAuthScope.PROFILE)
+  getProfile(@CurrentUser() user: AuthenticatedUser, @Res() res: FastifyReply) {
+    const response: ProfileResponseDto = {
+      success: true,
+      user: this.profileService.getProfile(user),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * PATCH /auth/me
+   * Update the current user's first and/or last name
+   */
+  @Patch()
+  @RequireScopes(OAuthScope.PROFILE)
+  async updateProfile(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateProfileDto: UpdateProfileDto,
+    @Res() res: FastifyReply,
+  ) {
+    const response: ProfileResponseDto = {
+      success: true,
+      user: await this.profileService.updateProfile(user, updateProfileDto),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /auth/me/password
+   * Change the password; every other session is signed out
+   */
+  @Post('password')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 15 * 60 })
+  async changePassword(
+    @CurrentUser() user: AuthenticatedUser,
+    @CurrentAccessToken() accessToken: AccessTokenPayload,
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Change password request received for user ${user.id}`);
+
+    return this.handle(res, async () => {
+      await this.profileService.changePassword(
+        user,
+        accessToken.sid,
+        changePasswordDto,
+        getSessionContext(req),
+      );
+      return { success: true, message: 'Password changed' };
+    });
+  }
+
+  /**
+   * POST /auth/me/email
+   * Start an email change: a confirmation link goes to the new address and
+   * the current address is notified
+   */
+  @Post('email')
+  @RateLimit({ by: 'ip', limit: 5, windowSeconds: 60 * 60 })
+  async requestEmailChange(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() requestEmailChangeDto: RequestEmailChangeDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Email change request received for user ${user.id}`);
+
+    return this.handle(
+      res,
+      async () => {
+        await this.profileService.requestEmailChange(
+          user,
+          requestEmailChangeDto,
+        );
+        const response: EmailChangeRequestedResponseDto = {
+          success: true,
+          message: 'A confirmation link has been sent to the new email address',
+          user: this.profileService.getProfile(user),
+        };
+        return response;
+      },
+      HttpStatus.ACCEPTED,
+    );
+  }
+
+  /**
+   * POST /auth/me/email/confirm
+   * Switch to the new email with the token from the confirmation link
+   */
+  @Post('email/confirm')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 15 * 60 })
+  async confirmEmailChange(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, async () => {
+      const response: ProfileResponseDto = {
+        success: true,
+        user: await this.profileService.confirmEmailChange(
+          user,
+          confirmEmailChangeDto.token,
+          getSessionContext(req),
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * POST /auth/me/deactivate
+   * Deactivate the account and sign out everywhere; logging in with
+   * reactivate: true brings it back
+   */
+  @Post('deactivate')
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 15 * 60 })
+  async deactivate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() confirmPasswordDto: ConfirmPasswordDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Deactivation request received for user ${user.id}`);
+
+    return this.handle(res, async () => {
+      await this.accountService.deactivate(
+        user,
+        confirmPasswordDto.currentPassword,
+        { actorId: user.id, context: getSessionContext(req) },
+      );
+      res.clearCookie('session', { path: '/' });
+      return { success: true, message: 'Account deactivated' };
+    });
+  }
+
+  /**
+   * DELETE /auth/me
+   * Schedule the account for deletion and sign out everywhere; its personal
+   * data is anonymized once the grace period ends
+   */
+  @Delete()
+  @RateLimit({ by: 'ip', limit: 10, windowSeconds: 15 * 60 })
+  async deleteAccount(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() confirmPasswordDto: ConfirmPasswordDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Deletion request received for user ${user.id}`);
+
+    return this.handle(
+      res,
+      async () => {
+        const deletionScheduledAt = await this.accountService.requestDeletion(
+          user,
+          confirmPasswordDto.currentPassword,
+          { actorId: user.id, context: getSessionContext(req) },
+        );
+        res.clearCookie('session', { path: '/' });
+        const response: AccountDeletionResponseDto = {
+          success: true,
+          message: 'Account scheduled for deletion',
+          deletionScheduledAt,
+        };
+        return response;
+      },
+      HttpStatus.ACCEPTED,
+    );
+  }
+
+  /**
+   * GET /auth/me/export
+   * Download the user's personal data as a JSON archive
+   */
+  @Get('export')
+  @RateLimit({ by: 'ip', limit: 5, windowSeconds: 60 * 60 })
+  async exportData(
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`Data export request received for user ${user.id}`);
+
+    const archive = await this.accountService.exportData(user);
+
+    res.header('Cache-Control', 'no-store');
+    res.header(
+      'Content-Disposition',
+      'attachment; filename="account-export.json"',
+    );
+    return res.status(HttpStatus.OK).send(archive);
+  }
+
+  private async handle(
+    res: FastifyReply,
+    operation: () => Promise<object>,
+    status: HttpStatus = HttpStatus.OK,
+  ) {
+    try {
+      return res.status(status).send(await operation());
+    } catch (error) {
+      if (error instanceof HttpException) {
+        const response: ProfileFailureResponseDto = {
+          success: false,
+          message: error.message,
+          statusCode: error.getStatus(),
+        };
+        return res.status(error.getStatus()).send(response);
+      }
+      throw error;
+    }
+  }
+}
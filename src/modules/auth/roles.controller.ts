@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Res,
+  HttpStatus,
+  HttpException,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { RoleService } from './services/role.service';
+import type { AuthenticatedUser } from './services/role.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AuthorizationGuard } from './guards/authorization.guard';
+import { RequirePermissions } from './decorators/require-permissions.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Permission } from './constants/permissions';
+import { CreateRoleDto } from './dto/role.dto';
+import {
+  RoleCreatedResponseDto,
+  RoleFailureResponseDto,
+  RoleListResponseDto,
+  UserRoleListResponseDto,
+} from './dto/role-response.dto';
+
+@Controller('admin')
+@UseGuards(JwtAuthGuard, AuthorizationGuard)
+@RequirePermissions(Permission.ROLES_MANAGE)
+export class RolesController {
+  private readonly logger = new Logger(RolesController.name);
+
+  constructor(private readonly roleService: RoleService) {}
+
+  /**
+   * GET /admin/roles
+   * List roles with their permissions
+   */
+  @Get('roles')
+  async listRoles(@Res() res: FastifyReply) {
+    const response: RoleListResponseDto = {
+      success: true,
+      roles: await this.roleService.listRoles(),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /admin/roles
+   * Create a role from existing permissions
+   */
+  @Post('roles')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createRole(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createRoleDto: CreateRoleDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`User ${user.id} creating role ${createRoleDto.name}`);
+
+    try {
+      const response: RoleCreatedResponseDto = {
+        success: true,
+        role: await this.roleService.createRole(createRoleDto),
+      };
+      return res.status(HttpStatus.CREATED).send(response);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        return this.sendFailure(res, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET /admin/users/:userId/roles
+   * Roles assigned to a user
+   */
+  @Get('users/:userId/roles')
+  async getUserRoles(
+    @Param('userId') userId: string,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      const response: UserRoleListResponseDto = {
+        success: true,
+        userId,
+        roles: await this.roleService.getUserRoles(userId),
+      };
+      return res.status(HttpStatus.OK).send(response);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendFailure(res, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * PUT /admin/users/:userId/roles/:role
+   * Assign a role to a user (idempotent)
+   */
+  @Put('users/:userId/roles/:role')
+  async assignRole(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('userId') userId: string,
+    @Param('role') role: string,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      await this.roleService.assignRole(userId, role, user.id);
+      return res
+        .status(HttpStatus.OK)
+        .send({ success: true, message: 'Role assigned' });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendFailure(res, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DELETE /admin/users/:userId/roles/:role
+   * Revoke a role from a user, effective on their next request
+   */
+  @Delete('users/:userId/roles/:role')
+  async revokeRole(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('userId') userId: string,
+    @Param('role') role: string,
+    @Res() res: FastifyReply,
+  ) {
+    try {
+      await this.roleService.revokeRole(userId, role, user.id);
+      return res
+        .status(HttpStatus.OK)
+        .send({ success: true, message: 'Role revoked' });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.sendFailure(res, error);
+      }
+      throw error;
+    }
+  }
+
+  private sendFailure(res: FastifyReply, error: HttpException) {
+    const response: RoleFailureResponseDto = {
+      success: false,
+      message: error.message,
+      statusCode: error.getStatus(),
+    };
+    return res.status(error.getStatus()).send(response);
+  }
+}
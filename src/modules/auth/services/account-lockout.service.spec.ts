@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { AccountLockoutService } from './account-lockout.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('AccountLockoutService', () => {
+  let accountLockoutService: AccountLockoutService;
+  let prisma: { user: Record<string, jest.Mock> };
+
+  const user = {
+    id: 'user-1',
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  } as User;
+
+  const failuresSoFar = (failedLoginAttempts: number) =>
+    prisma.user.update.mockResolvedValueOnce({ failedLoginAttempts });
+
+  beforeEach(async () => {
+    prisma = { user: { update: jest.fn() } };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountLockoutService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    accountLockoutService = module.get(AccountLockoutService);
+  });
+
+  it('does not lock below the threshold', async () => {
+    failuresSoFar(4);
+
+    await expect(accountLockoutService.recordFailure(user)).resolves.toBe(0);
+    expect(prisma.user.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('locks at the threshold and doubles the lock for every further failure', async () => {
+    failuresSoFar(5);
+    await expect(accountLockoutService.recordFailure(user)).resolves.toBe(60);
+
+    failuresSoFar(7);
+    await expect(accountLockoutService.recordFailure(user)).resolves.toBe(240);
+
+    const [{ data }] = prisma.user.update.mock.calls[1] as [
+      { data: { lockedUntil: Date } },
+    ];
+    expect(data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('caps the lock duration', async () => {
+    failuresSoFar(20);
+
+    await expect(accountLockoutService.recordFailure(user)).resolves.toBe(3600);
+  });
+
+  it('reports the seconds left on a lock', () => {
+    expect(
+      accountLockoutService.getLockRemainingSeconds({
+        ...user,
+        lockedUntil: new Date(Date.now() + 90_000),
+      }),
+    ).toBe(90);
+    expect(accountLockoutService.getLockRemainingSeconds(user)).toBe(0);
+  });
+
+  it('clears failures after a successful login', async () => {
+    await accountLockoutService.reset({ ...user, failedLoginAttempts: 3 });
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  });
+});
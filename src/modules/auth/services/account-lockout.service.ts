@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { User } from '@prisma/client';
+
+@Injectable()
+export class AccountLockoutService {
+  private readonly logger = new Logger(AccountLockoutService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Seconds until the account unlocks, or 0 if it is not locked
+   */
+  getLockRemainingSeconds(user: User): number {
+    if (!user.lockedUntil) {
+      return 0;
+    }
+    return Math.max(
+      0,
+      Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+    );
+  }
+
+  /**
+   * Count a failed credential check. Once the threshold is reached every
+   * further failure locks the account, doubling the lock duration each time.
+   * Returns the lock duration in seconds, or 0 if the account was not locked.
+   */
+  async recordFailure(user: User): Promise<number> {
+    const { failedLoginAttempts } = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    const threshold = parseInt(
+      this.configService.get<string>('LOGIN_LOCKOUT_THRESHOLD', '5'),
+      10,
+    );
+
+    if (failedLoginAttempts < threshold) {
+      return 0;
+    }
+
+    const baseSeconds = parseInt(
+      this.configService.get<string>('LOGIN_LOCKOUT_BASE_SECONDS', '60'),
+      10,
+    );
+    const maxSeconds = parseInt(
+      this.configService.get<string>('LOGIN_LOCKOUT_MAX_SECONDS', '3600'),
+      10,
+    );
+    const lockSeconds = Math.min(
+      maxSeconds,
+      baseSeconds * 2 ** (failedLoginAttempts - threshold),
+    );
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil: new Date(Date.now() + lockSeconds * 1000) },
+    });
+
+    this.logger.warn(
+      `User ${user.id} locked for ${lockSeconds}s after ${failedLoginAttempts} failed attempts`,
+    );
+
+    return lockSeconds;
+  }
+
+  /**
+   * Clear failed attempts after a successful credential check
+   */
+  async reset(user: User): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+      return;
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  }
+}
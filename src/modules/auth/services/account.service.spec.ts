@@ -0,0 +1,224 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrganizationRole, Prisma, User, UserStatus } from '@prisma/client';
+import { AccountService } from './account.service';
+import { SignupAttemptService } from './signup-attempt.service';
+import { TokenService } from './token.service';
+import { AuthEventService } from './auth-event.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+
+describe('AccountService', () => {
+  let accountService: AccountService;
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let transaction: jest.Mock;
+  let queryRaw: jest.Mock;
+  let signupAttemptService: Record<string, jest.Mock>;
+  let tokenService: Record<string, jest.Mock>;
+  let authEventService: Record<string, jest.Mock>;
+
+  const user = {
+    id: 'user-1',
+    email: 'Person@Example.com',
+    status: UserStatus.DELETED,
+  };
+
+  beforeEach(async () => {
+    const model = () => ({
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    });
+    prisma = {
+      user: model(),
+      signupAttempt: model(),
+      userIdentity: model(),
+      mfaBackupCode: model(),
+      passwordResetToken: model(),
+      emailChangeToken: model(),
+      apiKey: model(),
+      oAuthConsent: model(),
+      oAuthAuthorizationCode: model(),
+      membership: model(),
+      userRole: model(),
+      refreshToken: model(),
+      authEvent: model(),
+    };
+    prisma.membership.findMany.mockResolvedValue([]);
+    queryRaw = jest.fn();
+    transaction = jest.fn(
+      (fn: (tx: unknown) => Promise<unknown>): Promise<unknown> =>
+        fn({ ...prisma, $queryRaw: queryRaw }),
+    );
+    signupAttemptService = {
+      hashPassword: jest.fn().mockResolvedValue('random'),
+      verifyPassword: jest.fn().mockResolvedValue(true),
+    };
+    tokenService = { revokeAllUserRefreshTokens: jest.fn() };
+    authEventService = { record: jest.fn(), flush: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountService,
+        {
+          provide: PrismaService,
+          useValue: { ...prisma, $transaction: transaction },
+        },
+        { provide: SignupAttemptService, useValue: signupAttemptService },
+        { provide: TokenService, useValue: tokenService },
+        { provide: AuthEventService, useValue: authEventService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    accountService = module.get(AccountService);
+  });
+
+  describe('finalizeDueDeletions', () => {
+    beforeEach(() => {
+      prisma.user.findMany.mockResolvedValue([{ id: user.id }]);
+      prisma.user.findUniqueOrThrow.mockResolvedValue(user);
+    });
+
+    it('anonymizes the user and removes what is tied to them', async () => {
+      await expect(accountService.finalizeDueDeletions()).resolves.toBe(1);
+
+      expect(tokenService.revokeAllUserRefreshTokens).toHaveBeenCalledWith(
+        user.id,
+        RefreshTokenRevokedReason.ACCOUNT_DELETED,
+      );
+      for (const name of [
+        'userIdentity',
+        'mfaBackupCode',
+        'passwordResetToken',
+        'emailChangeToken',
+        'apiKey',
+        'oAuthConsent',
+        'oAuthAuthorizationCode',
+        'membership',
+        'userRole',
+      ]) {
+        expect(prisma[name].deleteMany).toHaveBeenCalledWith({
+          where: { userId: user.id },
+        });
+      }
+
+      const [{ data }] = prisma.user.update.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        email: `deleted-${user.id}@deleted.invalid`,
+        firstName: 'Deleted',
+        lastName: 'User',
+        passwordHash: 'random',
+        mfaSecret: null,
+      });
+      expect(data.anonymizedAt).toBeInstanceOf(Date);
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('strips network details from the revoked sessions', async () => {
+      await accountService.finalizeDueDeletions();
+
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: user.id },
+        data: { ipAddress: null, userAgent: null },
+      });
+    });
+
+    it('scrubs audit events about, by or mentioning the user', async () => {
+      await accountService.finalizeDueDeletions();
+
+      expect(authEventService.flush.mock.invocationCallOrder[0]).toBeLessThan(
+        transaction.mock.invocationCallOrder[0],
+      );
+      expect(prisma.authEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { userId: user.id },
+            { actorId: user.id },
+            {
+              metadata: { path: ['email'], equals: 'person@example.com' },
+            },
+          ],
+        },
+        data: { ipAddress: null, userAgent: null, metadata: Prisma.DbNull },
+      });
+    });
+
+    it('leaves a user who became the last owner of an organization for later', async () => {
+      prisma.membership.findMany.mockResolvedValue([
+        { organizationId: 'org-1' },
+      ]);
+      prisma.membership.count.mockResolvedValue(1);
+
+      await expect(accountService.finalizeDueDeletions()).resolves.toBe(0);
+
+      expect(queryRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.membership.count).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', role: OrganizationRole.OWNER },
+      });
+      expect(prisma.membership.deleteMany).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('anonymizes an owner whose organizations have other owners', async () => {
+      prisma.membership.findMany.mockResolvedValue([
+        { organizationId: 'org-1' },
+      ]);
+      prisma.membership.count.mockResolvedValue(2);
+
+      await expect(accountService.finalizeDueDeletions()).resolves.toBe(1);
+
+      expect(prisma.membership.deleteMany).toHaveBeenCalledWith({
+        where: { userId: user.id },
+      });
+    });
+  });
+
+  describe('requestDeletion', () => {
+    const activeUser = { ...user, status: UserStatus.ACTIVE } as User;
+    const source = { actorId: user.id };
+
+    beforeEach(() => {
+      prisma.user.update.mockImplementation(
+        ({ data }: { data: Partial<User> }) => ({ ...activeUser, ...data }),
+      );
+    });
+
+    it('schedules the deletion and signs out every session', async () => {
+      await expect(
+        accountService.requestDeletion(activeUser, 'password', source),
+      ).resolves.toBeInstanceOf(Date);
+
+      const [{ where, data }] = prisma.user.update.mock.calls[0] as [
+        { where: { id: string }; data: Record<string, unknown> },
+      ];
+      expect(where).toEqual({ id: user.id });
+      expect(data).toMatchObject({ status: UserStatus.DELETED });
+      expect(tokenService.revokeAllUserRefreshTokens).toHaveBeenCalledWith(
+        user.id,
+        RefreshTokenRevokedReason.ACCOUNT_DELETED,
+        source,
+      );
+    });
+
+    it('refuses while the user is the last owner of an organization', async () => {
+      prisma.membership.findMany.mockResolvedValue([
+        { organizationId: 'org-1' },
+      ]);
+      prisma.membership.count.mockResolvedValue(1);
+
+      await expect(
+        accountService.requestDeletion(activeUser, 'password', source),
+      ).rejects.toThrow(ConflictException);
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(tokenService.revokeAllUserRefreshTokens).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrganizationRole, Prisma, User, UserStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SignupAttemptService } from './signup-attempt.service';
+import { TokenService } from './token.service';
+import {
+  AuthEventService,
+  AuthEventSource,
+  AuthEventType,
+} from './auth-event.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+import { AccountExportDto } from '../dto/account-response.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Account lifecycle: deactivation, reactivation, deletion and data export
+ * Failures are thrown as HTTP exceptions for the controller to report
+ */
+@Injectable()
+export class AccountService {
+  private readonly logger = new Logger(AccountService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly signupAttemptService: SignupAttemptService,
+    private readonly tokenService: TokenService,
+    private readonly authEventService: AuthEventService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Deactivate the account and sign out every session; logging in again
+   * with reactivation requested undoes it
+   */
+  async deactivate(
+    user: User,
+    password: string,
+    source: AuthEventSource,
+  ): Promise<void> {
+    await this.assertCurrentPassword(user, password);
+
+    await this.changeStatus(user, UserStatus.INACTIVE, source);
+    await this.tokenService.revokeAllUserRefreshTokens(
+      user.id,
+      RefreshTokenRevokedReason.ACCOUNT_DEACTIVATED,
+      source,
+    );
+  }
+
+  /**
+   * Schedule the account for deletion and sign out every session. Until the
+   * grace period ends, logging in with reactivation requested cancels it.
+   * The last owner of an organization has to hand it over first.
+   */
+  async requestDeletion(
+    user: User,
+    password: string,
+    source: AuthEventSource,
+  ): Promise<Date> {
+    await this.assertCurrentPassword(user, password);
+
+    const soleOwnerOf = await this.prisma.$transaction((tx) =>
+      this.findSolelyOwnedOrganizations(user.id, tx),
+    );
+    if (soleOwnerOf.length > 0) {
+      throw new ConflictException(
+        'Transfer ownership of your organizations before deleting your account',
+      );
+    }
+
+    const graceDays = parseInt(
+      this.configService.get<string>('ACCOUNT_DELETION_GRACE_DAYS', '30'),
+      10,
+    );
+    const deletionScheduledAt = new Date(Date.now() + graceDays * DAY_MS);
+
+    await this.changeStatus(user, UserStatus.DELETED, source, {
+      deletionScheduledAt,
+    });
+    await this.tokenService.revokeAllUserRefreshTokens(
+      user.id,
+      RefreshTokenRevokedReason.ACCOUNT_DELETED,
+      source,
+    );
+
+    return deletionScheduledAt;
+  }
+
+  /**
+   * Whether the user may bring a non-active account back themselves
+   */
+  canReactivate(user: User): boolean {
+    return (
+      user.status === UserStatus.INACTIVE ||
+      (user.status === UserStatus.DELETED && !user.anonymizedAt)
+    );
+  }
+
+  /**
+   * Make a deactivated account, or one pending deletion, active again
+   */
+  reactivate(user: User, source: AuthEventSource): Promise<User> {
+    return this.changeStatus(user, UserStatus.ACTIVE, source, {
+      deletionScheduledAt: null,
+    });
+  }
+
+  /**
+   * Set the status of a user and record the change
+   */
+  async changeStatus(
+    user: User,
+    status: UserStatus,
+    source: AuthEventSource,
+    data: { deletionScheduledAt?: Date | null } = {},
+  ): Promise<User> {
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { status, ...data },
+    });
+
+    this.authEventService.record({
+      type: AuthEventType.USER_STATUS_CHANGED,
+      userId: user.id,
+      ...source,
+      metadata: { from: user.status, to: status },
+    });
+    this.logger.log(
+      `User ${user.id} status changed: ${user.status} -> ${status}`,
+    );
+
+    return updated;
+  }
+
+  /**
+   * Anonymize deleted accounts whose grace period has ended; accounts that
+   * became the last owner of an organization meanwhile are left for later
+   */
+  async finalizeDueDeletions(): Promise<number> {
+    const due = await this.prisma.user.findMany({
+      where: {
+        status: UserStatus.DELETED,
+        anonymizedAt: null,
+        deletionScheduledAt: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    let anonymized = 0;
+    for (const { id } of due) {
+      if (await this.anonymize(id)) {
+        anonymized++;
+      }
+    }
+
+    return anonymized;
+  }
+
+  /**
+   * Everything stored about the user: profile, linked identities, sessions
+   * and signup history. Secrets (password and token hashes, MFA secrets) are
+   * left out.
+   */
+  async exportData(user: User): Promise<AccountExportDto> {
+    const [identities, refreshTokens, signupAttempts] = await Promise.all([
+      this.prisma.userIdentity.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.refreshToken.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.signupAttempt.findMany({
+        where: { email: { equals: user.email, mode: 'insensitive' } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      exportedAt: new Date(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        emailVerified: user.emailVerified,
+        status: user.status,
+        mfaEnabled: user.mfaEnabled,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email,
+        createdAt: identity.createdAt,
+        lastLoginAt: identity.lastLoginAt,
+      })),
+      sessions: refreshTokens.map((token) => ({
+        sessionId: token.sessionId,
+        clientId: token.clientId,
+        userAgent: token.userAgent,
+        ipAddress: token.ipAddress,
+        platform: token.platform,
+        createdAt: token.createdAt,
+        lastUsedAt: token.lastUsedAt,
+        expiresAt: token.expiresAt,
+        revokedAt: token.revokedAt,
+        revokedReason: token.revokedReason,
+      })),
+      signupAttempts: signupAttempts.map((attempt) => ({
+        id: attempt.id,
+        email: attempt.email,
+        firstName: attempt.firstName,
+        lastName: attempt.lastName,
+        phoneNumber: attempt.phoneNumber,
+        flow: attempt.flow,
+        oauthProvider: attempt.oauthProvider,
+        status: attempt.status,
+        completedSteps: attempt.completedSteps,
+        skippedSteps: attempt.skippedSteps,
+        attemptCount: attempt.attemptCount,
+        createdAt: attempt.createdAt,
+        completedAt: attempt.completedAt,
+      })),
+    };
+  }
+
+  /**
+   * Replace the user's personal data with placeholders and remove
+   * everything tied to it; the row stays so references remain valid.
+   * Returns false, changing nothing, while the user is the last owner of
+   * an organization.
+   */
+  private async anonymize(userId: string): Promise<boolean> {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+    const passwordHash = await this.signupAttemptService.hashPassword(
+      crypto.randomBytes(32).toString('base64url'),
+    );
+
+    await this.tokenService.revokeAllUserRefreshTokens(
+      userId,
+      RefreshTokenRevokedReason.ACCOUNT_DELETED,
+    );
+    // Write queued events so the ones about this user are scrubbed below
+    await this.authEventService.flush();
+
+    const anonymized = await this.prisma.$transaction(async (tx) => {
+      const soleOwnerOf = await this.findSolelyOwnedOrganizations(userId, tx);
+      if (soleOwnerOf.length > 0) {
+        this.logger.warn(
+          `Not anonymizing user ${userId}: last owner of organizations ${soleOwnerOf.join(', ')}`,
+        );
+        return false;
+      }
+
+      await tx.signupAttempt.deleteMany({
+        where: { email: { equals: user.email, mode: 'insensitive' } },
+      });
+      await tx.userIdentity.deleteMany({ where: { userId } });
+      await tx.mfaBackupCode.deleteMany({ where: { userId } });
+      await tx.passwordResetToken.deleteMany({ where: { userId } });
+      await tx.emailChangeToken.deleteMany({ where: { userId } });
+      await tx.apiKey.deleteMany({ where: { userId } });
+      await tx.oAuthConsent.deleteMany({ where: { userId } });
+      await tx.oAuthAuthorizationCode.deleteMany({ where: { userId } });
+      await tx.membership.deleteMany({ where: { userId } });
+      await tx.userRole.deleteMany({ where: { userId } });
+      // Revoked sessions and audit events stay for their retention period,
+      // without the network details and emails they recorded
+      await tx.refreshToken.updateMany({
+        where: { userId },
+        data: { ipAddress: null, userAgent: null },
+      });
+      await tx.authEvent.updateMany({
+        where: {
+          OR: [
+            { userId },
+            { actorId: userId },
+            { metadata: { path: ['email'], equals: user.email.toLowerCase() } },
+          ],
+        },
+        data: { ipAddress: null, userAgent: null, metadata: Prisma.DbNull },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: `deleted-${userId}@deleted.invalid`,
+          firstName: 'Deleted',
+          lastName: 'User',
+          passwordHash,
+          emailVerified: false,
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaLastUsedStep: null,
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+          anonymizedAt: new Date(),
+        },
+      });
+      return true;
+    });
+
+    if (anonymized) {
+      this.logger.log(`Anonymized deleted user ${userId}`);
+    }
+    return anonymized;
+  }
+
+  /**
+   * Organizations the user is the only owner of. Locks each organization
+   * the user owns, as OrganizationService does for owner changes, so no
+   * owner leaves in between.
+   */
+  private async findSolelyOwnedOrganizations(
+    userId: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<string[]> {
+    const owned = await tx.membership.findMany({
+      where: { userId, role: OrganizationRole.OWNER },
+      select: { organizationId: true },
+      orderBy: { organizationId: 'asc' },
+    });
+
+    const solelyOwned: string[] = [];
+    for (const { organizationId } of owned) {
+      await tx.$queryRaw`
+        SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE
+      `;
+      const owners = await tx.membership.count({
+        where: { organizationId, role: OrganizationRole.OWNER },
+      });
+      if (owners <= 1) {
+        solelyOwned.push(organizationId);
+      }
+    }
+
+    return solelyOwned;
+  }
+
+  private async assertCurrentPassword(
+    user: User,
+    password: string,
+  ): Promise<void> {
+    const valid = await this.signupAttemptService.verifyPassword(
+      password,
+      user.passwordHash,
+    );
+
+    if (!valid) {
+      this.logger.warn(`User ${user.id} gave an incorrect current password`);
+      throw new BadRequestException('Current password is incorrect');
+    }
+  }
+}
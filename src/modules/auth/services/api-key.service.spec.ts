@@ -0,0 +1,151 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { ApiKeyService } from './api-key.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+  let prisma: { apiKey: Record<string, jest.Mock> };
+
+  const key = 'vn_pat_abcdefghijklmnop';
+  const storedKey = {
+    id: 'key-1',
+    userId: 'user-1',
+    name: 'CI',
+    prefix: 'vn_pat_abcdefgh',
+    keyHash: crypto.createHash('sha256').update(key).digest('hex'),
+    scopes: ['profile', 'sessions'],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastUsedAt: null,
+    createdAt: new Date(),
+    user: { email: 'user@example.com' },
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      apiKey: {
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn(() => '90') } },
+      ],
+    }).compile();
+
+    apiKeyService = module.get(ApiKeyService);
+  });
+
+  describe('authenticate', () => {
+    it('looks the key up by hash and resolves it to a scoped payload', async () => {
+      prisma.apiKey.findUnique.mockResolvedValue(storedKey);
+
+      const payload = await apiKeyService.authenticate(key);
+
+      expect(prisma.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: storedKey.keyHash },
+        include: { user: true },
+      });
+      expect(payload).toEqual({
+        sub: 'user-1',
+        email: 'user@example.com',
+        type: 'access',
+        scope: 'profile sessions',
+        exp: Math.floor(storedKey.expiresAt.getTime() / 1000),
+      });
+    });
+
+    it('records use at most once a minute', async () => {
+      prisma.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        lastUsedAt: new Date(),
+      });
+
+      await apiKeyService.authenticate(key);
+
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown keys', async () => {
+      prisma.apiKey.findUnique.mockResolvedValue(null);
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('rejects expired keys', async () => {
+      prisma.apiKey.findUnique.mockResolvedValue({
+        ...storedKey,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('createKey', () => {
+    it('stores only the hash of the returned key', async () => {
+      prisma.apiKey.create.mockImplementation(
+        ({ data }: { data: typeof storedKey }) => ({ ...storedKey, ...data }),
+      );
+
+      const { key: created } = await apiKeyService.createKey('user-1', {
+        name: 'CI',
+        scopes: ['profile', 'profile'],
+      });
+
+      const [{ data }] = prisma.apiKey.create.mock.calls[0] as [
+        { data: typeof storedKey },
+      ];
+      expect(created.startsWith('vn_pat_')).toBe(true);
+      expect(data.keyHash).toBe(
+        crypto.createHash('sha256').update(created).digest('hex'),
+      );
+      expect(data).not.toHaveProperty('key');
+      expect(data.scopes).toEqual(['profile']);
+    });
+  });
+
+  describe('updateKey', () => {
+    it('renames a key and moves its expiry', async () => {
+      prisma.apiKey.findFirst.mockResolvedValue(storedKey);
+      prisma.apiKey.update.mockResolvedValue(storedKey);
+
+      await apiKeyService.updateKey('user-1', 'key-1', {
+        name: 'Deploys',
+        expiresInDays: 7,
+      });
+
+      const [{ data }] = prisma.apiKey.update.mock.calls[0] as [
+        { data: { name: string; expiresAt: Date } },
+      ];
+      expect(data.name).toBe('Deploys');
+      expect(data.expiresAt.getTime()).toBeGreaterThan(
+        Date.now() + 6 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it("does not touch other users' keys", async () => {
+      prisma.apiKey.findFirst.mockResolvedValue(null);
+
+      await expect(
+        apiKeyService.updateKey('user-2', 'key-1', { name: 'Mine now' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(prisma.apiKey.findFirst).toHaveBeenCalledWith({
+        where: { id: 'key-1', userId: 'user-2' },
+      });
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+});
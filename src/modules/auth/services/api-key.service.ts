@@ -0,0 +1,183 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { API_KEY_PREFIX } from '../constants/api-keys';
+import { AccessTokenPayload } from './token.service';
+import { CreateApiKeyDto, UpdateApiKeyDto } from '../dto/api-key.dto';
+import { ApiKeyDto } from '../dto/api-key-response.dto';
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Resolve an API key to the equivalent of a delegated access token (the
+   * key's scopes in the scope claim), so JwtAuthGuard treats both alike
+   */
+  async authenticate(key: string): Promise<AccessTokenPayload> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: true },
+    });
+
+    if (!apiKey || apiKey.expiresAt < new Date()) {
+      this.logger.warn(
+        `Rejected ${apiKey ? 'expired' : 'unknown'} API key ${key.slice(0, API_KEY_PREFIX.length + 8)}`,
+      );
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    await this.touch(apiKey);
+
+    return {
+      sub: apiKey.userId,
+      email: apiKey.user.email,
+      type: 'access',
+      scope: apiKey.scopes.join(' '),
+      exp: Math.floor(apiKey.expiresAt.getTime() / 1000),
+    };
+  }
+
+  async listKeys(userId: string): Promise<ApiKeyDto[]> {
+    const keys = await this.prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return keys.map((key) => this.toDto(key));
+  }
+
+  async getKey(userId: string, keyId: string): Promise<ApiKeyDto> {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id: keyId, userId },
+    });
+
+    if (!key) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return this.toDto(key);
+  }
+
+  /**
+   * Create a key; the key itself is returned only here
+   */
+  async createKey(
+    userId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKeyDto; key: string }> {
+    const key = API_KEY_PREFIX + crypto.randomBytes(30).toString('base64url');
+    const expiryDays =
+      dto.expiresInDays ??
+      parseInt(
+        this.configService.get<string>('API_KEY_DEFAULT_EXPIRY_DAYS', '90'),
+        10,
+      );
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: dto.name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    this.logger.log(`Created API key ${apiKey.id} for user ${userId}`);
+
+    return { apiKey: this.toDto(apiKey), key };
+  }
+
+  /**
+   * Rename a key and/or set a new expiry, counted from now
+   */
+  async updateKey(
+    userId: string,
+    keyId: string,
+    dto: UpdateApiKeyDto,
+  ): Promise<ApiKeyDto> {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id: keyId, userId },
+    });
+
+    if (!key) {
+      throw new NotFoundException('API key not found');
+    }
+
+    const updated = await this.prisma.apiKey.update({
+      where: { id: key.id },
+      data: {
+        name: dto.name,
+        ...(dto.expiresInDays !== undefined && {
+          expiresAt: new Date(
+            Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000,
+          ),
+        }),
+      },
+    });
+
+    this.logger.log(`Updated API key ${keyId} of user ${userId}`);
+
+    return this.toDto(updated);
+  }
+
+  async deleteKey(userId: string, keyId: string): Promise<void> {
+    const result = await this.prisma.apiKey.deleteMany({
+      where: { id: keyId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('API key not found');
+    }
+
+    this.logger.log(`Deleted API key ${keyId} of user ${userId}`);
+  }
+
+  /**
+   * Record use, at most once a minute per key
+   */
+  private async touch(apiKey: ApiKey): Promise<void> {
+    const oneMinuteAgo = new Date(Date.now() - 60 * 1000);
+    if (apiKey.lastUsedAt && apiKey.lastUsedAt > oneMinuteAgo) {
+      return;
+    }
+
+    try {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.error('Failed to update API key usage', error);
+    }
+  }
+
+  private toDto(key: ApiKey): ApiKeyDto {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt,
+      lastUsedAt: key.lastUsedAt,
+      createdAt: key.createdAt,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
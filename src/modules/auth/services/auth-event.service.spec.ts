@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthEvent } from '@prisma/client';
+import { AuthEventService, AuthEventType } from './auth-event.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MetricsService } from '../../metrics/metrics.service';
+
+describe('AuthEventService', () => {
+  let authEventService: AuthEventService;
+  let authEvent: Record<'createMany' | 'findMany', jest.Mock>;
+  let metrics: Record<string, { inc: jest.Mock }>;
+
+  const events = (count: number, offset = 0) =>
+    Array.from(
+      { length: count },
+      (_, index) => ({ id: `event-${offset + index}` }) as AuthEvent,
+    );
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    authEvent = {
+      createMany: jest.fn().mockResolvedValue({ count: 0 }),
+      findMany: jest.fn().mockResolvedValue([]),
+    };
+    metrics = {
+      authSignupsTotal: { inc: jest.fn() },
+      authRefreshTotal: { inc: jest.fn() },
+      authTokenRotationsTotal: { inc: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthEventService,
+        { provide: PrismaService, useValue: { authEvent } },
+        { provide: MetricsService, useValue: metrics },
+      ],
+    }).compile();
+
+    authEventService = module.get(AuthEventService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('writes queued events together once the flush interval passes', async () => {
+      authEventService.record({
+        type: AuthEventType.LOGIN_SUCCEEDED,
+        userId: 'user-1',
+        context: {
+          ipAddress: '203.0.113.7',
+          userAgent: 'jest',
+          requestId: 'request-1',
+        },
+      });
+      authEventService.record({
+        type: AuthEventType.TOKEN_REVOKED,
+        userId: 'user-1',
+        actorId: 'admin-1',
+        sessionId: 'session-1',
+      });
+      expect(authEvent.createMany).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(authEvent.createMany).toHaveBeenCalledTimes(1);
+      const [{ data }] = authEvent.createMany.mock.calls[0] as [
+        { data: Record<string, unknown>[] },
+      ];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toMatchObject({
+        type: AuthEventType.LOGIN_SUCCEEDED,
+        userId: 'user-1',
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+        requestId: 'request-1',
+      });
+      expect(data[1]).toMatchObject({
+        type: AuthEventType.TOKEN_REVOKED,
+        actorId: 'admin-1',
+        sessionId: 'session-1',
+      });
+    });
+
+    it('writes a full batch without waiting for the interval', async () => {
+      for (let index = 0; index < 100; index++) {
+        authEventService.record({ type: AuthEventType.LOGIN_FAILED });
+      }
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(authEvent.createMany).toHaveBeenCalledTimes(1);
+      const [{ data }] = authEvent.createMany.mock.calls[0] as [
+        { data: unknown[] },
+      ];
+      expect(data).toHaveLength(100);
+    });
+
+    it('counts refresh failures by reason', () => {
+      authEventService.record({
+        type: AuthEventType.REFRESH_FAILED,
+        metadata: { reason: 'expired' },
+      });
+
+      expect(metrics.authRefreshTotal.inc).toHaveBeenCalledWith({
+        outcome: 'failed',
+        reason: 'expired',
+      });
+    });
+  });
+
+  describe('flush', () => {
+    it('logs a failed batch and keeps writing the next ones', async () => {
+      authEvent.createMany.mockRejectedValueOnce(
+        new Error('database unavailable'),
+      );
+
+      // The 100th event starts writing the first batch, which fails
+      for (let index = 0; index < 150; index++) {
+        authEventService.record({ type: AuthEventType.LOGIN_FAILED });
+      }
+      await expect(authEventService.flush()).resolves.toBeUndefined();
+
+      const batches = (
+        authEvent.createMany.mock.calls as [{ data: unknown[] }][]
+      ).map(([{ data }]) => data.length);
+      expect(batches).toEqual([100, 50]);
+
+      // The failed batch is dropped rather than retried
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(authEvent.createMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('writes the remaining events on shutdown', async () => {
+      authEventService.record({ type: AuthEventType.PASSWORD_CHANGED });
+
+      await authEventService.onModuleDestroy();
+
+      expect(authEvent.createMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findEvents', () => {
+    it('builds the filter and pages newest first', async () => {
+      const from = new Date('2025-11-01T00:00:00Z');
+      const to = new Date('2025-11-02T00:00:00Z');
+
+      await authEventService.findEvents(
+        {
+          userId: 'user-1',
+          actorId: 'admin-1',
+          types: ['login_failed', 'account_locked'],
+          from,
+          to,
+        },
+        50,
+        'event-9',
+      );
+
+      expect(authEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          actorId: 'admin-1',
+          type: { in: ['login_failed', 'account_locked'] },
+          createdAt: { gte: from, lte: to },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 50,
+        cursor: { id: 'event-9' },
+        skip: 1,
+      });
+    });
+
+    it('leaves out empty type lists, open date ranges and the first cursor', async () => {
+      await authEventService.findEvents({ types: [] }, 10);
+
+      expect(authEvent.findMany).toHaveBeenCalledWith({
+        where: { userId: undefined, actorId: undefined },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 10,
+      });
+    });
+  });
+
+  describe('streamEvents', () => {
+    const collect = async (maxEvents: number) => {
+      const streamed: AuthEvent[] = [];
+      for await (const event of authEventService.streamEvents({}, maxEvents)) {
+        streamed.push(event);
+      }
+      return streamed;
+    };
+
+    it('follows the cursor from page to page until a short page', async () => {
+      authEvent.findMany
+        .mockResolvedValueOnce(events(1000))
+        .mockResolvedValueOnce(events(3, 1000));
+
+      const streamed = await collect(5000);
+
+      expect(streamed).toHaveLength(1003);
+      const calls = authEvent.findMany.mock.calls as [
+        { take: number; cursor?: { id: string } },
+      ][];
+      expect(calls).toHaveLength(2);
+      expect(calls[0][0].cursor).toBeUndefined();
+      expect(calls[1][0]).toMatchObject({
+        take: 1000,
+        cursor: { id: 'event-999' },
+      });
+    });
+
+    it('stops at maxEvents', async () => {
+      authEvent.findMany
+        .mockResolvedValueOnce(events(1000))
+        .mockResolvedValueOnce(events(200, 1000));
+
+      const streamed = await collect(1200);
+
+      expect(streamed).toHaveLength(1200);
+      const calls = authEvent.findMany.mock.calls as [{ take: number }][];
+      expect(calls).toHaveLength(2);
+      expect(calls[1][0].take).toBe(200);
+    });
+  });
+});
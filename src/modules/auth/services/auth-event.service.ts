@@ -0,0 +1,210 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { AuthEvent, Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { SessionContext } from './token.service';
+
+export const AuthEventType = {
+  SIGNUP_CREATED: 'signup_created',
+  SIGNUP_RESUMED: 'signup_resumed',
+  LOGIN_SUCCEEDED: 'login_succeeded',
+  LOGIN_FAILED: 'login_failed',
+  REFRESH_SUCCEEDED: 'refresh_succeeded',
+  REFRESH_FAILED: 'refresh_failed',
+  TOKEN_ROTATED: 'token_rotated',
+  TOKEN_REVOKED: 'token_revoked',
+  USER_STATUS_CHANGED: 'user_status_changed',
+  PASSWORD_CHANGED: 'password_changed',
+  EMAIL_CHANGED: 'email_changed',
+  EMAIL_VERIFIED: 'email_verified',
+  SIGNUP_EXPIRED: 'signup_expired',
+  REFRESH_TOKEN_REUSE: 'refresh_token_reuse',
+  ACCOUNT_LOCKED: 'account_locked',
+  AUTHORIZATION_CODE_REUSE: 'authorization_code_reuse',
+  ROLE_ASSIGNED: 'role_assigned',
+  ROLE_REVOKED: 'role_revoked',
+} as const;
+
+export type AuthEventTypeValue =
+  (typeof AuthEventType)[keyof typeof AuthEventType];
+
+/**
+ * Who caused an event and the request it came from
+ */
+export interface AuthEventSource {
+  actorId?: string; // omitted for system actions (e.g. reuse detection)
+  context?: SessionContext;
+}
+
+export interface AuthEventInput extends AuthEventSource {
+  type: AuthEventTypeValue;
+  userId?: string; // user the event is about
+  sessionId?: string;
+  metadata?: Prisma.InputJsonObject;
+}
+
+export interface AuthEventFilter {
+  userId?: string;
+  actorId?: string;
+  types?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+const BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 1000;
+const MAX_QUEUED_EVENTS = 10000;
+
+/**
+ * Authentication audit log. Events are queued and written in batches off
+ * the request path; write failures are logged, never thrown.
+ */
+@Injectable()
+export class AuthEventService implements OnModuleDestroy {
+  private readonly logger = new Logger(AuthEventService.name);
+  private readonly queue: Prisma.AuthEventCreateManyInput[] = [];
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  async onModuleDestroy() {
+    await this.flush();
+  }
+
+  /**
+   * Queue an event for writing; returns immediately
+   */
+  record(event: AuthEventInput): void {
+    this.countEvent(event);
+
+    if (this.queue.length >= MAX_QUEUED_EVENTS) {
+      this.logger.error(`Audit queue full, dropping ${event.type} event`);
+      return;
+    }
+
+    this.queue.push({
+      type: event.type,
+      userId: event.userId,
+      actorId: event.actorId,
+      sessionId: event.sessionId,
+      ipAddress: event.context?.ipAddress,
+      userAgent: event.context?.userAgent,
+      requestId: event.context?.requestId,
+      metadata: event.metadata,
+      createdAt: new Date(),
+    });
+
+    if (this.queue.length >= BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Write all queued events
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, BATCH_SIZE);
+      try {
+        await this.prisma.authEvent.createMany({ data: batch });
+      } catch (error) {
+        this.logger.error(`Failed to write ${batch.length} auth events`, error);
+      }
+    }
+  }
+
+  /**
+   * Events matching the filter, newest first; pass the last event's id as
+   * cursor for the next page
+   */
+  findEvents(
+    filter: AuthEventFilter,
+    limit: number,
+    cursor?: string,
+  ): Promise<AuthEvent[]> {
+    return this.prisma.authEvent.findMany({
+      where: this.buildWhere(filter),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+  }
+
+  /**
+   * Every event matching the filter (up to maxEvents), newest first, read
+   * in pages so exports do not load the whole log into memory
+   */
+  async *streamEvents(
+    filter: AuthEventFilter,
+    maxEvents: number,
+  ): AsyncGenerator<AuthEvent> {
+    let cursor: string | undefined;
+    let remaining = maxEvents;
+
+    while (remaining > 0) {
+      const page = await this.findEvents(
+        filter,
+        Math.min(remaining, 1000),
+        cursor,
+      );
+      yield* page;
+
+      if (page.length === 0 || page.length < Math.min(remaining, 1000)) {
+        return;
+      }
+      remaining -= page.length;
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  /**
+   * Update the auth counters exposed on /metrics
+   */
+  private countEvent(event: AuthEventInput): void {
+    switch (event.type) {
+      case AuthEventType.SIGNUP_CREATED:
+        this.metricsService.authSignupsTotal.inc({ outcome: 'created' });
+        break;
+      case AuthEventType.SIGNUP_RESUMED:
+        this.metricsService.authSignupsTotal.inc({ outcome: 'resumed' });
+        break;
+      case AuthEventType.REFRESH_SUCCEEDED:
+        this.metricsService.authRefreshTotal.inc({
+          outcome: 'succeeded',
+          reason: 'none',
+        });
+        break;
+      case AuthEventType.REFRESH_FAILED: {
+        const reason = event.metadata?.reason;
+        this.metricsService.authRefreshTotal.inc({
+          outcome: 'failed',
+          reason: typeof reason === 'string' ? reason : 'unknown',
+        });
+        break;
+      }
+      case AuthEventType.TOKEN_ROTATED:
+        this.metricsService.authTokenRotationsTotal.inc();
+        break;
+    }
+  }
+
+  private buildWhere(filter: AuthEventFilter): Prisma.AuthEventWhereInput {
+    return {
+      userId: filter.userId,
+      actorId: filter.actorId,
+      ...(filter.types?.length && { type: { in: filter.types } }),
+      ...((filter.from || filter.to) && {
+        createdAt: { gte: filter.from, lte: filter.to },
+      }),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { EmailChangeService } from './email-change.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('EmailChangeService', () => {
+  let emailChangeService: EmailChangeService;
+  let prisma: {
+    $transaction: jest.Mock;
+    emailChangeToken: Record<string, jest.Mock>;
+  };
+
+  const sha256 = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      emailChangeToken: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'change-1',
+          userId: 'user-1',
+          newEmail: 'new@example.com',
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailChangeService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    emailChangeService = module.get(EmailChangeService);
+  });
+
+  it('stores only a hash of the token and retires pending changes', async () => {
+    const { token } = await emailChangeService.issueToken(
+      'user-1',
+      'new@example.com',
+    );
+
+    expect(prisma.emailChangeToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', usedAt: null },
+      data: { usedAt: expect.any(Date) as Date },
+    });
+    expect(prisma.emailChangeToken.create).toHaveBeenCalledWith({
+      data: {
+        userId: 'user-1',
+        newEmail: 'new@example.com',
+        tokenHash: sha256(token),
+        expiresAt: expect.any(Date) as Date,
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('consumes an unused, unexpired token of the user', async () => {
+    await expect(
+      emailChangeService.consumeToken('user-1', 'token'),
+    ).resolves.toMatchObject({ newEmail: 'new@example.com' });
+
+    expect(prisma.emailChangeToken.findUnique).toHaveBeenCalledWith({
+      where: { tokenHash: sha256('token') },
+    });
+    expect(prisma.emailChangeToken.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'change-1',
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) as Date },
+      },
+      data: { usedAt: expect.any(Date) as Date },
+    });
+  });
+
+  it('accepts a token only once', async () => {
+    prisma.emailChangeToken.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(
+      emailChangeService.consumeToken('user-1', 'token'),
+    ).resolves.not.toBeNull();
+    await expect(
+      emailChangeService.consumeToken('user-1', 'token'),
+    ).resolves.toBeNull();
+  });
+
+  it('refuses the token of another user without using it up', async () => {
+    await expect(
+      emailChangeService.consumeToken('user-2', 'token'),
+    ).resolves.toBeNull();
+
+    expect(prisma.emailChangeToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unknown token', async () => {
+    prisma.emailChangeToken.findUnique.mockResolvedValue(null);
+
+    await expect(
+      emailChangeService.consumeToken('user-1', 'token'),
+    ).resolves.toBeNull();
+  });
+
+  it('consumes the token inside the caller transaction', async () => {
+    const tx = {
+      emailChangeToken: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ id: 'change-1', userId: 'user-1' }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    await emailChangeService.consumeToken(
+      'user-1',
+      'token',
+      tx as unknown as PrismaService,
+    );
+
+    expect(tx.emailChangeToken.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.emailChangeToken.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { EmailChangeToken, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+
+export interface IssuedEmailChangeToken {
+  token: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class EmailChangeService {
+  private readonly logger = new Logger(EmailChangeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a token confirming a new email, invalidating any pending change
+   */
+  async issueToken(
+    userId: string,
+    newEmail: string,
+  ): Promise<IssuedEmailChangeToken> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const ttlMinutes = parseInt(
+      this.configService.get<string>('EMAIL_CHANGE_TTL_MINUTES', '60'),
+      10,
+    );
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.prisma.$transaction([
+      this.prisma.emailChangeToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.emailChangeToken.create({
+        data: {
+          userId,
+          newEmail,
+          tokenHash: this.hashToken(token),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    this.logger.log(`Issued email change token for user ${userId}`);
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Consume an unused, unexpired token of the user
+   * Returns the token record, or null if the token cannot be used
+   */
+  async consumeToken(
+    userId: string,
+    token: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<EmailChangeToken | null> {
+    const record = await tx.emailChangeToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!record || record.userId !== userId) {
+      return null;
+    }
+
+    // Conditional update so concurrent requests cannot use the token twice
+    const result = await tx.emailChangeToken.updateMany({
+      where: { id: record.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      this.logger.warn(`Email change token ${record.id} is used or expired`);
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Build the link sent to the new address
+   */
+  buildConfirmUrl(token: string): string {
+    const url = new URL(
+      this.configService.get<string>(
+        'EMAIL_CHANGE_URL',
+        'http://localhost:5173/confirm-email',
+      ),
+    );
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,128 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { IntrospectionService } from './introspection.service';
+import { TokenService } from './token.service';
+import { ApiKeyService } from './api-key.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('IntrospectionService', () => {
+  let introspectionService: IntrospectionService;
+  let tokenService: Record<string, jest.Mock>;
+  let apiKeyService: Record<string, jest.Mock>;
+  let prisma: {
+    user: Record<string, jest.Mock>;
+    membership: Record<string, jest.Mock>;
+  };
+
+  const user = { id: 'user-1', email: 'user@example.com', status: 'ACTIVE' };
+
+  beforeEach(async () => {
+    tokenService = { verifyAccessToken: jest.fn() };
+    apiKeyService = { authenticate: jest.fn() };
+    prisma = {
+      user: { findUnique: jest.fn().mockResolvedValue(user) },
+      membership: { findUnique: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IntrospectionService,
+        { provide: TokenService, useValue: tokenService },
+        { provide: ApiKeyService, useValue: apiKeyService },
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn(() => '0') } },
+      ],
+    }).compile();
+
+    introspectionService = module.get(IntrospectionService);
+  });
+
+  it('reports an invalid token as inactive', async () => {
+    tokenService.verifyAccessToken.mockImplementation(() => {
+      throw new UnauthorizedException();
+    });
+
+    await expect(introspectionService.introspect('bad')).resolves.toEqual({
+      active: false,
+    });
+  });
+
+  it('reports a token of a user that is not ACTIVE with its status', async () => {
+    tokenService.verifyAccessToken.mockReturnValue({ sub: user.id });
+    prisma.user.findUnique.mockResolvedValue({ ...user, status: 'SUSPENDED' });
+
+    await expect(introspectionService.introspect('token')).resolves.toEqual({
+      active: false,
+      sub: user.id,
+      status: 'SUSPENDED',
+    });
+  });
+
+  describe('org claim', () => {
+    beforeEach(() => {
+      tokenService.verifyAccessToken.mockReturnValue({
+        sub: user.id,
+        type: 'access',
+        org: 'org-1',
+      });
+    });
+
+    it('includes the organization while the user is a member', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        organizationId: 'org-1',
+        userId: user.id,
+      });
+
+      const response = await introspectionService.introspect('token');
+
+      expect(response).toMatchObject({ active: true, org: 'org-1' });
+      expect(prisma.membership.findUnique).toHaveBeenCalledWith({
+        where: {
+          organizationId_userId: { organizationId: 'org-1', userId: user.id },
+        },
+      });
+    });
+
+    it('reports the token inactive once the membership is gone', async () => {
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(introspectionService.introspect('token')).resolves.toEqual({
+        active: false,
+      });
+    });
+  });
+
+  describe('API keys', () => {
+    it('resolves keys through ApiKeyService like the guard', async () => {
+      apiKeyService.authenticate.mockResolvedValue({
+        sub: user.id,
+        email: user.email,
+        type: 'access',
+        scope: 'profile',
+        exp: 2_000_000_000,
+      });
+
+      const response = await introspectionService.introspect('vn_pat_key');
+
+      expect(apiKeyService.authenticate).toHaveBeenCalledWith('vn_pat_key');
+      expect(tokenService.verifyAccessToken).not.toHaveBeenCalled();
+      expect(response).toMatchObject({
+        active: true,
+        sub: user.id,
+        scope: 'profile',
+        exp: 2_000_000_000,
+      });
+    });
+
+    it('reports an unknown or expired key as inactive', async () => {
+      apiKeyService.authenticate.mockRejectedValue(
+        new UnauthorizedException('Invalid API key'),
+      );
+
+      await expect(
+        introspectionService.introspect('vn_pat_unknown'),
+      ).resolves.toEqual({ active: false });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AccessTokenPayload, TokenService } from './token.service';
+import { ApiKeyService } from './api-key.service';
+import { API_KEY_PREFIX } from '../constants/api-keys';
+import { IntrospectionResponseDto } from '../dto/introspection-response.dto';
+import * as crypto from 'crypto';
+
+interface CachedIntrospection {
+  response: IntrospectionResponseDto;
+  expiresAt: number;
+}
+
+const MAX_CACHE_ENTRIES = 10_000;
+
+@Injectable()
+export class IntrospectionService {
+  private readonly logger = new Logger(IntrospectionService.name);
+  private readonly cache = new Map<string, CachedIntrospection>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Introspect an access token with the same checks as JwtAuthGuard:
+   * valid signature and type (or a known, unexpired API key), an existing
+   * ACTIVE user and, for tokens with
+   * an org claim, a membership in that organization.
+   * Results are cached for INTROSPECTION_CACHE_SECONDS (default 0, disabled).
+   */
+  async introspect(token: string): Promise<IntrospectionResponseDto> {
+    const cacheSeconds = parseInt(
+      this.configService.get<string>('INTROSPECTION_CACHE_SECONDS', '0'),
+      10,
+    );
+    const cacheKey = crypto.createHash('sha256').update(token).digest('hex');
+
+    if (cacheSeconds > 0) {
+      const cached = this.cache.get(cacheKey);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.response;
+      }
+    }
+
+    const response = await this.check(token);
+
+    if (cacheSeconds > 0) {
+      this.store(cacheKey, response, cacheSeconds);
+    }
+
+    return response;
+  }
+
+  private async check(token: string): Promise<IntrospectionResponseDto> {
+    let payload: AccessTokenPayload;
+    try {
+      // Personal API keys resolve to an equivalent scoped payload, as in the guard
+      payload = token.startsWith(API_KEY_PREFIX)
+        ? await this.apiKeyService.authenticate(token)
+        : this.tokenService.verifyAccessToken(token);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return { active: false };
+      }
+      throw error;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+    });
+
+    if (!user) {
+      return { active: false };
+    }
+
+    if (user.status !== 'ACTIVE') {
+      return { active: false, sub: user.id, status: user.status };
+    }
+
+    // The active organization only counts while the user is still a member
+    if (payload.org) {
+      const membership = await this.prisma.membership.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId: payload.org,
+            userId: user.id,
+          },
+        },
+      });
+
+      if (!membership) {
+        return { active: false };
+      }
+    }
+
+    return {
+      active: true,
+      sub: user.id,
+      username: user.email,
+      status: user.status,
+      ...(payload.scope && { scope: payload.scope }),
+      ...(payload.client_id && { client_id: payload.client_id }),
+      token_type: 'access_token',
+      ...(payload.sid && { sid: payload.sid }),
+      ...(payload.org && { org: payload.org }),
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+  }
+
+  /**
+   * Cache a result, never beyond the token's own expiry
+   */
+  private store(
+    cacheKey: string,
+    response: IntrospectionResponseDto,
+    cacheSeconds: number,
+  ) {
+    const now = Date.now();
+    const expiresAt = Math.min(
+      now + cacheSeconds * 1000,
+      response.exp ? response.exp * 1000 : Infinity,
+    );
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      for (const [key, entry] of this.cache) {
+        if (entry.expiresAt <= now) {
+          this.cache.delete(key);
+        }
+      }
+      if (this.cache.size >= MAX_CACHE_ENTRIES) {
+        this.logger.warn('Introspection cache is full, clearing it');
+        this.cache.clear();
+      }
+    }
+
+    this.cache.set(cacheKey, { response, expiresAt });
+  }
+}
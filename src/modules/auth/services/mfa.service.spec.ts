@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SignupAttempt, User } from '@prisma/client';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('MfaService', () => {
+  let mfaService: MfaService;
+  let prisma: Record<
+    'mfaBackupCode' | 'user' | 'signupAttempt',
+    Record<string, jest.Mock>
+  >;
+
+  // RFC 6238 appendix B test secret ("12345678901234567890" in base32)
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  beforeEach(async () => {
+    prisma = {
+      mfaBackupCode: { updateMany: jest.fn() },
+      user: { updateMany: jest.fn() },
+      signupAttempt: { updateMany: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+            getOrThrow: jest.fn(() => 'mfa-encryption-key'),
+          },
+        },
+      ],
+    }).compile();
+
+    mfaService = module.get(MfaService);
+  });
+
+  describe('verifyUserTotp', () => {
+    let user: User;
+    let lastUsedStep: number | null;
+
+    beforeEach(() => {
+      const encryptedSecret = (
+        mfaService as unknown as { encryptSecret: (secret: string) => string }
+      ).encryptSecret(rfcSecret);
+      user = {
+        id: 'user-1',
+        mfaSecret: encryptedSecret,
+        mfaLastUsedStep: null,
+      } as User;
+
+      // Stored step, updated only when the claimed step is newer
+      lastUsedStep = null;
+      prisma.user.updateMany.mockImplementation(
+        ({ data }: { data: { mfaLastUsedStep: number } }) => {
+          if (lastUsedStep !== null && data.mfaLastUsedStep <= lastUsedStep) {
+            return Promise.resolve({ count: 0 });
+          }
+          lastUsedStep = data.mfaLastUsedStep;
+          return Promise.resolve({ count: 1 });
+        },
+      );
+
+      // T = 59s (step 1) gives 94287082 in the RFC, so 287082 with six digits
+      jest.useFakeTimers({ now: 59_000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('accepts the code of the current period and records its step', async () => {
+      await expect(mfaService.verifyUserTotp(user, '287082')).resolves.toBe(
+        true,
+      );
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: user.id,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: 1 } }],
+        },
+        data: { mfaLastUsedStep: 1 },
+      });
+    });
+
+    it('accepts the code of the previous period for clock drift', async () => {
+      jest.setSystemTime(89_000);
+
+      await expect(mfaService.verifyUserTotp(user, '287082')).resolves.toBe(
+        true,
+      );
+    });
+
+    it('rejects a wrong code', async () => {
+      await expect(mfaService.verifyUserTotp(user, '287083')).resolves.toBe(
+        false,
+      );
+      await expect(mfaService.verifyUserTotp(user, 'abcdef')).resolves.toBe(
+        false,
+      );
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects the code once its period and the drift window have passed', async () => {
+      jest.setSystemTime(120_000);
+
+      await expect(mfaService.verifyUserTotp(user, '287082')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('rejects a code whose step was already used', async () => {
+      await expect(
+        mfaService.verifyUserTotp({ ...user, mfaLastUsedStep: 1 }, '287082'),
+      ).resolves.toBe(false);
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('accepts a replayed code only once when both requests read the old step', async () => {
+      const results = await Promise.all([
+        mfaService.verifyUserTotp(user, '287082'),
+        mfaService.verifyUserTotp(user, '287082'),
+      ]);
+
+      expect(results.sort()).toEqual([false, true]);
+    });
+
+    it('rejects codes for a secret it cannot decrypt', async () => {
+      await expect(
+        mfaService.verifyUserTotp(
+          { ...user, mfaSecret: 'not:a:secret' },
+          '287082',
+        ),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('verifyAttemptTotp', () => {
+    it('records the step on the attempt and refuses it once used', async () => {
+      jest.useFakeTimers({ now: 59_000 });
+      const attempt = {
+        id: 'attempt-1',
+        mfaSecret: (
+          mfaService as unknown as {
+            encryptSecret: (secret: string) => string;
+          }
+        ).encryptSecret(rfcSecret),
+        mfaLastUsedStep: null,
+      } as SignupAttempt;
+      prisma.signupAttempt.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        mfaService.verifyAttemptTotp(attempt, '287082'),
+      ).resolves.toBe(true);
+      await expect(
+        mfaService.verifyAttemptTotp(
+          { ...attempt, mfaLastUsedStep: 1 },
+          '287082',
+        ),
+      ).resolves.toBe(false);
+      expect(prisma.signupAttempt.updateMany).toHaveBeenCalledTimes(1);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('consumeBackupCode', () => {
+    it('accepts a backup code once and then refuses it', async () => {
+      const {
+        codes: [code],
+        hashes: [hash],
+      } = mfaService.generateBackupCodes();
+      prisma.mfaBackupCode.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(mfaService.consumeBackupCode('user-1', code)).resolves.toBe(
+        true,
+      );
+      await expect(mfaService.consumeBackupCode('user-1', code)).resolves.toBe(
+        false,
+      );
+
+      // Only unused codes are marked, so the second attempt matches nothing
+      expect(prisma.mfaBackupCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: hash, usedAt: null },
+        data: { usedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('matches a code typed in lower case and without the dash', async () => {
+      const {
+        codes: [code],
+        hashes: [hash],
+      } = mfaService.generateBackupCodes();
+      prisma.mfaBackupCode.updateMany.mockResolvedValue({ count: 1 });
+
+      await mfaService.consumeBackupCode(
+        'user-1',
+        code.replace('-', '').toLowerCase(),
+      );
+
+      const [{ where }] = prisma.mfaBackupCode.updateMany.mock.calls[0] as [
+        { where: { codeHash: string } },
+      ];
+      expect(where.codeHash).toBe(hash);
+    });
+  });
+});
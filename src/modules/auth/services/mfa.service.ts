@@ -0,0 +1,320 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { Prisma, SignupAttempt, User } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+export interface MfaEnrollmentSecret {
+  secret: string; // base32, shown to the user for manual entry
+  encryptedSecret: string; // stored on the signup attempt / user
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export interface GeneratedBackupCodes {
+  codes: string[];
+  hashes: string[];
+}
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Generate a new TOTP secret with its otpauth:// URI and QR code
+   */
+  async createEnrollmentSecret(email: string): Promise<MfaEnrollmentSecret> {
+    const secret = this.base32Encode(crypto.randomBytes(20));
+    const issuer = this.configService.get<string>('MFA_ISSUER', 'Vritti');
+
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: TOTP_DIGITS.toString(),
+      period: TOTP_PERIOD_SECONDS.toString(),
+    });
+    const otpauthUri = `otpauth://totp/${label}?${params.toString()}`;
+
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+
+    return {
+      secret,
+      encryptedSecret: this.encryptSecret(secret),
+      otpauthUri,
+      qrCodeDataUrl,
+    };
+  }
+
+  /**
+   * Verify a user's TOTP code and record its time step, so neither it nor an
+   * earlier code is accepted again (RFC 6238 section 5.2)
+   */
+  async verifyUserTotp(user: User, code: string): Promise<boolean> {
+    const step = this.findTotpStep(user.mfaSecret, code, user.mfaLastUsedStep);
+    if (step === null) {
+      return false;
+    }
+
+    const claimed = await this.prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Verify the TOTP code confirming a signup attempt's enrollment and record
+   * its time step, as for users
+   */
+  async verifyAttemptTotp(
+    attempt: SignupAttempt,
+    code: string,
+  ): Promise<boolean> {
+    const step = this.findTotpStep(
+      attempt.mfaSecret,
+      code,
+      attempt.mfaLastUsedStep,
+    );
+    if (step === null) {
+      return false;
+    }
+
+    const claimed = await this.prisma.signupAttempt.updateMany({
+      where: {
+        id: attempt.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Generate one-time backup codes and their hashes
+   */
+  generateBackupCodes(): GeneratedBackupCodes {
+    const count = parseInt(
+      this.configService.get<string>('MFA_BACKUP_CODE_COUNT', '10'),
+      10,
+    );
+
+    const codes = Array.from({ length: count }, () => {
+      const raw = this.base32Encode(crypto.randomBytes(7)).slice(0, 10);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map((code) => this.hashBackupCode(code)) };
+  }
+
+  /**
+   * Consume an unused backup code for a user
+   */
+  async consumeBackupCode(userId: string, code: string): Promise<boolean> {
+    const result = await this.prisma.mfaBackupCode.updateMany({
+      where: { userId, codeHash: this.hashBackupCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      this.logger.log(`Backup code used for user ${userId}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Carry the MFA enrollment of a signup attempt over to the created user
+   */
+  async transferEnrollment(
+    attempt: SignupAttempt,
+    userId: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (!attempt.mfaEnabled || !attempt.mfaSecret) {
+      return;
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaSecret: attempt.mfaSecret,
+        mfaLastUsedStep: attempt.mfaLastUsedStep,
+      },
+    });
+
+    await tx.mfaBackupCode.createMany({
+      data: attempt.mfaBackupCodes.map((codeHash) => ({ userId, codeHash })),
+    });
+
+    this.logger.log(`Transferred MFA enrollment to user ${userId}`);
+  }
+
+  /**
+   * Time step a TOTP code matches, allowing one step of clock drift, or null;
+   * steps up to lastUsedStep are not matched
+   */
+  private findTotpStep(
+    encryptedSecret: string | null,
+    code: string,
+    lastUsedStep: number | null,
+  ): number | null {
+    if (!encryptedSecret || !/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    let secret: Buffer;
+    try {
+      secret = this.base32Decode(this.decryptSecret(encryptedSecret));
+    } catch (error) {
+      this.logger.error('Failed to decrypt MFA secret', error);
+      return null;
+    }
+
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+    const submitted = Buffer.from(code);
+
+    for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+      if (lastUsedStep !== null && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expected = Buffer.from(this.generateHotp(secret, step));
+      if (crypto.timingSafeEqual(expected, submitted)) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  private generateHotp(secret: Buffer, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto
+      .createHmac('sha1', secret)
+      .update(counterBuffer)
+      .digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  private hashBackupCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private getEncryptionKey(): Buffer {
+    return crypto
+      .createHash('sha256')
+      .update(this.configService.getOrThrow<string>('MFA_ENCRYPTION_KEY'))
+      .digest();
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv,
+    );
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf-8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64'))
+      .join(':');
+  }
+
+  private decryptSecret(encryptedSecret: string): string {
+    const [iv, authTag, ciphertext] = encryptedSecret
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv,
+    );
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf-8');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,236 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { OAuthClientService } from './oauth-client.service';
+import { OAuthStateTokenPayload, TokenService } from './token.service';
+
+describe('OAuthClientService', () => {
+  const issuer = 'https://idp.test';
+  const env: Record<string, string> = {
+    OAUTH_PROVIDERS: 'mock',
+    OAUTH_MOCK_CLIENT_ID: 'client-1',
+    OAUTH_MOCK_ISSUER: issuer,
+  };
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwtService = new JwtService();
+
+  let oauthClientService: OAuthClientService;
+  let tokenService: Record<string, jest.Mock>;
+  let tokenRequests: URLSearchParams[];
+  let idTokenNonce: string | undefined;
+
+  const signIdToken = (claims: Record<string, unknown>) =>
+    jwtService.sign(claims, {
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      algorithm: 'RS256',
+      keyid: 'key-1',
+      issuer,
+      audience: 'client-1',
+    });
+
+  const respond = (body: unknown) =>
+    Promise.resolve(new Response(JSON.stringify(body)));
+
+  beforeEach(async () => {
+    tokenRequests = [];
+    idTokenNonce = undefined;
+    tokenService = {
+      generateOAuthStateToken: jest.fn().mockReturnValue('state-token'),
+      verifyOAuthStateToken: jest.fn(),
+    };
+
+    jest.spyOn(global, 'fetch').mockImplementation((input, init) => {
+      switch (input as string) {
+        case `${issuer}/.well-known/openid-configuration`:
+          return respond({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+          });
+        case `${issuer}/jwks`:
+          return respond({
+            keys: [
+              {
+                ...publicKey.export({ format: 'jwk' }),
+                kid: 'key-1',
+                use: 'sig',
+              },
+            ],
+          });
+        case `${issuer}/token`:
+          tokenRequests.push(new URLSearchParams(init?.body as string));
+          return respond({
+            access_token: 'provider-access-token',
+            id_token: signIdToken({
+              sub: 'subject-1',
+              email: 'Person@Example.com',
+              email_verified: true,
+              ...(idTokenNonce && { nonce: idTokenNonce }),
+            }),
+          });
+        default:
+          return Promise.resolve(new Response(null, { status: 404 }));
+      }
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthClientService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, fallback?: string) => env[key] ?? fallback,
+            ),
+          },
+        },
+        { provide: JwtService, useValue: jwtService },
+        { provide: TokenService, useValue: tokenService },
+      ],
+    }).compile();
+
+    oauthClientService = module.get(OAuthClientService);
+    oauthClientService.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Start a login and have the state cookie come back with the callback
+   */
+  const startLogin = async (returnTo?: string) => {
+    const { url } = await oauthClientService.createAuthorizationRequest(
+      'mock',
+      returnTo,
+    );
+    const [pending] = tokenService.generateOAuthStateToken.mock.calls[0] as [
+      Omit<OAuthStateTokenPayload, 'type'>,
+    ];
+    tokenService.verifyOAuthStateToken.mockReturnValue({
+      ...pending,
+      type: 'oauth_state',
+    });
+
+    return { params: new URL(url).searchParams, pending };
+  };
+
+  describe('createAuthorizationRequest', () => {
+    it('sends an S256 challenge of the verifier kept in the state token', async () => {
+      const { params, pending } = await startLogin();
+
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toBe(
+        crypto
+          .createHash('sha256')
+          .update(pending.codeVerifier)
+          .digest('base64url'),
+      );
+      expect(params.get('state')).toBe(pending.state);
+      expect(params.get('nonce')).toBe(pending.nonce);
+      expect(params.get('redirect_uri')).toBe(
+        'http://localhost:3000/auth/oauth/mock/callback',
+      );
+    });
+
+    it('only keeps same-origin return paths', async () => {
+      const { pending } = await startLogin('//evil.example/steal');
+
+      expect(pending.returnTo).toBeUndefined();
+    });
+  });
+
+  describe('completeAuthorization', () => {
+    it('exchanges the code with the PKCE verifier and checks the nonce', async () => {
+      const { pending } = await startLogin('/settings');
+      idTokenNonce = pending.nonce;
+
+      const result = await oauthClientService.completeAuthorization(
+        'mock',
+        { code: 'code-1', state: pending.state },
+        'state-token',
+      );
+
+      expect(result).toEqual({
+        identity: {
+          provider: 'mock',
+          subject: 'subject-1',
+          email: 'person@example.com',
+          emailVerified: true,
+        },
+        returnTo: '/settings',
+      });
+      expect(tokenRequests[0].get('code_verifier')).toBe(pending.codeVerifier);
+    });
+
+    it('rejects a callback without the state cookie', async () => {
+      await expect(
+        oauthClientService.completeAuthorization('mock', {
+          code: 'code-1',
+          state: 'state',
+        }),
+      ).rejects.toThrow('Login request not found');
+    });
+
+    it('rejects a state that does not match the state token', async () => {
+      await startLogin();
+
+      await expect(
+        oauthClientService.completeAuthorization(
+          'mock',
+          { code: 'code-1', state: 'forged-state' },
+          'state-token',
+        ),
+      ).rejects.toThrow('Invalid login request state');
+      expect(tokenRequests).toHaveLength(0);
+    });
+
+    it('rejects a state token issued for another provider', async () => {
+      const { pending } = await startLogin();
+      tokenService.verifyOAuthStateToken.mockReturnValue({
+        ...pending,
+        type: 'oauth_state',
+        provider: 'other',
+      });
+
+      await expect(
+        oauthClientService.completeAuthorization(
+          'mock',
+          { code: 'code-1', state: pending.state },
+          'state-token',
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects an id_token whose nonce does not match', async () => {
+      const { pending } = await startLogin();
+      idTokenNonce = 'replayed-nonce';
+
+      await expect(
+        oauthClientService.completeAuthorization(
+          'mock',
+          { code: 'code-1', state: pending.state },
+          'state-token',
+        ),
+      ).rejects.toThrow('Invalid id_token nonce');
+    });
+
+    it('rejects an id_token without a nonce', async () => {
+      const { pending } = await startLogin();
+
+      await expect(
+        oauthClientService.completeAuthorization(
+          'mock',
+          { code: 'code-1', state: pending.state },
+          'state-token',
+        ),
+      ).rejects.toThrow('Invalid id_token nonce');
+    });
+  });
+});
@@ -0,0 +1,625 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { TokenService } from './token.service';
+import {
+  OAUTH_PROVIDER_PRESETS,
+  OAuthProviderPreset,
+} from '../constants/oauth-providers';
+
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: JwtVerifyOptions['algorithms'] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'ES256',
+  'PS256',
+];
+
+export interface OAuthProviderConfig extends OAuthProviderPreset {
+  name: string;
+  clientId: string;
+  clientSecret?: string;
+}
+
+/**
+ * Redirect to the provider plus the state token to keep in a cookie
+ */
+export interface OAuthAuthorizationRequest {
+  url: string;
+  stateToken: string;
+}
+
+export interface OAuthCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Verified account at the provider, as used for account linking
+ */
+export interface ExternalIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface CompletedAuthorization {
+  identity: ExternalIdentity;
+  returnTo?: string; // path on the frontend the login was started from
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+interface TokenEndpointResponse {
+  access_token?: string;
+  id_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface IdentityClaims {
+  sub?: string | number;
+  id?: string | number; // GitHub-style user id
+  nonce?: string;
+  email?: string | null;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string | null;
+}
+
+/**
+ * OAuth2 / OpenID Connect client for social login.
+ *
+ * OAUTH_PROVIDERS lists the enabled providers. Each is configured with
+ * OAUTH_<NAME>_CLIENT_ID and OAUTH_<NAME>_CLIENT_SECRET, on top of a preset
+ * for well-known providers; OAUTH_<NAME>_ISSUER (discovery),
+ * OAUTH_<NAME>_AUTHORIZATION_URL, _TOKEN_URL, _USERINFO_URL and _SCOPES
+ * configure any other provider, such as a local mock IdP.
+ * Uses the authorization code flow with PKCE (S256), state and nonce.
+ */
+@Injectable()
+export class OAuthClientService implements OnModuleInit {
+  private readonly logger = new Logger(OAuthClientService.name);
+  private readonly providers = new Map<string, OAuthProviderConfig>();
+  private readonly metadataCache = new Map<
+    string,
+    { metadata: OidcMetadata; expiresAt: number }
+  >();
+  private readonly jwksCache = new Map<
+    string,
+    { keys: Map<string, crypto.KeyObject>; expiresAt: number }
+  >();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  onModuleInit() {
+    const names = this.configService
+      .get<string>('OAUTH_PROVIDERS', '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    for (const name of names) {
+      const provider = this.loadProvider(name);
+      if (provider) {
+        this.providers.set(name, provider);
+        this.logger.log(`Social login enabled for ${name} (${provider.type})`);
+      }
+    }
+  }
+
+  getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Build the redirect to the provider's authorization endpoint
+   */
+  async createAuthorizationRequest(
+    providerName: string,
+    returnTo?: string,
+  ): Promise<OAuthAuthorizationRequest> {
+    const provider = this.getProvider(providerName);
+    const { authorizationUrl } = await this.getEndpoints(provider);
+
+    const state = crypto.randomBytes(16).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    const url = new URL(authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.getRedirectUri(provider));
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (provider.type === 'oidc') {
+      url.searchParams.set('nonce', nonce);
+    }
+
+    const stateToken = this.tokenService.generateOAuthStateToken({
+      provider: provider.name,
+      state,
+      nonce,
+      codeVerifier,
+      ...(returnTo && this.isRelativePath(returnTo) && { returnTo }),
+    });
+
+    return { url: url.toString(), stateToken };
+  }
+
+  /**
+   * Validate the callback against the state token, exchange the code and
+   * read the external identity
+   * Throws UnauthorizedException when the login cannot be trusted
+   */
+  async completeAuthorization(
+    providerName: string,
+    params: OAuthCallbackParams,
+    stateToken?: string,
+  ): Promise<CompletedAuthorization> {
+    const provider = this.getProvider(providerName);
+
+    if (params.error) {
+      this.logger.warn(`${provider.name} returned error ${params.error}`);
+      throw new UnauthorizedException(
+        params.error_description || `Login was not completed: ${params.error}`,
+      );
+    }
+
+    if (!stateToken) {
+      throw new UnauthorizedException('Login request not found');
+    }
+    const pending = this.tokenService.verifyOAuthStateToken(stateToken);
+
+    if (
+      pending.provider !== provider.name ||
+      !params.state ||
+      !this.safeEqual(params.state, pending.state)
+    ) {
+      this.logger.warn(`State mismatch on ${provider.name} callback`);
+      throw new UnauthorizedException('Invalid login request state');
+    }
+
+    if (!params.code) {
+      throw new UnauthorizedException('Authorization code missing');
+    }
+
+    const tokens = await this.exchangeCode(
+      provider,
+      params.code,
+      pending.codeVerifier,
+    );
+
+    const identity =
+      provider.type === 'oidc'
+        ? await this.readOidcIdentity(provider, tokens, pending.nonce)
+        : await this.readOAuth2Identity(provider, tokens);
+
+    this.logger.log(
+      `Verified ${provider.name} identity ${identity.subject} (email verified: ${identity.emailVerified})`,
+    );
+
+    return { identity, returnTo: pending.returnTo };
+  }
+
+  /**
+   * Frontend page the callback redirects to, with the outcome in the URL
+   * fragment so tokens never reach server logs or Referer headers
+   */
+  buildResultUrl(params: Record<string, string | undefined>): string {
+    const url = new URL(
+      this.configService.get<string>(
+        'OAUTH_RESULT_URL',
+        'http://localhost:5173/auth/callback',
+      ),
+    );
+
+    const fragment = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        fragment.set(key, value);
+      }
+    }
+    url.hash = fragment.toString();
+
+    return url.toString();
+  }
+
+  private getProvider(name: string): OAuthProviderConfig {
+    const provider = this.providers.get(name.toLowerCase());
+    if (!provider) {
+      throw new NotFoundException(`Unknown login provider ${name}`);
+    }
+    return provider;
+  }
+
+  private loadProvider(name: string): OAuthProviderConfig | null {
+    const prefix = `OAUTH_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const env = (key: string) =>
+      this.configService.get<string>(`${prefix}${key}`) || undefined;
+
+    const clientId = env('CLIENT_ID');
+    if (!clientId) {
+      this.logger.warn(`${prefix}CLIENT_ID is not set, skipping ${name}`);
+      return null;
+    }
+
+    const preset = OAUTH_PROVIDER_PRESETS[name];
+    const issuer = env('ISSUER') ?? preset?.issuer;
+    const type = preset?.type ?? (issuer ? 'oidc' : 'oauth2');
+    const scopes = env('SCOPES')
+      ?.split(/[\s,]+/)
+      .filter(Boolean) ??
+      preset?.scopes ?? ['openid', 'email', 'profile'];
+
+    const provider: OAuthProviderConfig = {
+      name,
+      type,
+      clientId,
+      clientSecret: env('CLIENT_SECRET'),
+      issuer: issuer?.replace(/\/$/, ''),
+      authorizationUrl: env('AUTHORIZATION_URL') ?? preset?.authorizationUrl,
+      tokenUrl: env('TOKEN_URL') ?? preset?.tokenUrl,
+      userInfoUrl: env('USERINFO_URL') ?? preset?.userInfoUrl,
+      emailsUrl: env('EMAILS_URL') ?? preset?.emailsUrl,
+      scopes,
+    };
+
+    if (type === 'oidc' && !provider.issuer) {
+      throw new Error(`${prefix}ISSUER is required for OIDC provider ${name}`);
+    }
+    if (
+      type === 'oauth2' &&
+      (!provider.authorizationUrl ||
+        !provider.tokenUrl ||
+        !provider.userInfoUrl)
+    ) {
+      throw new Error(
+        `${prefix}AUTHORIZATION_URL, ${prefix}TOKEN_URL and ${prefix}USERINFO_URL are required for OAuth2 provider ${name}`,
+      );
+    }
+
+    return provider;
+  }
+
+  private getRedirectUri(provider: OAuthProviderConfig): string {
+    const baseUrl = this.configService
+      .get<string>('OAUTH_REDIRECT_BASE_URL', 'http://localhost:3000')
+      .replace(/\/$/, '');
+
+    return `${baseUrl}/auth/oauth/${provider.name}/callback`;
+  }
+
+  /**
+   * Endpoints of the provider, discovered for OIDC unless configured explicitly
+   */
+  private async getEndpoints(provider: OAuthProviderConfig): Promise<{
+    authorizationUrl: string;
+    tokenUrl: string;
+    userInfoUrl?: string;
+  }> {
+    if (provider.type === 'oauth2') {
+      return {
+        authorizationUrl: provider.authorizationUrl!,
+        tokenUrl: provider.tokenUrl!,
+        userInfoUrl: provider.userInfoUrl,
+      };
+    }
+
+    const metadata = await this.getOidcMetadata(provider);
+    return {
+      authorizationUrl:
+        provider.authorizationUrl ?? metadata.authorization_endpoint,
+      tokenUrl: provider.tokenUrl ?? metadata.token_endpoint,
+      userInfoUrl: provider.userInfoUrl ?? metadata.userinfo_endpoint,
+    };
+  }
+
+  private async getOidcMetadata(
+    provider: OAuthProviderConfig,
+  ): Promise<OidcMetadata> {
+    const cached = this.metadataCache.get(provider.name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata;
+    }
+
+    const metadata = await this.fetchJson<OidcMetadata>(
+      `${provider.issuer}/.well-known/openid-configuration`,
+    );
+    if (metadata.issuer.replace(/\/$/, '') !== provider.issuer) {
+      throw new Error(
+        `Discovery document issuer ${metadata.issuer} does not match ${provider.issuer}`,
+      );
+    }
+
+    this.metadataCache.set(provider.name, {
+      metadata,
+      expiresAt: Date.now() + METADATA_CACHE_MS,
+    });
+
+    return metadata;
+  }
+
+  private async exchangeCode(
+    provider: OAuthProviderConfig,
+    code: string,
+    codeVerifier: string,
+  ): Promise<TokenEndpointResponse> {
+    const { tokenUrl } = await this.getEndpoints(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider),
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const tokens = await this.fetchJson<TokenEndpointResponse>(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+
+    if (tokens.error || !tokens.access_token) {
+      this.logger.warn(
+        `${provider.name} code exchange failed: ${tokens.error ?? 'no access token'}`,
+      );
+      throw new UnauthorizedException(
+        tokens.error_description || 'Authorization code exchange failed',
+      );
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Identity from the verified id_token, completed from userinfo if the
+   * token carries no email
+   */
+  private async readOidcIdentity(
+    provider: OAuthProviderConfig,
+    tokens: TokenEndpointResponse,
+    nonce: string,
+  ): Promise<ExternalIdentity> {
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('Provider did not return an id_token');
+    }
+
+    const claims = await this.verifyIdToken(provider, tokens.id_token);
+
+    if (!claims.nonce || !this.safeEqual(claims.nonce, nonce)) {
+      this.logger.warn(`Nonce mismatch on ${provider.name} id_token`);
+      throw new UnauthorizedException('Invalid id_token nonce');
+    }
+
+    const { userInfoUrl } = await this.getEndpoints(provider);
+    if (!claims.email && userInfoUrl) {
+      const userInfo = await this.fetchJson<IdentityClaims>(userInfoUrl, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+
+      // userinfo must describe the same subject as the id_token
+      if (String(userInfo.sub) === String(claims.sub)) {
+        Object.assign(claims, {
+          email: userInfo.email,
+          email_verified: userInfo.email_verified,
+          given_name: claims.given_name ?? userInfo.given_name,
+          family_name: claims.family_name ?? userInfo.family_name,
+          name: claims.name ?? userInfo.name,
+        });
+      }
+    }
+
+    return this.toIdentity(provider, claims);
+  }
+
+  private async verifyIdToken(
+    provider: OAuthProviderConfig,
+    idToken: string,
+  ): Promise<IdentityClaims> {
+    const metadata = await this.getOidcMetadata(provider);
+    const decoded = this.jwtService.decode<{
+      header: { kid?: string };
+    } | null>(idToken, { complete: true });
+
+    const publicKey = await this.getJwksKey(
+      provider,
+      metadata.jwks_uri,
+      decoded?.header.kid,
+    );
+
+    try {
+      const options: JwtVerifyOptions = {
+        publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: provider.clientId,
+      };
+      return this.jwtService.verify<IdentityClaims>(idToken, options);
+    } catch (error) {
+      this.logger.warn(
+        `Invalid ${provider.name} id_token: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new UnauthorizedException('Invalid id_token');
+    }
+  }
+
+  /**
+   * Key from the provider's JWKS, refetched once when the kid is unknown
+   * (the provider may have rotated its keys)
+   */
+  private async getJwksKey(
+    provider: OAuthProviderConfig,
+    jwksUri: string,
+    kid?: string,
+  ): Promise<crypto.KeyObject> {
+    const findKey = (keys: Map<string, crypto.KeyObject>) =>
+      kid ? keys.get(kid) : keys.size === 1 ? [...keys.values()][0] : undefined;
+
+    const cached = this.jwksCache.get(provider.name);
+    const cachedKey =
+      cached && cached.expiresAt > Date.now()
+        ? findKey(cached.keys)
+        : undefined;
+    if (cachedKey) {
+      return cachedKey;
+    }
+
+    const jwks = await this.fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri);
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const jwk of jwks.keys) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      try {
+        keys.set(
+          typeof jwk.kid === 'string' ? jwk.kid : '',
+          crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+        );
+      } catch {
+        this.logger.warn(`Ignoring unsupported ${provider.name} JWK`);
+      }
+    }
+
+    this.jwksCache.set(provider.name, {
+      keys,
+      expiresAt: Date.now() + METADATA_CACHE_MS,
+    });
+
+    const key = findKey(keys);
+    if (!key) {
+      throw new UnauthorizedException('id_token signed with an unknown key');
+    }
+    return key;
+  }
+
+  /**
+   * Identity from the userinfo endpoint, plus the email list where the
+   * provider does not report email verification in the profile
+   */
+  private async readOAuth2Identity(
+    provider: OAuthProviderConfig,
+    tokens: TokenEndpointResponse,
+  ): Promise<ExternalIdentity> {
+    const headers = { Authorization: `Bearer ${tokens.access_token}` };
+    const claims = await this.fetchJson<IdentityClaims>(provider.userInfoUrl!, {
+      headers,
+    });
+
+    if (provider.emailsUrl) {
+      const emails = await this.fetchJson<
+        { email: string; primary: boolean; verified: boolean }[]
+      >(provider.emailsUrl, { headers });
+
+      const primary =
+        emails.find((entry) => entry.primary && entry.verified) ??
+        emails.find((entry) => entry.verified);
+
+      claims.email = primary?.email ?? claims.email;
+      claims.email_verified = !!primary;
+    }
+
+    return this.toIdentity(provider, claims);
+  }
+
+  private toIdentity(
+    provider: OAuthProviderConfig,
+    claims: IdentityClaims,
+  ): ExternalIdentity {
+    const subject = claims.sub ?? claims.id;
+    if (subject === undefined || subject === '') {
+      throw new UnauthorizedException('Provider did not identify the user');
+    }
+
+    // Split a display name when given/family names are not provided
+    const [firstName, ...rest] = (claims.name ?? '').trim().split(/\s+/);
+
+    return {
+      provider: provider.name,
+      subject: String(subject),
+      email: claims.email?.toLowerCase() || undefined,
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === 'true',
+      firstName: claims.given_name || firstName || undefined,
+      lastName: claims.family_name || rest.join(' ') || undefined,
+    };
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const timeoutMs = parseInt(
+      this.configService.get<string>('OAUTH_HTTP_TIMEOUT_MS', '10000'),
+      10,
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          'User-Agent': 'Vritti',
+          ...init.headers,
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      this.logger.error(`Request to ${url} failed`, error);
+      throw new UnauthorizedException('Login provider is unavailable');
+    }
+
+    // Token endpoints report OAuth errors as JSON with a 400 status
+    if (!response.ok && response.status !== 400) {
+      this.logger.error(`Request to ${url} returned ${response.status}`);
+      throw new UnauthorizedException('Login provider request failed');
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Only same-origin paths may be returned to, never another site
+   */
+  private isRelativePath(path: string): boolean {
+    return /^\/(?![/\\])/.test(path);
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+}
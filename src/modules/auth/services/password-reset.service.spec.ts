@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PasswordResetService } from './password-reset.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('PasswordResetService', () => {
+  let passwordResetService: PasswordResetService;
+  let prisma: {
+    $transaction: jest.Mock;
+    passwordResetToken: Record<string, jest.Mock>;
+  };
+
+  const sha256 = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      passwordResetToken: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ id: 'reset-1', userId: 'user-1' }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    passwordResetService = module.get(PasswordResetService);
+  });
+
+  it('stores only a hash of the token and retires earlier tokens', async () => {
+    const { token } = await passwordResetService.issueToken('user-1');
+
+    expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', usedAt: null },
+      data: { usedAt: expect.any(Date) as Date },
+    });
+    expect(prisma.passwordResetToken.create).toHaveBeenCalledWith({
+      data: {
+        userId: 'user-1',
+        tokenHash: sha256(token),
+        expiresAt: expect.any(Date) as Date,
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('consumes an unused token and returns its user', async () => {
+    await expect(passwordResetService.consumeToken('token')).resolves.toBe(
+      'user-1',
+    );
+
+    expect(prisma.passwordResetToken.findUnique).toHaveBeenCalledWith({
+      where: { tokenHash: sha256('token') },
+    });
+    expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'reset-1',
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) as Date },
+      },
+      data: { usedAt: expect.any(Date) as Date },
+    });
+  });
+
+  it('refuses a token that is already used or expired', async () => {
+    prisma.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      passwordResetService.consumeToken('token'),
+    ).resolves.toBeNull();
+  });
+
+  it('refuses an unknown token', async () => {
+    prisma.passwordResetToken.findUnique.mockResolvedValue(null);
+
+    await expect(
+      passwordResetService.consumeToken('token'),
+    ).resolves.toBeNull();
+    expect(prisma.passwordResetToken.updateMany).not.toHaveBeenCalled();
+  });
+});
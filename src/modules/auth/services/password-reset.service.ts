@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+
+export interface IssuedPasswordResetToken {
+  token: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a new reset token for a user, invalidating any previous unused token
+   */
+  async issueToken(userId: string): Promise<IssuedPasswordResetToken> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const ttlMinutes = parseInt(
+      this.configService.get<string>('PASSWORD_RESET_TTL_MINUTES', '30'),
+      10,
+    );
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await this.prisma.$transaction([
+      this.prisma.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: { userId, tokenHash: this.hashToken(token), expiresAt },
+      }),
+    ]);
+
+    this.logger.log(`Issued password reset token for user ${userId}`);
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Consume an unused, unexpired reset token
+   * Returns the owning user id, or null if the token cannot be used
+   */
+  async consumeToken(
+    token: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<string | null> {
+    const tokenHash = this.hashToken(token);
+
+    const record = await tx.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    // Conditional update so concurrent requests cannot use the token twice
+    const result = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      this.logger.warn(`Password reset token ${record.id} is used or expired`);
+      return null;
+    }
+
+    return record.userId;
+  }
+
+  /**
+   * Build the link sent in the reset email
+   */
+  buildResetUrl(token: string): string {
+    const url = new URL(
+      this.configService.get<string>(
+        'PASSWORD_RESET_URL',
+        'http://localhost:5173/reset-password',
+      ),
+    );
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
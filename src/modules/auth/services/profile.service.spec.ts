@@ -0,0 +1,166 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, User } from '@prisma/client';
+import { ProfileService } from './profile.service';
+import { SignupAttemptService } from './signup-attempt.service';
+import { TokenService } from './token.service';
+import { EmailChangeService } from './email-change.service';
+import { AuthEventService, AuthEventType } from './auth-event.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MailService } from '../../mail/mail.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+
+describe('ProfileService', () => {
+  let profileService: ProfileService;
+  let prisma: { $transaction: jest.Mock; user: Record<string, jest.Mock> };
+  let signupAttemptService: Record<string, jest.Mock>;
+  let tokenService: Record<string, jest.Mock>;
+  let emailChangeService: Record<string, jest.Mock>;
+  let authEventService: Record<string, jest.Mock>;
+
+  const user = {
+    id: 'user-1',
+    email: 'old@example.com',
+    passwordHash: 'hash',
+  } as User;
+  const context = { ipAddress: '10.0.0.1', userAgent: 'Browser' };
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
+      user: {
+        update: jest.fn(({ data }: { data: Partial<User> }) => ({
+          ...user,
+          ...data,
+        })),
+      },
+    };
+    signupAttemptService = {
+      verifyPassword: jest.fn().mockResolvedValue(true),
+      hashPassword: jest.fn().mockResolvedValue('new-hash'),
+      checkUserExists: jest.fn().mockResolvedValue(false),
+    };
+    tokenService = { revokeOtherSessions: jest.fn() };
+    emailChangeService = {
+      consumeToken: jest.fn().mockResolvedValue({
+        id: 'change-1',
+        userId: user.id,
+        newEmail: 'new@example.com',
+      }),
+      issueToken: jest.fn(),
+      buildConfirmUrl: jest.fn(),
+    };
+    authEventService = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfileService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SignupAttemptService, useValue: signupAttemptService },
+        { provide: TokenService, useValue: tokenService },
+        { provide: EmailChangeService, useValue: emailChangeService },
+        { provide: AuthEventService, useValue: authEventService },
+        { provide: MailService, useValue: { send: jest.fn() } },
+      ],
+    }).compile();
+
+    profileService = module.get(ProfileService);
+  });
+
+  describe('changePassword', () => {
+    const dto = { currentPassword: 'old-password', newPassword: 'New-pass1!' };
+
+    it('rejects a wrong current password and changes nothing', async () => {
+      signupAttemptService.verifyPassword.mockResolvedValue(false);
+
+      await expect(
+        profileService.changePassword(user, 'session-1', dto, context),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(signupAttemptService.verifyPassword).toHaveBeenCalledWith(
+        dto.currentPassword,
+        user.passwordHash,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(tokenService.revokeOtherSessions).not.toHaveBeenCalled();
+    });
+
+    it('stores the new hash and signs out every session but the current one', async () => {
+      await profileService.changePassword(user, 'session-1', dto, context);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: user.id },
+        data: { passwordHash: 'new-hash' },
+      });
+      expect(tokenService.revokeOtherSessions).toHaveBeenCalledWith(
+        user.id,
+        'session-1',
+        RefreshTokenRevokedReason.PASSWORD_CHANGED,
+        { actorId: user.id, context },
+      );
+      expect(authEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: AuthEventType.PASSWORD_CHANGED,
+          sessionId: 'session-1',
+        }),
+      );
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('rejects a wrong current password before issuing a token', async () => {
+      signupAttemptService.verifyPassword.mockResolvedValue(false);
+
+      await expect(
+        profileService.requestEmailChange(user, {
+          newEmail: 'new@example.com',
+          currentPassword: 'wrong',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(emailChangeService.issueToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('switches to the new email with the token of this user', async () => {
+      const updated = await profileService.confirmEmailChange(
+        user,
+        'token',
+        context,
+      );
+
+      expect(emailChangeService.consumeToken).toHaveBeenCalledWith(
+        user.id,
+        'token',
+        prisma,
+      );
+      expect(updated).toMatchObject({
+        email: 'new@example.com',
+        emailVerified: true,
+      });
+    });
+
+    it('rejects a token that cannot be used', async () => {
+      emailChangeService.consumeToken.mockResolvedValue(null);
+
+      await expect(
+        profileService.confirmEmailChange(user, 'token', context),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('reports a conflict when the email was taken in the meantime', async () => {
+      prisma.user.update.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(
+        profileService.confirmEmailChange(user, 'token', context),
+      ).rejects.toThrow(ConflictException);
+      expect(authEventService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MailService } from '../../mail/mail.service';
+import { SignupAttemptService } from './signup-attempt.service';
+import { SessionContext, TokenService } from './token.service';
+import { EmailChangeService } from './email-change.service';
+import { AuthEventService, AuthEventType } from './auth-event.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+import { UserDataDto } from '../dto/refresh-response.dto';
+import {
+  ChangePasswordDto,
+  RequestEmailChangeDto,
+  UpdateProfileDto,
+} from '../dto/profile.dto';
+
+/**
+ * Self-service changes to the signed-in user's own account
+ * Failures are thrown as HTTP exceptions for the controller to report
+ */
+@Injectable()
+export class ProfileService {
+  private readonly logger = new Logger(ProfileService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly signupAttemptService: SignupAttemptService,
+    private readonly tokenService: TokenService,
+    private readonly emailChangeService: EmailChangeService,
+    private readonly authEventService: AuthEventService,
+    private readonly mailService: MailService,
+  ) {}
+
+  getProfile(user: User): UserDataDto {
+    return this.toUserData(user);
+  }
+
+  async updateProfile(user: User, dto: UpdateProfileDto): Promise<UserDataDto> {
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { firstName: dto.firstName, lastName: dto.lastName },
+    });
+
+    this.logger.log(`User ${user.id} updated their profile`);
+
+    return this.toUserData(updated);
+  }
+
+  /**
+   * Change the password and sign out every other session
+   */
+  async changePassword(
+    user: User,
+    sessionId: string | undefined,
+    dto: ChangePasswordDto,
+    context: SessionContext,
+  ): Promise<void> {
+    await this.assertCurrentPassword(user, dto.currentPassword);
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: await this.signupAttemptService.hashPassword(
+          dto.newPassword,
+        ),
+      },
+    });
+
+    await this.tokenService.revokeOtherSessions(
+      user.id,
+      sessionId,
+      RefreshTokenRevokedReason.PASSWORD_CHANGED,
+      { actorId: user.id, context },
+    );
+
+    this.authEventService.record({
+      type: AuthEventType.PASSWORD_CHANGED,
+      userId: user.id,
+      actorId: user.id,
+      sessionId,
+      context,
+    });
+    this.logger.log(`User ${user.id} changed their password`);
+
+    await this.notify(
+      user.email,
+      'Your password was changed',
+      'The password for your account was just changed and your other sessions were signed out.\n\n' +
+        'If you did not do this, reset your password and contact support immediately.',
+    );
+  }
+
+  /**
+   * Email a confirmation link to the new address and warn the current one
+   * The current email stays in use until the link is confirmed
+   */
+  async requestEmailChange(
+    user: User,
+    dto: RequestEmailChangeDto,
+  ): Promise<void> {
+    const newEmail = dto.newEmail.toLowerCase();
+
+    if (newEmail === user.email.toLowerCase()) {
+      throw new BadRequestException('This is already your email address');
+    }
+
+    await this.assertCurrentPassword(user, dto.currentPassword);
+    await this.assertEmailAvailable(newEmail);
+
+    const { token, expiresAt } = await this.emailChangeService.issueToken(
+      user.id,
+      newEmail,
+    );
+    const ttlMinutes = Math.round((expiresAt.getTime() - Date.now()) / 60000);
+
+    this.logger.log(`User ${user.id} requested an email change`);
+
+    await this.notify(
+      newEmail,
+      'Confirm your new email address',
+      `Confirm this address for your account using this link:\n\n${this.emailChangeService.buildConfirmUrl(token)}\n\n` +
+        `It expires in ${ttlMinutes} minutes. If you did not request it, you can ignore this email.`,
+    );
+    await this.notify(
+      user.email,
+      'Email change requested',
+      `A change of your account email to ${newEmail} was requested. Your current address stays active until the change is confirmed.\n\n` +
+        'If you did not do this, change your password and contact support immediately.',
+    );
+  }
+
+  /**
+   * Switch to the new email once its confirmation link is used
+   */
+  async confirmEmailChange(
+    user: User,
+    token: string,
+    context: SessionContext,
+  ): Promise<UserDataDto> {
+    let updated: User | null;
+    try {
+      updated = await this.prisma.$transaction(async (tx) => {
+        const record = await this.emailChangeService.consumeToken(
+          user.id,
+          token,
+          tx,
+        );
+        if (!record) {
+          return null;
+        }
+
+        return tx.user.update({
+          where: { id: user.id },
+          data: { email: record.newEmail, emailVerified: true },
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'An account with this email already exists',
+        );
+      }
+      throw error;
+    }
+
+    if (!updated) {
+      throw new BadRequestException('Invalid or expired email change token');
+    }
+
+    this.authEventService.record({
+      type: AuthEventType.EMAIL_CHANGED,
+      userId: user.id,
+      actorId: user.id,
+      context,
+      metadata: { from: user.email, to: updated.email },
+    });
+    this.logger.log(`User ${user.id} changed their email`);
+
+    await this.notify(
+      user.email,
+      'Your email address was changed',
+      `The email address of your account was changed to ${updated.email}. This address will no longer receive account emails.\n\n` +
+        'If you did not do this, contact support immediately.',
+    );
+
+    return this.toUserData(updated);
+  }
+
+  private async assertCurrentPassword(
+    user: User,
+    password: string,
+  ): Promise<void> {
+    const valid = await this.signupAttemptService.verifyPassword(
+      password,
+      user.passwordHash,
+    );
+
+    if (!valid) {
+      this.logger.warn(`User ${user.id} gave an incorrect current password`);
+      throw new BadRequestException('Current password is incorrect');
+    }
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const exists = await this.signupAttemptService.checkUserExists(email);
+    if (exists) {
+      throw new ConflictException('An account with this email already exists');
+    }
+  }
+
+  /**
+   * Send an account notice; delivery failures are only logged
+   */
+  private async notify(to: string, subject: string, text: string) {
+    try {
+      await this.mailService.send({ to, subject, text });
+    } catch (error) {
+      this.logger.error(`Failed to send "${subject}" email`, error);
+    }
+  }
+
+  private toUserData(user: User): UserDataDto {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      emailVerified: user.emailVerified,
+      status: user.status,
+    };
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SystemRole } from '../constants/permissions';
+import { AuthEventService, AuthEventType } from './auth-event.service';
+import { CreateRoleDto } from '../dto/role.dto';
+import { RoleDto, UserRoleDto } from '../dto/role-response.dto';
+
+/**
+ * Roles and permissions a user holds
+ */
+export interface UserAuthorization {
+  roles: string[];
+  permissions: string[];
+}
+
+/**
+ * User attached to the request by JwtAuthGuard, with roles and permissions
+ * read from the database on every request (never from the token)
+ */
+export type AuthenticatedUser = User & UserAuthorization;
+
+const roleWithPermissions = {
+  include: { permissions: { include: { permission: true } } },
+} satisfies Prisma.RoleDefaultArgs;
+
+type RoleWithPermissions = Prisma.RoleGetPayload<typeof roleWithPermissions>;
+
+@Injectable()
+export class RoleService {
+  private readonly logger = new Logger(RoleService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly authEventService: AuthEventService,
+  ) {}
+
+  /**
+   * Current roles and permissions of a user: assigned roles, plus the admin
+   * role for users listed in ADMIN_EMAILS
+   */
+  async getUserAuthorization(user: User): Promise<UserAuthorization> {
+    const roles = await this.prisma.role.findMany({
+      where: {
+        OR: [
+          { users: { some: { userId: user.id } } },
+          ...(this.isBootstrapAdmin(user) ? [{ name: SystemRole.ADMIN }] : []),
+        ],
+      },
+      orderBy: { name: 'asc' },
+      ...roleWithPermissions,
+    });
+
+    return {
+      roles: roles.map((role) => role.name),
+      permissions: [
+        ...new Set(
+          roles.flatMap((role) =>
+            role.permissions.map(({ permission }) => permission.name),
+          ),
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Roles to embed in access tokens, or undefined unless JWT_ROLES_CLAIM is
+   * enabled. The claim is informational for other services; it is not
+   * trusted here and goes stale until the token is refreshed.
+   */
+  async getRolesClaim(user: User): Promise<string[] | undefined> {
+    if (this.configService.get<string>('JWT_ROLES_CLAIM', 'false') !== 'true') {
+      return undefined;
+    }
+
+    return (await this.getUserAuthorization(user)).roles;
+  }
+
+  async listRoles(): Promise<RoleDto[]> {
+    const roles = await this.prisma.role.findMany({
+      orderBy: { name: 'asc' },
+      ...roleWithPermissions,
+    });
+    return roles.map((role) => this.toDto(role));
+  }
+
+  async createRole(dto: CreateRoleDto): Promise<RoleDto> {
+    try {
+      const role = await this.prisma.role.create({
+        data: {
+          name: dto.name,
+          description: dto.description,
+          permissions: {
+            create: dto.permissions.map((name) => ({
+              permission: { connect: { name } },
+            })),
+          },
+        },
+        ...roleWithPermissions,
+      });
+
+      this.logger.log(`Created role ${role.name}`);
+
+      return this.toDto(role);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(`Role ${dto.name} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async getUserRoles(userId: string): Promise<UserRoleDto[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { roles: { include: { role: true } } },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`Unknown user ${userId}`);
+    }
+
+    return user.roles
+      .map((assignment) => ({
+        role: assignment.role.name,
+        assignedAt: assignment.assignedAt,
+        assignedById: assignment.assignedById,
+      }))
+      .sort((a, b) => a.role.localeCompare(b.role));
+  }
+
+  /**
+   * Assign a role to a user; assigning a role the user already has is a no-op
+   */
+  async assignRole(
+    userId: string,
+    roleName: string,
+    actorId: string,
+  ): Promise<void> {
+    const [user, role] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId } }),
+      this.prisma.role.findUnique({ where: { name: roleName } }),
+    ]);
+
+    if (!user) {
+      throw new NotFoundException(`Unknown user ${userId}`);
+    }
+    if (!role) {
+      throw new NotFoundException(`Unknown role ${roleName}`);
+    }
+
+    await this.prisma.userRole.upsert({
+      where: { userId_roleId: { userId, roleId: role.id } },
+      create: { userId, roleId: role.id, assignedById: actorId },
+      update: {},
+    });
+
+    this.logger.log(`User ${actorId} assigned role ${roleName} to ${userId}`);
+
+    this.authEventService.record({
+      type: AuthEventType.ROLE_ASSIGNED,
+      userId,
+      actorId,
+      metadata: { role: roleName },
+    });
+  }
+
+  /**
+   * Revoke a role; takes effect on the user's next request
+   */
+  async revokeRole(
+    userId: string,
+    roleName: string,
+    actorId: string,
+  ): Promise<void> {
+    const result = await this.prisma.userRole.deleteMany({
+      where: { userId, role: { name: roleName } },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(
+        `User ${userId} does not have role ${roleName}`,
+      );
+    }
+
+    this.logger.log(`User ${actorId} revoked role ${roleName} from ${userId}`);
+
+    this.authEventService.record({
+      type: AuthEventType.ROLE_REVOKED,
+      userId,
+      actorId,
+      metadata: { role: roleName },
+    });
+  }
+
+  private isBootstrapAdmin(user: User): boolean {
+    return this.configService
+      .get<string>('ADMIN_EMAILS', '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean)
+      .includes(user.email.toLowerCase());
+  }
+
+  private toDto(role: RoleWithPermissions): RoleDto {
+    return {
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions.map(({ permission }) => permission.name),
+      createdAt: role.createdAt,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionService } from './session.service';
+import { TokenService } from './token.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  let prisma: { refreshToken: Record<string, jest.Mock> };
+
+  const at = (minutesAgo: number) =>
+    new Date(Date.now() - minutesAgo * 60 * 1000);
+  const token = (
+    id: string,
+    sessionId: string,
+    createdMinutesAgo: number,
+    lastUsedMinutesAgo: number | null = null,
+  ) => ({
+    id,
+    sessionId,
+    userAgent: `Browser ${id}`,
+    ipAddress: '10.0.0.1',
+    platform: 'web',
+    createdAt: at(createdMinutesAgo),
+    lastUsedAt: lastUsedMinutesAgo === null ? null : at(lastUsedMinutesAgo),
+    expiresAt: at(-60),
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-11-10T12:00:00Z') });
+    prisma = {
+      refreshToken: {
+        findMany: jest.fn().mockResolvedValue([]),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: {} },
+      ],
+    }).compile();
+
+    sessionService = module.get(SessionService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('listSessions', () => {
+    it('reads only live tokens of the user, newest first', async () => {
+      await sessionService.listSessions('user-1');
+
+      expect(prisma.refreshToken.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          revoked: false,
+          expiresAt: { gt: expect.any(Date) as Date },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    });
+
+    it('lists the tokens of one session as a single entry from its newest token', async () => {
+      // Two live tokens of session-1, e.g. inside the rotation grace window
+      prisma.refreshToken.findMany.mockResolvedValue([
+        token('token-3', 'session-1', 1, 1),
+        token('token-2', 'session-1', 20, 5),
+      ]);
+      prisma.refreshToken.groupBy.mockResolvedValue([
+        { sessionId: 'session-1', _min: { createdAt: at(120) } },
+      ]);
+
+      const { sessions } = await sessionService.listSessions('user-1');
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        id: 'session-1',
+        userAgent: 'Browser token-3',
+        lastUsedAt: at(1),
+      });
+    });
+
+    it('dates each session from the first token of its rotation chain', async () => {
+      prisma.refreshToken.findMany.mockResolvedValue([
+        token('token-3', 'session-1', 1),
+        token('token-9', 'session-2', 2),
+      ]);
+      prisma.refreshToken.groupBy.mockResolvedValue([
+        { sessionId: 'session-1', _min: { createdAt: at(120) } },
+      ]);
+
+      const { sessions } = await sessionService.listSessions('user-1');
+
+      // Revoked, rotated tokens count towards the start time
+      expect(prisma.refreshToken.groupBy).toHaveBeenCalledWith({
+        by: ['sessionId'],
+        where: {
+          userId: 'user-1',
+          sessionId: { in: ['session-1', 'session-2'] },
+        },
+        _min: { createdAt: true },
+      });
+      const createdAt = Object.fromEntries(
+        sessions.map((session) => [session.id, session.createdAt]),
+      );
+      expect(createdAt).toEqual({
+        'session-1': at(120),
+        // Falls back to the live token when no start time was found
+        'session-2': at(2),
+      });
+    });
+
+    it('flags the session of the caller as current', async () => {
+      prisma.refreshToken.findMany.mockResolvedValue([
+        token('token-1', 'session-1', 10),
+        token('token-2', 'session-2', 20),
+      ]);
+
+      const { sessions } = await sessionService.listSessions(
+        'user-1',
+        'session-2',
+      );
+
+      expect(sessions.map((session) => [session.id, session.current])).toEqual([
+        ['session-1', false],
+        ['session-2', true],
+      ]);
+    });
+
+    it('orders sessions by last use, most recent first', async () => {
+      prisma.refreshToken.findMany.mockResolvedValue([
+        token('token-1', 'session-1', 5),
+        token('token-2', 'session-2', 30, 2),
+        token('token-3', 'session-3', 60, 10),
+      ]);
+
+      const { sessions } = await sessionService.listSessions('user-1');
+
+      expect(sessions.map((session) => session.id)).toEqual([
+        'session-2',
+        'session-1',
+        'session-3',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SessionContext, TokenService } from './token.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+import {
+  RevokeSessionResponseDto,
+  SessionDto,
+  SessionListResponseDto,
+} from '../dto/session-response.dto';
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  /**
+   * List active sessions of a user, one entry per logical session
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionListResponseDto> {
+    const activeTokens = await this.prisma.refreshToken.findMany({
+      where: { userId, revoked: false, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const sessionIds = [
+      ...new Set(activeTokens.map((token) => token.sessionId)),
+    ];
+
+    // The first token of each session tells when the user signed in
+    const sessionStarts = await this.prisma.refreshToken.groupBy({
+      by: ['sessionId'],
+      where: { userId, sessionId: { in: sessionIds } },
+      _min: { createdAt: true },
+    });
+    const startedAt = new Map(
+      sessionStarts.map((entry) => [entry.sessionId, entry._min.createdAt]),
+    );
+
+    const sessions: SessionDto[] = sessionIds.map((sessionId) => {
+      // Tokens are ordered newest first, so this is the live rotation
+      const latest = activeTokens.find(
+        (token) => token.sessionId === sessionId,
+      )!;
+
+      return {
+        id: sessionId,
+        userAgent: latest.userAgent,
+        ipAddress: latest.ipAddress,
+        platform: latest.platform,
+        createdAt: startedAt.get(sessionId) ?? latest.createdAt,
+        lastUsedAt: latest.lastUsedAt,
+        expiresAt: latest.expiresAt,
+        current: sessionId === currentSessionId,
+      };
+    });
+
+    sessions.sort(
+      (a, b) =>
+        (b.lastUsedAt ?? b.createdAt).getTime() -
+        (a.lastUsedAt ?? a.createdAt).getTime(),
+    );
+
+    return { success: true, sessions };
+  }
+
+  /**
+   * Sign a single session out
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    context: SessionContext = {},
+  ): Promise<RevokeSessionResponseDto> {
+    const revokedCount = await this.tokenService.revokeSession(
+      userId,
+      sessionId,
+      RefreshTokenRevokedReason.SESSION_REVOKED,
+      { actorId: userId, context },
+    );
+
+    if (revokedCount === 0) {
+      this.logger.warn(`Session ${sessionId} not found for user ${userId}`);
+      return {
+        success: false,
+        message: 'Session not found',
+        statusCode: 404,
+      };
+    }
+
+    return { success: true, message: 'Session revoked' };
+  }
+}
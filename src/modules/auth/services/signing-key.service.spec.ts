@@ -0,0 +1,274 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SigningKeyService } from './signing-key.service';
+import { TokenService } from './token.service';
+import { AuthEventService } from './auth-event.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('SigningKeyService', () => {
+  const user = { id: 'user-1', email: 'user@example.com' } as User;
+  let keyDir: string;
+  let files: Record<'oldPrivate' | 'oldPublic' | 'newPrivate', string>;
+
+  /**
+   * Key and token services sharing one configuration, as in AuthModule
+   */
+  const createServices = async (config: Record<string, string>) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        SigningKeyService,
+        TokenService,
+        JwtService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, fallback?: string) => config[key] ?? fallback,
+            ),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        { provide: PrismaService, useValue: {} },
+        { provide: AuthEventService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+    await module.init();
+
+    return {
+      signingKeyService: module.get(SigningKeyService),
+      tokenService: module.get(TokenService),
+    };
+  };
+
+  const writeRsaKey = (
+    name: string,
+  ): { privateFile: string; publicFile: string } => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const privateFile = path.join(keyDir, `${name}.pem`);
+    const publicFile = path.join(keyDir, `${name}.pub.pem`);
+    fs.writeFileSync(
+      privateFile,
+      privateKey.export({ format: 'pem', type: 'pkcs8' }),
+    );
+    fs.writeFileSync(
+      publicFile,
+      publicKey.export({ format: 'pem', type: 'spki' }),
+    );
+    return { privateFile, publicFile };
+  };
+
+  beforeAll(() => {
+    keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signing-keys-'));
+    const oldKey = writeRsaKey('old');
+    files = {
+      oldPrivate: oldKey.privateFile,
+      oldPublic: oldKey.publicFile,
+      newPrivate: writeRsaKey('new').privateFile,
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  describe('key rotation', () => {
+    it('signs with the active key and names it in the kid header', async () => {
+      const { signingKeyService, tokenService } = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+      });
+
+      const token = tokenService.generateAccessToken(user, 'session-1');
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString(),
+      ) as { alg: string; typ: string; kid: string };
+
+      expect(header).toEqual({
+        alg: 'RS256',
+        typ: 'JWT',
+        kid: signingKeyService.getSigningKey()?.kid,
+      });
+      expect(tokenService.verifyAccessToken(token)).toMatchObject({
+        sub: user.id,
+        sid: 'session-1',
+      });
+    });
+
+    it('verifies tokens of a retired key that is still published', async () => {
+      const before = await createServices({
+        JWT_SIGNING_KEY_FILE: files.oldPrivate,
+      });
+      const token = before.tokenService.generateAccessToken(user);
+
+      const after = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+        JWT_VERIFICATION_KEY_FILES: files.oldPublic,
+      });
+
+      expect(after.tokenService.verifyAccessToken(token)).toMatchObject({
+        sub: user.id,
+        type: 'access',
+      });
+    });
+
+    it('rejects tokens of a key that is no longer published', async () => {
+      const before = await createServices({
+        JWT_SIGNING_KEY_FILE: files.oldPrivate,
+      });
+      const token = before.tokenService.generateAccessToken(user);
+
+      const after = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+      });
+
+      expect(
+        after.signingKeyService.getVerificationKey(
+          before.signingKeyService.getSigningKey()!.kid,
+        ),
+      ).toBeUndefined();
+      expect(() => after.tokenService.verifyAccessToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('signing key', () => {
+    it('refuses to generate an in-memory key in production', async () => {
+      await expect(createServices({ NODE_ENV: 'production' })).rejects.toThrow(
+        'JWT_SIGNING_KEY_FILE is required in production',
+      );
+    });
+
+    it('generates an in-memory key outside production', async () => {
+      const { signingKeyService } = await createServices({
+        NODE_ENV: 'development',
+      });
+
+      expect(signingKeyService.getSigningKey()).toMatchObject({
+        alg: 'RS256',
+      });
+    });
+
+    it('needs no key file in production when signing with HMAC', async () => {
+      const { signingKeyService } = await createServices({
+        NODE_ENV: 'production',
+        JWT_ACCESS_ALGORITHM: 'HS256',
+      });
+
+      expect(signingKeyService.getSigningKey()).toBeNull();
+    });
+  });
+
+  describe('HMAC fallback', () => {
+    const hmacToken = async () => {
+      const hmac = await createServices({
+        JWT_ACCESS_ALGORITHM: 'HS256',
+        JWT_ACCESS_SECRET: 'access-secret',
+      });
+      return hmac.tokenService.generateAccessToken(user);
+    };
+
+    it('verifies tokens without a kid in HS256 mode', async () => {
+      const token = await hmacToken();
+
+      const { signingKeyService, tokenService } = await createServices({
+        JWT_ACCESS_ALGORITHM: 'HS256',
+        JWT_ACCESS_SECRET: 'access-secret',
+      });
+
+      expect(signingKeyService.getSigningKey()).toBeNull();
+      expect(tokenService.verifyAccessToken(token)).toMatchObject({
+        sub: user.id,
+      });
+    });
+
+    it('rejects HS256 tokens in RS256 mode even when JWT_ACCESS_SECRET is set', async () => {
+      const token = await hmacToken();
+
+      const { tokenService } = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+        JWT_ACCESS_SECRET: 'access-secret',
+      });
+
+      expect(() => tokenService.verifyAccessToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('accepts HS256 tokens in RS256 mode until JWT_ACCEPT_HMAC_UNTIL', async () => {
+      const token = await hmacToken();
+
+      const during = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+        JWT_ACCESS_SECRET: 'access-secret',
+        JWT_ACCEPT_HMAC_UNTIL: new Date(Date.now() + 60_000).toISOString(),
+      });
+      const after = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+        JWT_ACCESS_SECRET: 'access-secret',
+        JWT_ACCEPT_HMAC_UNTIL: new Date(Date.now() - 60_000).toISOString(),
+      });
+
+      expect(during.tokenService.verifyAccessToken(token)).toMatchObject({
+        sub: user.id,
+      });
+      expect(() => after.tokenService.verifyAccessToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('refuses to start with an invalid JWT_ACCEPT_HMAC_UNTIL', async () => {
+      await expect(
+        createServices({
+          JWT_SIGNING_KEY_FILE: files.newPrivate,
+          JWT_ACCEPT_HMAC_UNTIL: 'soon',
+        }),
+      ).rejects.toThrow('Invalid JWT_ACCEPT_HMAC_UNTIL soon');
+    });
+  });
+
+  describe('getJwks', () => {
+    it('publishes the public part of every verification key', async () => {
+      const { signingKeyService } = await createServices({
+        JWT_SIGNING_KEY_FILE: files.newPrivate,
+        JWT_VERIFICATION_KEY_FILES: files.oldPublic,
+      });
+
+      const { keys } = signingKeyService.getJwks();
+
+      expect(keys).toHaveLength(2);
+      expect(keys[0].kid).toBe(signingKeyService.getSigningKey()?.kid);
+      for (const key of keys) {
+        expect(Object.keys(key).sort()).toEqual(
+          ['alg', 'e', 'kid', 'kty', 'n', 'use'].sort(),
+        );
+        expect(key).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' });
+      }
+    });
+
+    it('lists a retired key once even when it is also the signing key', async () => {
+      const { signingKeyService } = await createServices({
+        JWT_SIGNING_KEY_FILE: files.oldPrivate,
+        JWT_VERIFICATION_KEY_FILES: files.oldPublic,
+      });
+
+      expect(signingKeyService.getJwks().keys).toHaveLength(1);
+    });
+
+    it('is empty when tokens are signed with HMAC', async () => {
+      const { signingKeyService } = await createServices({
+        JWT_ACCESS_ALGORITHM: 'HS256',
+      });
+
+      expect(signingKeyService.getJwks()).toEqual({ keys: [] });
+    });
+  });
+});
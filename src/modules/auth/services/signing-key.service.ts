@@ -0,0 +1,217 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type AsymmetricAlgorithm = 'RS256' | 'EdDSA';
+
+export interface SigningKey {
+  kid: string;
+  alg: AsymmetricAlgorithm;
+  publicKey: crypto.KeyObject;
+  privateKey?: crypto.KeyObject; // only set on the active signing key
+}
+
+/**
+ * Public key in JWK form as served from /.well-known/jwks.json
+ */
+export interface PublicJwk extends crypto.JsonWebKey {
+  kid: string;
+  alg: AsymmetricAlgorithm;
+  use: 'sig';
+}
+
+/**
+ * Loads the access token signing key and the keys accepted for verification.
+ *
+ * JWT_ACCESS_ALGORITHM selects RS256 (default), EdDSA, or HS256 to keep
+ * signing with JWT_ACCESS_SECRET. The private key is read from
+ * JWT_SIGNING_KEY_FILE; if that file does not exist a key is generated and
+ * written there, and without a file the key only lives in memory (refused
+ * in production).
+ * JWT_VERIFICATION_KEY_FILES lists further keys (e.g. the previous signing
+ * key) that issued tokens may still be signed with during a rotation.
+ * HMAC tokens are only accepted in HS256 mode, or until JWT_ACCEPT_HMAC_UNTIL
+ * while moving from HS256 to a key pair.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit {
+  private readonly logger = new Logger(SigningKeyService.name);
+  private signingKey: SigningKey | null = null;
+  private readonly verificationKeys = new Map<string, SigningKey>();
+  private hmacAcceptedUntil: Date | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    const algorithm = this.configService.get<string>(
+      'JWT_ACCESS_ALGORITHM',
+      'RS256',
+    );
+
+    if (algorithm !== 'HS256') {
+      if (algorithm !== 'RS256' && algorithm !== 'EdDSA') {
+        throw new Error(`Unsupported JWT_ACCESS_ALGORITHM ${algorithm}`);
+      }
+      this.signingKey = this.loadSigningKey(algorithm);
+      this.verificationKeys.set(this.signingKey.kid, this.signingKey);
+      this.logger.log(
+        `Signing access tokens with ${this.signingKey.alg} key ${this.signingKey.kid}`,
+      );
+    } else {
+      this.logger.log('Signing access tokens with HMAC (HS256)');
+    }
+
+    const hmacUntil = this.configService.get<string>('JWT_ACCEPT_HMAC_UNTIL');
+    if (this.signingKey && hmacUntil) {
+      this.hmacAcceptedUntil = new Date(hmacUntil);
+      if (isNaN(this.hmacAcceptedUntil.getTime())) {
+        throw new Error(`Invalid JWT_ACCEPT_HMAC_UNTIL ${hmacUntil}`);
+      }
+      this.logger.log(
+        `Accepting HMAC access tokens until ${this.hmacAcceptedUntil.toISOString()}`,
+      );
+    }
+
+    const files = this.configService
+      .get<string>('JWT_VERIFICATION_KEY_FILES', '')
+      .split(',')
+      .map((file) => file.trim())
+      .filter(Boolean);
+
+    for (const file of files) {
+      const publicKey = crypto.createPublicKey(fs.readFileSync(file));
+      const key: SigningKey = {
+        kid: this.getThumbprint(publicKey),
+        alg: this.getAlgorithm(publicKey, file),
+        publicKey,
+      };
+
+      if (!this.verificationKeys.has(key.kid)) {
+        this.verificationKeys.set(key.kid, key);
+        this.logger.log(`Accepting ${key.alg} verification key ${key.kid}`);
+      }
+    }
+  }
+
+  /**
+   * Active signing key, or null when tokens are signed with the HMAC secret
+   */
+  getSigningKey(): SigningKey | null {
+    return this.signingKey;
+  }
+
+  /**
+   * Whether access tokens signed with JWT_ACCESS_SECRET (no kid) are accepted
+   */
+  acceptsHmacTokens(): boolean {
+    if (!this.signingKey) {
+      return true;
+    }
+
+    return !!this.hmacAcceptedUntil && this.hmacAcceptedUntil > new Date();
+  }
+
+  getVerificationKey(kid: string): SigningKey | undefined {
+    return this.verificationKeys.get(kid);
+  }
+
+  /**
+   * Every verification key as a JWK set
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    return {
+      keys: [...this.verificationKeys.values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private loadSigningKey(algorithm: AsymmetricAlgorithm): SigningKey {
+    const file = this.configService.get<string>('JWT_SIGNING_KEY_FILE');
+
+    // Instances generating their own keys reject each other's tokens and
+    // sign everyone out on restart
+    if (!file && this.configService.get<string>('NODE_ENV') === 'production') {
+      throw new Error(
+        `JWT_SIGNING_KEY_FILE is required in production with JWT_ACCESS_ALGORITHM ${algorithm}; set it or use HS256`,
+      );
+    }
+
+    let privateKey: crypto.KeyObject;
+    if (file && fs.existsSync(file)) {
+      privateKey = crypto.createPrivateKey(fs.readFileSync(file));
+    } else {
+      privateKey =
+        algorithm === 'EdDSA'
+          ? crypto.generateKeyPairSync('ed25519').privateKey
+          : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+              .privateKey;
+
+      if (file) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(
+          file,
+          privateKey.export({ format: 'pem', type: 'pkcs8' }),
+          { mode: 0o600 },
+        );
+        this.logger.log(`Generated ${algorithm} signing key at ${file}`);
+      } else {
+        this.logger.warn(
+          `Generated an in-memory ${algorithm} signing key; set JWT_SIGNING_KEY_FILE so tokens stay valid across restarts and instances`,
+        );
+      }
+    }
+
+    const publicKey = crypto.createPublicKey(privateKey);
+    const alg = this.getAlgorithm(publicKey, file ?? 'generated key');
+    if (alg !== algorithm) {
+      throw new Error(
+        `Signing key ${file} is a ${alg} key but JWT_ACCESS_ALGORITHM is ${algorithm}`,
+      );
+    }
+
+    return {
+      kid: this.getThumbprint(publicKey),
+      alg,
+      publicKey,
+      privateKey,
+    };
+  }
+
+  private getAlgorithm(
+    publicKey: crypto.KeyObject,
+    source: string,
+  ): AsymmetricAlgorithm {
+    switch (publicKey.asymmetricKeyType) {
+      case 'rsa':
+        return 'RS256';
+      case 'ed25519':
+        return 'EdDSA';
+      default:
+        throw new Error(
+          `Unsupported ${publicKey.asymmetricKeyType} key in ${source}`,
+        );
+    }
+  }
+
+  /**
+   * RFC 7638 JWK thumbprint, used as the kid so every instance derives the same one
+   */
+  private getThumbprint(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const members =
+      jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+}
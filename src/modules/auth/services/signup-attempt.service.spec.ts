@@ -0,0 +1,219 @@
+import { HttpException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SignupAttempt } from '@prisma/client';
+import { SignupAttemptService } from './signup-attempt.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { SignupStep } from '../constants/signup-steps';
+
+describe('SignupAttemptService', () => {
+  let signupAttemptService: SignupAttemptService;
+  let prisma: { signupAttempt: Record<string, jest.Mock> };
+  let configService: { get: jest.Mock };
+
+  const attemptIn = (
+    flow: string,
+    changes: Partial<SignupAttempt> = {},
+  ): SignupAttempt =>
+    ({
+      id: 'attempt-1',
+      flow,
+      currentStep: SignupStep.EMAIL_VERIFICATION,
+      completedSteps: [],
+      skippedSteps: [],
+      emailVerified: false,
+      phoneVerified: false,
+      mfaEnabled: false,
+      ...changes,
+    }) as unknown as SignupAttempt;
+
+  const afterEmail = (flow: string, changes: Partial<SignupAttempt> = {}) =>
+    attemptIn(flow, {
+      currentStep: SignupStep.PHONE_VERIFICATION,
+      completedSteps: [SignupStep.EMAIL_VERIFICATION],
+      emailVerified: true,
+      ...changes,
+    });
+
+  beforeEach(async () => {
+    prisma = {
+      signupAttempt: {
+        update: jest.fn(({ data }: { data: Partial<SignupAttempt> }) => data),
+      },
+    };
+    configService = {
+      get: jest.fn((_key: string, fallback?: string) => fallback),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignupAttemptService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    signupAttemptService = module.get(SignupAttemptService);
+  });
+
+  describe('getConfiguredFlowName', () => {
+    it('falls back to the standard flow for unknown names', () => {
+      configService.get.mockReturnValue('no-such-flow');
+
+      expect(signupAttemptService.getConfiguredFlowName()).toBe('standard');
+    });
+  });
+
+  describe('checkStepTransition', () => {
+    it('rejects steps that are not part of the flow', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('email'),
+          SignupStep.PHONE_VERIFICATION,
+        ),
+      ).toEqual({
+        message: 'Step phone_verification is not part of the email signup flow',
+        statusCode: 400,
+      });
+    });
+
+    it('rejects steps ahead of the next outstanding one', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          attemptIn('standard'),
+          SignupStep.MFA_SETUP,
+        ),
+      ).toMatchObject({
+        message:
+          'Step email_verification must be completed or skipped before mfa_setup',
+        statusCode: 400,
+      });
+    });
+
+    it('rejects steps that were already completed', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('standard'),
+          SignupStep.EMAIL_VERIFICATION,
+        ),
+      ).toMatchObject({ statusCode: 409 });
+    });
+
+    it('rejects a step whose precondition does not hold', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('standard', { emailVerified: false }),
+          SignupStep.PHONE_VERIFICATION,
+        ),
+      ).toEqual({
+        message: 'Email address must be verified first',
+        statusCode: 400,
+      });
+    });
+
+    it('allows the next outstanding step', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('standard'),
+          SignupStep.PHONE_VERIFICATION,
+        ),
+      ).toBeNull();
+    });
+
+    it('allows completing once every required step is done, even with optional steps left', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('standard'),
+          SignupStep.COMPLETE,
+        ),
+      ).toBeNull();
+    });
+
+    it('lists the required steps still missing before completing', () => {
+      expect(
+        signupAttemptService.checkStepTransition(
+          afterEmail('email-phone-mfa'),
+          SignupStep.COMPLETE,
+        ),
+      ).toEqual({
+        message:
+          'Required signup steps have not been completed: phone_verification, mfa_setup',
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('advanceSignupStep', () => {
+    it('records the step and moves to the next outstanding one', async () => {
+      await signupAttemptService.advanceSignupStep(
+        attemptIn('standard', { emailVerified: true }),
+        SignupStep.EMAIL_VERIFICATION,
+      );
+
+      const [{ data }] = prisma.signupAttempt.update.mock.calls[0] as [
+        { data: Partial<SignupAttempt> },
+      ];
+      expect(data).toMatchObject({
+        currentStep: SignupStep.PHONE_VERIFICATION,
+        completedSteps: [SignupStep.EMAIL_VERIFICATION],
+      });
+    });
+
+    it('refuses a step whose evidence is missing', async () => {
+      await expect(
+        signupAttemptService.advanceSignupStep(
+          attemptIn('standard'),
+          SignupStep.EMAIL_VERIFICATION,
+        ),
+      ).rejects.toThrow('Step email_verification has not been completed');
+      expect(prisma.signupAttempt.update).not.toHaveBeenCalled();
+    });
+
+    it('moves to complete after the last step', async () => {
+      await signupAttemptService.advanceSignupStep(
+        attemptIn('email', { emailVerified: true }),
+        SignupStep.EMAIL_VERIFICATION,
+      );
+
+      expect(prisma.signupAttempt.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            currentStep: SignupStep.COMPLETE,
+          }) as object,
+        }),
+      );
+    });
+  });
+
+  describe('skipSignupStep', () => {
+    it('skips an optional step and moves past it', async () => {
+      await signupAttemptService.skipSignupStep(
+        afterEmail('standard'),
+        SignupStep.PHONE_VERIFICATION,
+      );
+
+      expect(prisma.signupAttempt.update).toHaveBeenCalledWith({
+        where: { id: 'attempt-1' },
+        data: {
+          skippedSteps: [SignupStep.PHONE_VERIFICATION],
+          currentStep: SignupStep.MFA_SETUP,
+        },
+      });
+    });
+
+    it('refuses to skip a required step', async () => {
+      const error = await signupAttemptService
+        .skipSignupStep(
+          afterEmail('email-phone-mfa'),
+          SignupStep.PHONE_VERIFICATION,
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).message).toBe(
+        'Step phone_verification cannot be skipped',
+      );
+      expect(prisma.signupAttempt.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,12 +2,34 @@ import {
   Injectable,
   Logger,
   ConflictException,
+  HttpException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { SignupAttempt, AttemptStatus } from '@prisma/client';
+import { Prisma, SignupAttempt, AttemptStatus } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import {
+  SignupFlowStepName,
+  SignupStep,
+  SignupStepName,
+} from '../constants/signup-steps';
+import {
+  DEFAULT_SIGNUP_FLOW,
+  SIGNUP_FLOWS,
+  SignupFlowDefinition,
+  SignupStepDefinition,
+} from '../constants/signup-flows';
+import type { ExternalIdentity } from './oauth-client.service';
+
+/**
+ * Why a step cannot be worked on, as returned to the client
+ */
+export interface SignupStepViolation {
+  message: string;
+  statusCode: number;
+}
 
 @Injectable()
 export class SignupAttemptService {
@@ -83,6 +105,8 @@ export class SignupAttemptService {
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + 2);
 
+      const flow = SIGNUP_FLOWS[this.getConfiguredFlowName()];
+
       // Create signup attempt
       const attempt = await this.prisma.signupAttempt.create({
         data: {
@@ -90,7 +114,8 @@ export class SignupAttemptService {
           firstName,
           lastName,
           passwordHash,
-          currentStep: 'email_verification',
+          flow: flow.name,
+          currentStep: flow.steps[0].step,
           status: AttemptStatus.IN_PROGRESS,
           expiresAt,
         },
@@ -108,6 +133,55 @@ export class SignupAttemptService {
     }
   }
 
+  /**
+   * Create a signup attempt for a social login that matched no user
+   * An email verified by the provider completes the email verification step.
+   * The user gets a random password and can set one through password reset.
+   */
+  async createExternalSignupAttempt(
+    identity: ExternalIdentity & { email: string },
+  ): Promise<SignupAttempt> {
+    try {
+      const passwordHash = await this.hashPassword(
+        crypto.randomBytes(32).toString('base64url'),
+      );
+
+      const expiresAt = new Date();
+      expiresAt.setHours(expiresAt.getHours() + 2);
+
+      const flow = SIGNUP_FLOWS[this.getConfiguredFlowName()];
+      const completedSteps: string[] = identity.emailVerified
+        ? [SignupStep.EMAIL_VERIFICATION]
+        : [];
+
+      const attempt = await this.prisma.signupAttempt.create({
+        data: {
+          email: identity.email.toLowerCase(),
+          firstName: identity.firstName,
+          lastName: identity.lastName,
+          passwordHash,
+          emailVerified: identity.emailVerified,
+          flow: flow.name,
+          currentStep: this.resolveNextStep(flow, completedSteps, []),
+          completedSteps,
+          oauthProvider: identity.provider,
+          oauthSubject: identity.subject,
+          status: AttemptStatus.IN_PROGRESS,
+          expiresAt,
+        },
+      });
+
+      this.logger.log(
+        `Created signup attempt ${attempt.id} from ${identity.provider} login`,
+      );
+
+      return attempt;
+    } catch (error) {
+      this.logger.error('Failed to create signup attempt', error);
+      throw new InternalServerErrorException('Failed to create signup attempt');
+    }
+  }
+
   /**
    * Resume existing signup attempt
    */
@@ -136,38 +210,366 @@ export class SignupAttemptService {
   }
 
   /**
-   * Update signup attempt step
+   * Mark signup attempt email as verified
    */
-  async updateSignupStep(
+  async markEmailVerified(attemptId: string): Promise<SignupAttempt> {
+    try {
+      const updatedAttempt = await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: { emailVerified: true },
+      });
+
+      this.logger.log(`Verified email for signup attempt ${attemptId}`);
+
+      return updatedAttempt;
+    } catch (error) {
+      this.logger.error('Failed to mark email as verified', error);
+      throw new InternalServerErrorException('Failed to verify email');
+    }
+  }
+
+  /**
+   * Fill in the name of an attempt the provider did not share it for
+   */
+  async setProfileDetails(
     attemptId: string,
-    newStep: string,
-    completedStep?: string,
+    firstName: string,
+    lastName: string,
   ): Promise<SignupAttempt> {
     try {
-      const updateData: any = {
-        currentStep: newStep,
-        updatedAt: new Date(),
+      return await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: { firstName, lastName },
+      });
+    } catch (error) {
+      this.logger.error('Failed to set profile details', error);
+      throw new InternalServerErrorException('Failed to set profile details');
+    }
+  }
+
+  /**
+   * Set the phone number to verify, resetting any previous verification
+   */
+  async setPhoneNumber(
+    attemptId: string,
+    phoneNumber: string,
+  ): Promise<SignupAttempt> {
+    try {
+      return await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: { phoneNumber, phoneVerified: false },
+      });
+    } catch (error) {
+      this.logger.error('Failed to set phone number', error);
+      throw new InternalServerErrorException('Failed to set phone number');
+    }
+  }
+
+  /**
+   * Mark signup attempt phone number as verified
+   */
+  async markPhoneVerified(attemptId: string): Promise<SignupAttempt> {
+    try {
+      const updatedAttempt = await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: { phoneVerified: true },
+      });
+
+      this.logger.log(`Verified phone for signup attempt ${attemptId}`);
+
+      return updatedAttempt;
+    } catch (error) {
+      this.logger.error('Failed to mark phone as verified', error);
+      throw new InternalServerErrorException('Failed to verify phone');
+    }
+  }
+
+  /**
+   * Store a pending (unconfirmed) MFA secret on the attempt
+   */
+  async setMfaSecret(
+    attemptId: string,
+    encryptedSecret: string,
+  ): Promise<SignupAttempt> {
+    try {
+      return await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: {
+          mfaSecret: encryptedSecret,
+          mfaLastUsedStep: null,
+          mfaEnabled: false,
+          mfaBackupCodes: [],
+        },
+      });
+    } catch (error) {
+      this.logger.error('Failed to set MFA secret', error);
+      throw new InternalServerErrorException('Failed to set MFA secret');
+    }
+  }
+
+  /**
+   * Mark MFA as enrolled and store the backup code hashes
+   */
+  async markMfaEnrolled(
+    attemptId: string,
+    backupCodeHashes: string[],
+  ): Promise<SignupAttempt> {
+    try {
+      const updatedAttempt = await this.prisma.signupAttempt.update({
+        where: { id: attemptId },
+        data: { mfaEnabled: true, mfaBackupCodes: backupCodeHashes },
+      });
+
+      this.logger.log(`Enrolled MFA for signup attempt ${attemptId}`);
+
+      return updatedAttempt;
+    } catch (error) {
+      this.logger.error('Failed to mark MFA as enrolled', error);
+      throw new InternalServerErrorException('Failed to enroll MFA');
+    }
+  }
+
+  /**
+   * Flow for new attempts from SIGNUP_FLOW (default standard)
+   */
+  getConfiguredFlowName(): string {
+    const name = this.configService.get<string>(
+      'SIGNUP_FLOW',
+      DEFAULT_SIGNUP_FLOW,
+    );
+
+    if (!SIGNUP_FLOWS[name]) {
+      this.logger.warn(
+        `Unknown signup flow "${name}", falling back to ${DEFAULT_SIGNUP_FLOW}`,
+      );
+      return DEFAULT_SIGNUP_FLOW;
+    }
+
+    return name;
+  }
+
+  /**
+   * Flow the attempt was started with
+   */
+  getFlow(attempt: SignupAttempt): SignupFlowDefinition {
+    const flow = SIGNUP_FLOWS[attempt.flow];
+
+    if (!flow) {
+      this.logger.warn(
+        `Signup attempt ${attempt.id} has unknown flow "${attempt.flow}"`,
+      );
+      return SIGNUP_FLOWS[DEFAULT_SIGNUP_FLOW];
+    }
+
+    return flow;
+  }
+
+  /**
+   * Required steps the attempt has not completed yet
+   */
+  getMissingRequiredSteps(attempt: SignupAttempt): string[] {
+    return this.getFlow(attempt)
+      .steps.filter(
+        (definition) =>
+          definition.required &&
+          !attempt.completedSteps.includes(definition.step),
+      )
+      .map((definition) => definition.step);
+  }
+
+  /**
+   * Whether the step is part of the attempt's flow and may be skipped
+   */
+  isStepSkippable(attempt: SignupAttempt, step: SignupStepName): boolean {
+    const definition = this.getStepDefinition(attempt, step);
+    return !!definition && !definition.required;
+  }
+
+  /**
+   * Check that the attempt's flow allows working on a step now:
+   * the step belongs to the flow, is not done yet, every earlier step
+   * is completed or skipped, and its preconditions hold.
+   * COMPLETE is allowed once every required step is completed.
+   */
+  checkStepTransition(
+    attempt: SignupAttempt,
+    step: SignupStepName,
+  ): SignupStepViolation | null {
+    if (step === SignupStep.COMPLETE) {
+      const missingSteps = this.getMissingRequiredSteps(attempt);
+      return missingSteps.length > 0
+        ? {
+            message: `Required signup steps have not been completed: ${missingSteps.join(', ')}`,
+            statusCode: 400,
+          }
+        : null;
+    }
+
+    const flow = this.getFlow(attempt);
+    const definition = this.getStepDefinition(attempt, step);
+
+    if (!definition) {
+      return {
+        message: `Step ${step} is not part of the ${flow.name} signup flow`,
+        statusCode: 400,
       };
+    }
 
-      if (completedStep) {
-        const attempt = await this.prisma.signupAttempt.findUnique({
-          where: { id: attemptId },
-        });
-
-        if (attempt && !attempt.completedSteps.includes(completedStep)) {
-          updateData.completedSteps = [
-            ...attempt.completedSteps,
-            completedStep,
-          ];
-        }
-      }
+    if (attempt.completedSteps.includes(step)) {
+      return {
+        message: `Step ${step} has already been completed`,
+        statusCode: 409,
+      };
+    }
+
+    if (attempt.skippedSteps.includes(step)) {
+      return {
+        message: `Step ${step} has been skipped`,
+        statusCode: 409,
+      };
+    }
+
+    const nextStep = this.resolveNextStep(
+      flow,
+      attempt.completedSteps,
+      attempt.skippedSteps,
+    );
+    if (nextStep !== step) {
+      return {
+        message: `Step ${nextStep} must be completed or skipped before ${step}`,
+        statusCode: 400,
+      };
+    }
+
+    const failedPrecondition = definition.preconditions.find(
+      (precondition) => !precondition.check(attempt),
+    );
+    if (failedPrecondition) {
+      return { message: failedPrecondition.message, statusCode: 400 };
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark a step as completed and move to the next outstanding step
+   */
+  async advanceSignupStep(
+    attempt: SignupAttempt,
+    completedStep: SignupFlowStepName,
+  ): Promise<SignupAttempt> {
+    const violation = this.checkStepTransition(attempt, completedStep);
+    if (violation) {
+      throw new HttpException(violation.message, violation.statusCode);
+    }
+
+    const definition = this.getStepDefinition(attempt, completedStep);
+    if (!definition?.isComplete(attempt)) {
+      throw new HttpException(
+        `Step ${completedStep} has not been completed`,
+        400,
+      );
+    }
+
+    const nextStep = this.resolveNextStep(
+      this.getFlow(attempt),
+      [...attempt.completedSteps, completedStep],
+      attempt.skippedSteps,
+    );
+
+    return this.updateSignupStep(attempt.id, nextStep, [
+      ...attempt.completedSteps,
+      completedStep,
+    ]);
+  }
+
+  /**
+   * Record an optional step as skipped and move to the next outstanding step
+   */
+  async skipSignupStep(
+    attempt: SignupAttempt,
+    skippedStep: SignupFlowStepName,
+  ): Promise<SignupAttempt> {
+    const violation = this.checkStepTransition(attempt, skippedStep);
+    if (violation) {
+      throw new HttpException(violation.message, violation.statusCode);
+    }
+
+    if (!this.isStepSkippable(attempt, skippedStep)) {
+      throw new HttpException(`Step ${skippedStep} cannot be skipped`, 400);
+    }
+
+    try {
+      const skippedSteps = [...attempt.skippedSteps, skippedStep];
+
+      const nextStep = this.resolveNextStep(
+        this.getFlow(attempt),
+        attempt.completedSteps,
+        skippedSteps,
+      );
 
+      const updatedAttempt = await this.prisma.signupAttempt.update({
+        where: { id: attempt.id },
+        data: { skippedSteps, currentStep: nextStep },
+      });
+
+      this.logger.log(
+        `Skipped step ${skippedStep} for signup attempt ${attempt.id}`,
+      );
+
+      return updatedAttempt;
+    } catch (error) {
+      this.logger.error('Failed to skip signup step', error);
+      throw new InternalServerErrorException('Failed to skip signup step');
+    }
+  }
+
+  private getStepDefinition(
+    attempt: SignupAttempt,
+    step: SignupStepName,
+  ): SignupStepDefinition | undefined {
+    return this.getFlow(attempt).steps.find(
+      (definition) => definition.step === step,
+    );
+  }
+
+  /**
+   * First step of the flow that is neither completed nor skipped
+   */
+  private resolveNextStep(
+    flow: SignupFlowDefinition,
+    completedSteps: string[],
+    skippedSteps: string[],
+  ): SignupStepName {
+    const nextStep = flow.steps.find(
+      ({ step }) =>
+        !completedSteps.includes(step) && !skippedSteps.includes(step),
+    );
+
+    return nextStep?.step ?? SignupStep.COMPLETE;
+  }
+
+  /**
+   * Update signup attempt step
+   */
+  private async updateSignupStep(
+    attemptId: string,
+    newStep: SignupStepName,
+    completedSteps: string[],
+  ): Promise<SignupAttempt> {
+    try {
       const updatedAttempt = await this.prisma.signupAttempt.update({
         where: { id: attemptId },
-        data: updateData,
+        data: {
+          currentStep: newStep,
+          completedSteps,
+          updatedAt: new Date(),
+        },
       });
 
-      this.logger.log(`Updated signup attempt ${attemptId} to step: ${newStep}`);
+      this.logger.log(
+        `Updated signup attempt ${attemptId} to step: ${newStep}`,
+      );
 
       return updatedAttempt;
     } catch (error) {
@@ -179,9 +581,12 @@ export class SignupAttemptService {
   /**
    * Mark signup attempt as completed
    */
-  async completeSignupAttempt(attemptId: string): Promise<void> {
+  async completeSignupAttempt(
+    attemptId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
     try {
-      await this.prisma.signupAttempt.update({
+      await tx.signupAttempt.update({
         where: { id: attemptId },
         data: {
           status: AttemptStatus.COMPLETED,
@@ -226,6 +631,34 @@ export class SignupAttemptService {
     }
   }
 
+  /**
+   * Mark in-progress signup attempts with no activity since the cutoff as abandoned
+   */
+  async markAbandonedAttempts(idleSince: Date): Promise<number> {
+    try {
+      const result = await this.prisma.signupAttempt.updateMany({
+        where: {
+          status: AttemptStatus.IN_PROGRESS,
+          updatedAt: {
+            lt: idleSince,
+          },
+        },
+        data: {
+          status: AttemptStatus.ABANDONED,
+        },
+      });
+
+      if (result.count > 0) {
+        this.logger.log(`Marked ${result.count} signup attempts as abandoned`);
+      }
+
+      return result.count;
+    } catch (error) {
+      this.logger.error('Failed to mark abandoned attempts', error);
+      return 0;
+    }
+  }
+
   /**
    * Get signup attempt by ID
    */
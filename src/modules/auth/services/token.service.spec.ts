@@ -0,0 +1,295 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { TokenService } from './token.service';
+import { SigningKeyService } from './signing-key.service';
+import { AuthEventService, AuthEventType } from './auth-event.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RefreshTokenRevokedReason } from '../constants/refresh-token';
+
+describe('TokenService', () => {
+  let tokenService: TokenService;
+  let prisma: { refreshToken: Record<string, jest.Mock> };
+  let authEventService: Record<string, jest.Mock>;
+
+  const oldToken = {
+    id: 'token-1',
+    userId: 'user-1',
+    sessionId: 'session-1',
+    organizationId: 'org-1',
+    clientId: null,
+    scope: null,
+    userAgent: 'Browser',
+    ipAddress: '10.0.0.1',
+    platform: 'web',
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      refreshToken: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        updateManyAndReturn: jest.fn(),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(oldToken),
+        create: jest.fn(),
+      },
+    };
+    authEventService = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        {
+          provide: JwtService,
+          useValue: { sign: jest.fn().mockReturnValue('refresh-jwt') },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback?: string) => fallback),
+            getOrThrow: jest.fn(() => 'secret'),
+          },
+        },
+        { provide: PrismaService, useValue: prisma },
+        { provide: SigningKeyService, useValue: {} },
+        { provide: AuthEventService, useValue: authEventService },
+      ],
+    }).compile();
+
+    tokenService = module.get(TokenService);
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('revokes the old token and issues its child in the same family', async () => {
+      const result = await tokenService.rotateRefreshToken(
+        oldToken.id,
+        oldToken.userId,
+      );
+
+      expect(result?.token).toBe('refresh-jwt');
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: oldToken.id, revoked: false },
+        data: expect.objectContaining({
+          revoked: true,
+          revokedReason: RefreshTokenRevokedReason.ROTATED,
+        }) as object,
+      });
+
+      const [{ data }] = prisma.refreshToken.create.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data).toMatchObject({
+        userId: oldToken.userId,
+        sessionId: oldToken.sessionId,
+        parentId: oldToken.id,
+        organizationId: oldToken.organizationId,
+        userAgent: oldToken.userAgent,
+        ipAddress: oldToken.ipAddress,
+        tokenHash: tokenService.hashRefreshToken('refresh-jwt'),
+      });
+      expect(data.id).not.toBe(oldToken.id);
+      expect(authEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ type: AuthEventType.TOKEN_ROTATED }),
+      );
+    });
+
+    it('issues nothing when a concurrent request already rotated the token', async () => {
+      prisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        tokenService.rotateRefreshToken(oldToken.id, oldToken.userId),
+      ).resolves.toBeNull();
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeRefreshToken', () => {
+    it('revokes a live token and records the event', async () => {
+      prisma.refreshToken.updateManyAndReturn.mockResolvedValue([
+        { userId: 'user-1', sessionId: 'session-1' },
+      ]);
+
+      await tokenService.revokeRefreshToken('token-1');
+
+      expect(prisma.refreshToken.updateManyAndReturn).toHaveBeenCalledWith({
+        where: { id: 'token-1', revoked: false },
+        data: {
+          revoked: true,
+          revokedAt: expect.any(Date) as Date,
+          revokedReason: RefreshTokenRevokedReason.LOGOUT,
+        },
+        select: { userId: true, sessionId: true },
+      });
+      expect(authEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: AuthEventType.TOKEN_REVOKED,
+          sessionId: 'session-1',
+        }),
+      );
+    });
+
+    it('changes and records nothing for a token that is already revoked', async () => {
+      prisma.refreshToken.updateManyAndReturn.mockResolvedValue([]);
+
+      await tokenService.revokeRefreshToken('token-1');
+
+      expect(authEventService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('revokes every live token of the user outside the kept session', async () => {
+      await tokenService.revokeOtherSessions(
+        'user-1',
+        'session-1',
+        RefreshTokenRevokedReason.PASSWORD_CHANGED,
+      );
+
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          revoked: false,
+          sessionId: { not: 'session-1' },
+        },
+        data: {
+          revoked: true,
+          revokedAt: expect.any(Date) as Date,
+          revokedReason: RefreshTokenRevokedReason.PASSWORD_CHANGED,
+        },
+      });
+    });
+  });
+
+  describe('matchesRefreshTokenHash', () => {
+    const hmac = (secret: string, token: string) =>
+      crypto.createHmac('sha256', secret).update(token).digest('hex');
+
+    it('matches only the token the hash was computed from', () => {
+      const tokenHash = tokenService.hashRefreshToken('refresh-jwt');
+
+      expect(
+        tokenService.matchesRefreshTokenHash('refresh-jwt', tokenHash),
+      ).toBe(true);
+      expect(tokenService.matchesRefreshTokenHash('other-jwt', tokenHash)).toBe(
+        false,
+      );
+    });
+
+    it('keys the hash with REFRESH_TOKEN_HASH_SECRET', () => {
+      expect(tokenService.hashRefreshToken('refresh-jwt')).toBe(
+        hmac('secret', 'refresh-jwt'),
+      );
+      expect(
+        tokenService.matchesRefreshTokenHash(
+          'refresh-jwt',
+          hmac('other-secret', 'refresh-jwt'),
+        ),
+      ).toBe(false);
+    });
+
+    it('rejects a tampered token', () => {
+      const token = 'header.payload.signature';
+      const tokenHash = tokenService.hashRefreshToken(token);
+
+      expect(tokenService.matchesRefreshTokenHash(`${token}x`, tokenHash)).toBe(
+        false,
+      );
+      expect(
+        tokenService.matchesRefreshTokenHash(
+          token.replace('payload', 'pAyload'),
+          tokenHash,
+        ),
+      ).toBe(false);
+    });
+
+    it('rejects a stored hash of another length without throwing', () => {
+      const tokenHash = tokenService.hashRefreshToken('refresh-jwt');
+
+      expect(
+        tokenService.matchesRefreshTokenHash(
+          'refresh-jwt',
+          tokenHash.slice(0, 32),
+        ),
+      ).toBe(false);
+      expect(tokenService.matchesRefreshTokenHash('refresh-jwt', '')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('verifyMfaChallengeToken', () => {
+    const jwtService = new JwtService();
+    let mfaTokenService: TokenService;
+
+    beforeEach(async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          TokenService,
+          { provide: JwtService, useValue: jwtService },
+          {
+            provide: ConfigService,
+            useValue: {
+              get: jest.fn((_key: string, fallback?: string) => fallback),
+              getOrThrow: jest.fn(() => 'mfa-secret'),
+            },
+          },
+          { provide: PrismaService, useValue: prisma },
+          { provide: SigningKeyService, useValue: {} },
+          { provide: AuthEventService, useValue: authEventService },
+        ],
+      }).compile();
+
+      mfaTokenService = module.get(TokenService);
+    });
+
+    it('returns the payload of a challenge it issued', () => {
+      const token = mfaTokenService.generateMfaChallengeToken('user-1', true);
+
+      expect(mfaTokenService.verifyMfaChallengeToken(token)).toMatchObject({
+        sub: 'user-1',
+        type: 'mfa_challenge',
+        reactivate: true,
+      });
+    });
+
+    it('rejects an expired challenge', () => {
+      const token = jwtService.sign(
+        { sub: 'user-1', type: 'mfa_challenge' },
+        { secret: 'mfa-secret', expiresIn: -1 },
+      );
+
+      expect(() => mfaTokenService.verifyMfaChallengeToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('rejects a challenge signed with another secret', () => {
+      const token = jwtService.sign(
+        { sub: 'user-1', type: 'mfa_challenge' },
+        { secret: 'other-secret', expiresIn: 300 },
+      );
+
+      expect(() => mfaTokenService.verifyMfaChallengeToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('rejects another kind of token', () => {
+      const token = jwtService.sign(
+        { sub: 'user-1', type: 'signup' },
+        { secret: 'mfa-secret', expiresIn: 300 },
+      );
+
+      expect(() => mfaTokenService.verifyMfaChallengeToken(token)).toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('getRotationGraceSeconds', () => {
+    it('defaults to 30 seconds', () => {
+      expect(tokenService.getRotationGraceSeconds()).toBe(30);
+    });
+  });
+});
@@ -9,11 +9,29 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { User } from '@prisma/client';
 import * as crypto from 'crypto';
+import {
+  RefreshTokenRevokedReason,
+  RefreshTokenRevokedReasonValue,
+} from '../constants/refresh-token';
+import { SigningKeyService } from './signing-key.service';
+import {
+  AuthEventService,
+  AuthEventSource,
+  AuthEventType,
+} from './auth-event.service';
+import { signEdDsaJwt, verifyEdDsaJwt } from '../utils/eddsa-jwt.util';
 
 export interface AccessTokenPayload {
   sub: string; // user id
   email: string;
   type: 'access';
+  sid?: string; // session id of the refresh token it was issued from
+  scope?: string; // space-separated scopes of delegated tokens; absent on first-party session tokens
+  client_id?: string; // OAuth client a delegated token was issued to
+  roles?: string[]; // role names at issue time (JWT_ROLES_CLAIM); informational, never used for authorization here
+  org?: string; // active organization id; membership is re-checked on every request
+  iat?: number; // set when signed
+  exp?: number; // set when signed
 }
 
 export interface RefreshTokenPayload {
@@ -22,6 +40,12 @@ export interface RefreshTokenPayload {
   type: 'refresh';
 }
 
+export interface MfaChallengeTokenPayload {
+  sub: string; // user id
+  type: 'mfa_challenge';
+  reactivate?: boolean; // reactivate the account once the challenge is passed
+}
+
 export interface SignupTokenPayload {
   attemptId: string;
   email: string;
@@ -29,6 +53,47 @@ export interface SignupTokenPayload {
   currentStep: string;
 }
 
+/**
+ * Pending social login, kept in the oauth_state cookie between the
+ * redirect to the provider and the callback
+ */
+export interface OAuthStateTokenPayload {
+  type: 'oauth_state';
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string; // PKCE verifier sent with the code exchange
+  returnTo?: string;
+}
+
+/**
+ * OAuth client and scopes a delegated token is issued for
+ */
+export interface DelegatedGrant {
+  clientId: string;
+  scope: string;
+}
+
+/**
+ * Optional claims of an access token
+ */
+export interface AccessTokenClaims {
+  grant?: DelegatedGrant; // delegated (OAuth client) token
+  roles?: string[];
+  organizationId?: string; // active organization (org claim)
+}
+
+/**
+ * Client metadata recorded on refresh tokens for session management,
+ * and on audit events with the request id
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+  platform?: string;
+  requestId?: string;
+}
+
 @Injectable()
 export class TokenService {
   private readonly logger = new Logger(TokenService.name);
@@ -37,37 +102,80 @@ export class TokenService {
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
     private readonly prisma: PrismaService,
+    private readonly signingKeyService: SigningKeyService,
+    private readonly authEventService: AuthEventService,
   ) {}
 
   /**
    * Generate access token (15 min expiry)
+   * Signed with the active asymmetric key (kid in the header), or with
+   * JWT_ACCESS_SECRET when HMAC signing is configured
    */
-  generateAccessToken(user: User): string {
+  generateAccessToken(
+    user: User,
+    sessionId?: string,
+    claims: AccessTokenClaims = {},
+  ): string {
+    const { grant, roles, organizationId } = claims;
     const payload: AccessTokenPayload = {
       sub: user.id,
       email: user.email,
       type: 'access',
+      ...(sessionId && { sid: sessionId }),
+      ...(grant && { scope: grant.scope, client_id: grant.clientId }),
+      ...(roles && { roles }),
+      ...(organizationId && { org: organizationId }),
     };
 
-    return this.jwtService.sign(
-      payload as any,
-      {
+    const signingKey = this.signingKeyService.getSigningKey();
+
+    if (!signingKey) {
+      return this.jwtService.sign(payload, {
         secret: this.configService.getOrThrow<string>('JWT_ACCESS_SECRET'),
-        expiresIn: this.configService.get<string>('JWT_ACCESS_EXPIRY') || '15m',
-      } as any,
-    );
+        expiresIn: this.getAccessTokenExpiryInSeconds(),
+      });
+    }
+
+    if (signingKey.alg === 'EdDSA') {
+      return signEdDsaJwt(
+        payload,
+        signingKey.privateKey!,
+        signingKey.kid,
+        this.getAccessTokenExpiryInSeconds(),
+      );
+    }
+
+    return this.jwtService.sign(payload, {
+      privateKey: signingKey.privateKey,
+      algorithm: signingKey.alg,
+      keyid: signingKey.kid,
+      expiresIn: this.getAccessTokenExpiryInSeconds(),
+    });
   }
 
   /**
    * Generate refresh token and store in database (30 day expiry)
+   * A rotated token joins its parent's family and keeps its active organization
    */
-  async generateRefreshToken(userId: string): Promise<{
+  async generateRefreshToken(
+    userId: string,
+    context: SessionContext = {},
+    family?: {
+      sessionId: string;
+      parentId: string;
+      organizationId?: string | null;
+    },
+    grant?: DelegatedGrant,
+  ): Promise<{
     token: string;
     expiresAt: Date;
     tokenId: string;
+    sessionId: string;
   }> {
     try {
       const tokenId = crypto.randomUUID();
+      // A new login starts a new token family (logical session)
+      const sessionId = family?.sessionId ?? crypto.randomUUID();
       const expiryDays = parseInt(
         this.configService
           .get<string>('JWT_REFRESH_EXPIRY', '30d')
@@ -87,7 +195,8 @@ export class TokenService {
         payload as any,
         {
           secret: this.configService.getOrThrow<string>('JWT_REFRESH_SECRET'),
-          expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRY') || '30d',
+          expiresIn:
+            this.configService.get<string>('JWT_REFRESH_EXPIRY') || '30d',
         } as any,
       );
 
@@ -95,21 +204,58 @@ export class TokenService {
       await this.prisma.refreshToken.create({
         data: {
           id: tokenId,
-          token,
+          tokenHash: this.hashRefreshToken(token),
           userId,
+          sessionId,
+          parentId: family?.parentId,
+          clientId: grant?.clientId,
+          scope: grant?.scope,
+          organizationId: family?.organizationId,
+          userAgent: context.userAgent,
+          ipAddress: context.ipAddress,
+          platform: context.platform,
           expiresAt,
+          lastUsedAt: new Date(),
         },
       });
 
       this.logger.log(`Generated refresh token for user ${userId}`);
 
-      return { token, expiresAt, tokenId };
+      return { token, expiresAt, tokenId, sessionId };
     } catch (error) {
       this.logger.error('Failed to generate refresh token', error);
-      throw new InternalServerErrorException('Failed to generate refresh token');
+      throw new InternalServerErrorException(
+        'Failed to generate refresh token',
+      );
     }
   }
 
+  /**
+   * Keyed hash of a refresh token as stored in the database
+   */
+  hashRefreshToken(token: string): string {
+    return crypto
+      .createHmac(
+        'sha256',
+        this.configService.getOrThrow<string>('REFRESH_TOKEN_HASH_SECRET'),
+      )
+      .update(token)
+      .digest('hex');
+  }
+
+  /**
+   * Constant-time check of a presented refresh token against the stored hash
+   */
+  matchesRefreshTokenHash(token: string, tokenHash: string): boolean {
+    const expected = Buffer.from(tokenHash, 'hex');
+    const actual = Buffer.from(this.hashRefreshToken(token), 'hex');
+
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
   /**
    * Generate signup token (2 hour expiry)
    */
@@ -134,17 +280,47 @@ export class TokenService {
     );
   }
 
+  /**
+   * Generate MFA challenge token issued after a correct password (5 min expiry)
+   */
+  generateMfaChallengeToken(userId: string, reactivate = false): string {
+    const payload: MfaChallengeTokenPayload = {
+      sub: userId,
+      type: 'mfa_challenge',
+      ...(reactivate && { reactivate }),
+    };
+
+    return this.jwtService.sign(payload, {
+      secret: this.configService.getOrThrow<string>('JWT_MFA_SECRET'),
+      expiresIn: this.getMfaChallengeExpiryInSeconds(),
+    });
+  }
+
+  /**
+   * Generate the OAuth state token (10 min expiry)
+   */
+  generateOAuthStateToken(
+    payload: Omit<OAuthStateTokenPayload, 'type'>,
+  ): string {
+    const statePayload: OAuthStateTokenPayload = {
+      ...payload,
+      type: 'oauth_state',
+    };
+
+    return this.jwtService.sign(statePayload, {
+      secret: this.configService.getOrThrow<string>('JWT_OAUTH_STATE_SECRET'),
+      expiresIn: this.parseExpiryToSeconds(
+        this.configService.get<string>('JWT_OAUTH_STATE_EXPIRY', '10m'),
+      ),
+    });
+  }
+
   /**
    * Verify and decode access token
    */
   verifyAccessToken(token: string): AccessTokenPayload {
     try {
-      const payload = this.jwtService.verify<AccessTokenPayload>(
-        token,
-        {
-          secret: this.configService.getOrThrow<string>('JWT_ACCESS_SECRET'),
-        } as any,
-      );
+      const payload = this.verifyAccessTokenSignature(token);
 
       if (payload.type !== 'access') {
         throw new UnauthorizedException('Invalid token type');
@@ -152,22 +328,62 @@ export class TokenService {
 
       return payload;
     } catch (error) {
-      this.logger.warn(`Invalid access token: ${error.message}`);
+      this.logger.warn(
+        `Invalid access token: ${error instanceof Error ? error.message : String(error)}`,
+      );
       throw new UnauthorizedException('Invalid or expired access token');
     }
   }
 
+  /**
+   * Check the signature with the key named by the kid header, or with
+   * JWT_ACCESS_SECRET for HMAC tokens (which carry no kid) while those are
+   * accepted
+   */
+  private verifyAccessTokenSignature(token: string): AccessTokenPayload {
+    const decoded = this.jwtService.decode<{
+      header: { kid?: string };
+    } | null>(token, { complete: true });
+    const kid = decoded?.header.kid;
+
+    if (!kid) {
+      const secret = this.configService.get<string>('JWT_ACCESS_SECRET');
+      if (!secret || !this.signingKeyService.acceptsHmacTokens()) {
+        throw new Error('HMAC access tokens are not accepted');
+      }
+      return this.jwtService.verify<AccessTokenPayload>(token, {
+        secret,
+        algorithms: ['HS256'],
+      });
+    }
+
+    const key = this.signingKeyService.getVerificationKey(kid);
+    if (!key) {
+      throw new Error(`unknown signing key ${kid}`);
+    }
+
+    if (key.alg === 'EdDSA') {
+      return verifyEdDsaJwt<AccessTokenPayload>(token, key.publicKey);
+    }
+
+    return this.jwtService.verify<AccessTokenPayload>(token, {
+      publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }),
+      algorithms: [key.alg],
+    });
+  }
+
   /**
    * Verify and decode refresh token
    */
-  verifyRefreshToken(token: string): RefreshTokenPayload {
+  verifyRefreshToken(
+    token: string,
+    options: { ignoreExpiration?: boolean } = {},
+  ): RefreshTokenPayload {
     try {
-      const payload = this.jwtService.verify<RefreshTokenPayload>(
-        token,
-        {
-          secret: this.configService.getOrThrow<string>('JWT_REFRESH_SECRET'),
-        } as any,
-      );
+      const payload = this.jwtService.verify<RefreshTokenPayload>(token, {
+        secret: this.configService.getOrThrow<string>('JWT_REFRESH_SECRET'),
+        ignoreExpiration: options.ignoreExpiration ?? false,
+      } as any);
 
       if (payload.type !== 'refresh') {
         throw new UnauthorizedException('Invalid token type');
@@ -185,12 +401,9 @@ export class TokenService {
    */
   verifySignupToken(token: string): SignupTokenPayload {
     try {
-      const payload = this.jwtService.verify<SignupTokenPayload>(
-        token,
-        {
-          secret: this.configService.getOrThrow<string>('JWT_SIGNUP_SECRET'),
-        } as any,
-      );
+      const payload = this.jwtService.verify<SignupTokenPayload>(token, {
+        secret: this.configService.getOrThrow<string>('JWT_SIGNUP_SECRET'),
+      } as any);
 
       if (payload.type !== 'signup') {
         throw new UnauthorizedException('Invalid token type');
@@ -203,6 +416,50 @@ export class TokenService {
     }
   }
 
+  /**
+   * Verify and decode MFA challenge token
+   */
+  verifyMfaChallengeToken(token: string): MfaChallengeTokenPayload {
+    try {
+      const payload = this.jwtService.verify<MfaChallengeTokenPayload>(token, {
+        secret: this.configService.getOrThrow<string>('JWT_MFA_SECRET'),
+      });
+
+      if (payload.type !== 'mfa_challenge') {
+        throw new UnauthorizedException('Invalid token type');
+      }
+
+      return payload;
+    } catch (error) {
+      this.logger.warn(
+        `Invalid MFA challenge token: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+  }
+
+  /**
+   * Verify and decode OAuth state token
+   */
+  verifyOAuthStateToken(token: string): OAuthStateTokenPayload {
+    try {
+      const payload = this.jwtService.verify<OAuthStateTokenPayload>(token, {
+        secret: this.configService.getOrThrow<string>('JWT_OAUTH_STATE_SECRET'),
+      });
+
+      if (payload.type !== 'oauth_state') {
+        throw new UnauthorizedException('Invalid token type');
+      }
+
+      return payload;
+    } catch (error) {
+      this.logger.warn(
+        `Invalid OAuth state token: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new UnauthorizedException('Invalid or expired login request');
+    }
+  }
+
   /**
    * Check if refresh token needs rotation (older than 7 days)
    */
@@ -227,25 +484,63 @@ export class TokenService {
   }
 
   /**
-   * Rotate refresh token - revoke old and generate new
+   * Rotate refresh token - revoke old and generate its child in the same family
+   * Returns null if the token was already rotated by a concurrent request
    */
   async rotateRefreshToken(
     oldTokenId: string,
     userId: string,
-  ): Promise<{ token: string; expiresAt: Date }> {
+    context: SessionContext = {},
+  ): Promise<{ token: string; expiresAt: Date } | null> {
     try {
-      // Revoke old token
-      await this.prisma.refreshToken.update({
+      // Revoke old token, unless a concurrent request got there first
+      const revoked = await this.prisma.refreshToken.updateMany({
+        where: { id: oldTokenId, revoked: false },
+        data: {
+          revoked: true,
+          revokedAt: new Date(),
+          revokedReason: RefreshTokenRevokedReason.ROTATED,
+        },
+      });
+
+      if (revoked.count === 0) {
+        this.logger.warn(`Refresh token ${oldTokenId} was already rotated`);
+        return null;
+      }
+
+      const oldToken = await this.prisma.refreshToken.findUniqueOrThrow({
         where: { id: oldTokenId },
-        data: { revoked: true },
       });
 
-      this.logger.log(
-        `Rotated refresh token ${oldTokenId} for user ${userId}`,
+      this.logger.log(`Rotated refresh token ${oldTokenId} for user ${userId}`);
+
+      // Generate new token within the same family
+      const { token, expiresAt, tokenId } = await this.generateRefreshToken(
+        userId,
+        {
+          userAgent: context.userAgent ?? oldToken.userAgent ?? undefined,
+          ipAddress: context.ipAddress ?? oldToken.ipAddress ?? undefined,
+          platform: oldToken.platform ?? context.platform,
+        },
+        {
+          sessionId: oldToken.sessionId,
+          parentId: oldToken.id,
+          organizationId: oldToken.organizationId,
+        },
+        oldToken.clientId && oldToken.scope !== null
+          ? { clientId: oldToken.clientId, scope: oldToken.scope }
+          : undefined,
       );
 
-      // Generate new token
-      const { token, expiresAt } = await this.generateRefreshToken(userId);
+      this.authEventService.record({
+        type: AuthEventType.TOKEN_ROTATED,
+        userId,
+        actorId: userId,
+        sessionId: oldToken.sessionId,
+        context,
+        metadata: { fromTokenId: oldTokenId, toTokenId: tokenId },
+      });
+
       return { token, expiresAt };
     } catch (error) {
       this.logger.error('Failed to rotate refresh token', error);
@@ -254,42 +549,191 @@ export class TokenService {
   }
 
   /**
-   * Revoke refresh token
+   * Revoke refresh token (no-op if already revoked or missing)
    */
-  async revokeRefreshToken(tokenId: string): Promise<void> {
+  async revokeRefreshToken(
+    tokenId: string,
+    reason: RefreshTokenRevokedReasonValue = RefreshTokenRevokedReason.LOGOUT,
+    source: AuthEventSource = {},
+  ): Promise<void> {
+    try {
+      const [revoked] = await this.prisma.refreshToken.updateManyAndReturn({
+        where: { id: tokenId, revoked: false },
+        data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
+        select: { userId: true, sessionId: true },
+      });
+
+      if (revoked) {
+        this.logger.log(`Revoked refresh token ${tokenId}`);
+        this.authEventService.record({
+          type: AuthEventType.TOKEN_REVOKED,
+          userId: revoked.userId,
+          sessionId: revoked.sessionId,
+          ...source,
+          metadata: { reason, tokenId },
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to revoke refresh token', error);
+    }
+  }
+
+  /**
+   * Record that a refresh token was just used
+   */
+  async touchRefreshToken(
+    tokenId: string,
+    context: SessionContext = {},
+  ): Promise<void> {
     try {
       await this.prisma.refreshToken.update({
         where: { id: tokenId },
-        data: { revoked: true },
+        data: {
+          lastUsedAt: new Date(),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        },
       });
+    } catch (error) {
+      this.logger.error('Failed to update refresh token usage', error);
+    }
+  }
 
-      this.logger.log(`Revoked refresh token ${tokenId}`);
+  /**
+   * Revoke every refresh token of one logical session
+   * Returns the number of tokens revoked
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: RefreshTokenRevokedReasonValue = RefreshTokenRevokedReason.SESSION_REVOKED,
+    source: AuthEventSource = {},
+  ): Promise<number> {
+    try {
+      const result = await this.prisma.refreshToken.updateMany({
+        where: { userId, sessionId, revoked: false },
+        data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
+      });
+
+      if (result.count > 0) {
+        this.logger.log(`Revoked session ${sessionId} for user ${userId}`);
+        this.authEventService.record({
+          type: AuthEventType.TOKEN_REVOKED,
+          userId,
+          sessionId,
+          ...source,
+          metadata: { reason, revokedTokens: result.count },
+        });
+      }
+
+      return result.count;
     } catch (error) {
-      this.logger.error('Failed to revoke refresh token', error);
+      this.logger.error('Failed to revoke session', error);
+      return 0;
     }
   }
 
+  /**
+   * Set the active organization of a session (null for none); rotated
+   * tokens still inside their grace period are updated too
+   */
+  async setSessionOrganization(
+    userId: string,
+    sessionId: string,
+    organizationId: string | null,
+  ): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, sessionId },
+      data: { organizationId },
+    });
+  }
+
   /**
    * Revoke all refresh tokens for a user
    */
-  async revokeAllUserRefreshTokens(userId: string): Promise<void> {
+  async revokeAllUserRefreshTokens(
+    userId: string,
+    reason: RefreshTokenRevokedReasonValue = RefreshTokenRevokedReason.LOGOUT_ALL,
+    source: AuthEventSource = {},
+  ): Promise<void> {
     try {
-      await this.prisma.refreshToken.updateMany({
+      const result = await this.prisma.refreshToken.updateMany({
         where: { userId, revoked: false },
-        data: { revoked: true },
+        data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
       });
 
       this.logger.log(`Revoked all refresh tokens for user ${userId}`);
+      this.authEventService.record({
+        type: AuthEventType.TOKEN_REVOKED,
+        userId,
+        ...source,
+        metadata: { reason, revokedTokens: result.count },
+      });
     } catch (error) {
       this.logger.error('Failed to revoke all refresh tokens', error);
     }
   }
 
+  /**
+   * Revoke every refresh token of a user except those of the given session
+   */
+  async revokeOtherSessions(
+    userId: string,
+    keepSessionId: string | undefined,
+    reason: RefreshTokenRevokedReasonValue,
+    source: AuthEventSource = {},
+  ): Promise<void> {
+    try {
+      const result = await this.prisma.refreshToken.updateMany({
+        where: {
+          userId,
+          revoked: false,
+          ...(keepSessionId && { sessionId: { not: keepSessionId } }),
+        },
+        data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
+      });
+
+      this.logger.log(`Revoked other sessions for user ${userId}`);
+      this.authEventService.record({
+        type: AuthEventType.TOKEN_REVOKED,
+        userId,
+        ...source,
+        metadata: { reason, revokedTokens: result.count },
+      });
+    } catch (error) {
+      this.logger.error('Failed to revoke other sessions', error);
+    }
+  }
+
+  /**
+   * Seconds after a rotation during which the rotated token is still accepted,
+   * so tabs refreshing concurrently do not trip reuse detection
+   */
+  getRotationGraceSeconds(): number {
+    return parseInt(
+      this.configService.get<string>('REFRESH_TOKEN_REUSE_GRACE_SECONDS', '30'),
+      10,
+    );
+  }
+
   /**
    * Get access token expiry in seconds
    */
   getAccessTokenExpiryInSeconds(): number {
-    const expiry = this.configService.get<string>('JWT_ACCESS_EXPIRY', '15m');
+    return this.parseExpiryToSeconds(
+      this.configService.get<string>('JWT_ACCESS_EXPIRY', '15m'),
+    );
+  }
+
+  /**
+   * Get MFA challenge token expiry in seconds
+   */
+  getMfaChallengeExpiryInSeconds(): number {
+    return this.parseExpiryToSeconds(
+      this.configService.get<string>('JWT_MFA_EXPIRY', '5m'),
+    );
+  }
+
+  private parseExpiryToSeconds(expiry: string): number {
     // Parse expiry string like '15m', '2h', '7d'
     const value = parseInt(expiry.slice(0, -1), 10);
     const unit = expiry.slice(-1);
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { VerificationChannel } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { VerificationCodeService } from './verification-code.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('VerificationCodeService', () => {
+  let verificationCodeService: VerificationCodeService;
+  let prisma: {
+    $transaction: jest.Mock;
+    verificationCode: Record<string, jest.Mock>;
+  };
+
+  const record = {
+    id: 'code-1',
+    codeHash: bcrypt.hashSync('123456', 4),
+    attempts: 0,
+    maxAttempts: 5,
+    expiresAt: new Date(Date.now() + 60_000),
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn(),
+      verificationCode: {
+        findFirst: jest.fn().mockResolvedValue(record),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationCodeService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: string) =>
+              key === 'BCRYPT_SALT_ROUNDS' ? '4' : fallback,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    verificationCodeService = module.get(VerificationCodeService);
+  });
+
+  describe('issueCode', () => {
+    it('stores a hash of a six-digit code and expires earlier codes', async () => {
+      const { code } = await verificationCodeService.issueCode(
+        'attempt-1',
+        VerificationChannel.EMAIL,
+        'user@example.com',
+      );
+
+      expect(code).toMatch(/^\d{6}$/);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.verificationCode.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            signupAttemptId: 'attempt-1',
+            consumedAt: null,
+          }) as object,
+        }),
+      );
+
+      const [{ data }] = prisma.verificationCode.create.mock.calls[0] as [
+        { data: { codeHash: string } },
+      ];
+      expect(data.codeHash).not.toBe(code);
+      await expect(bcrypt.compare(code, data.codeHash)).resolves.toBe(true);
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('consumes a matching code once', async () => {
+      await expect(
+        verificationCodeService.verifyCode(
+          'attempt-1',
+          VerificationChannel.EMAIL,
+          '123456',
+        ),
+      ).resolves.toEqual({ valid: true });
+      expect(prisma.verificationCode.updateMany).toHaveBeenCalledWith({
+        where: { id: record.id, consumedAt: null },
+        data: { consumedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('rejects a code a concurrent request already consumed', async () => {
+      prisma.verificationCode.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        verificationCodeService.verifyCode(
+          'attempt-1',
+          VerificationChannel.EMAIL,
+          '123456',
+        ),
+      ).resolves.toEqual({ valid: false, reason: 'not_found' });
+    });
+
+    it('counts a wrong code and reports the attempts left', async () => {
+      await expect(
+        verificationCodeService.verifyCode(
+          'attempt-1',
+          VerificationChannel.EMAIL,
+          '000000',
+        ),
+      ).resolves.toEqual({
+        valid: false,
+        reason: 'invalid',
+        remainingAttempts: 4,
+      });
+      expect(prisma.verificationCode.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.verificationCode.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: record.id,
+          consumedAt: null,
+          attempts: { lt: record.maxAttempts },
+        },
+        data: { attempts: { increment: 1 } },
+      });
+    });
+
+    it('refuses further guesses once the attempts are used up', async () => {
+      prisma.verificationCode.findFirst.mockResolvedValue({
+        ...record,
+        attempts: 5,
+      });
+      prisma.verificationCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        verificationCodeService.verifyCode(
+          'attempt-1',
+          VerificationChannel.EMAIL,
+          '123456',
+        ),
+      ).resolves.toEqual({ valid: false, reason: 'too_many_attempts' });
+      // Only the claim was tried; the right code was not consumed
+      expect(prisma.verificationCode.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('allows no more than the maximum guesses when they arrive in parallel', async () => {
+      // Every request reads the code before any guess is counted
+      let attempts = 0;
+      prisma.verificationCode.updateMany.mockImplementation(
+        ({ where }: { where: { attempts?: { lt: number } } }) => {
+          if (where.attempts && attempts >= where.attempts.lt) {
+            return Promise.resolve({ count: 0 });
+          }
+          attempts++;
+          return Promise.resolve({ count: 1 });
+        },
+      );
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () =>
+          verificationCodeService.verifyCode(
+            'attempt-1',
+            VerificationChannel.EMAIL,
+            '000000',
+          ),
+        ),
+      );
+
+      expect(attempts).toBe(record.maxAttempts);
+      const compared = results.filter(
+        (result) => !result.valid && result.reason === 'invalid',
+      );
+      expect(compared).toHaveLength(record.maxAttempts);
+      expect(results.filter((result) => result.valid)).toHaveLength(0);
+    });
+
+    it('rejects an expired code', async () => {
+      prisma.verificationCode.findFirst.mockResolvedValue({
+        ...record,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(
+        verificationCodeService.verifyCode(
+          'attempt-1',
+          VerificationChannel.EMAIL,
+          '123456',
+        ),
+      ).resolves.toEqual({ valid: false, reason: 'expired' });
+    });
+  });
+});
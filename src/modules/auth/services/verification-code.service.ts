@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { VerificationChannel } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+
+export type VerificationFailureReason =
+  | 'not_found'
+  | 'expired'
+  | 'invalid'
+  | 'too_many_attempts';
+
+export type VerificationResult =
+  | { valid: true }
+  | {
+      valid: false;
+      reason: VerificationFailureReason;
+      remainingAttempts?: number;
+    };
+
+export interface IssuedVerificationCode {
+  code: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class VerificationCodeService {
+  private readonly logger = new Logger(VerificationCodeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a new one-time code, invalidating any previous active code
+   * for the same attempt and channel
+   */
+  async issueCode(
+    signupAttemptId: string,
+    channel: VerificationChannel,
+    target: string,
+  ): Promise<IssuedVerificationCode> {
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    const saltRounds = parseInt(
+      this.configService.get<string>('BCRYPT_SALT_ROUNDS', '10'),
+      10,
+    );
+    const codeHash = await bcrypt.hash(code, saltRounds);
+
+    const ttlMinutes = parseInt(
+      this.configService.get<string>('VERIFICATION_CODE_TTL_MINUTES', '10'),
+      10,
+    );
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    const maxAttempts = parseInt(
+      this.configService.get<string>('VERIFICATION_CODE_MAX_ATTEMPTS', '5'),
+      10,
+    );
+
+    await this.prisma.$transaction([
+      // Expire previously issued codes so only the latest one is usable
+      this.prisma.verificationCode.updateMany({
+        where: {
+          signupAttemptId,
+          channel,
+          consumedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { expiresAt: new Date() },
+      }),
+      this.prisma.verificationCode.create({
+        data: {
+          signupAttemptId,
+          channel,
+          target,
+          codeHash,
+          maxAttempts,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Issued ${channel} verification code for signup attempt ${signupAttemptId}`,
+    );
+
+    return { code, expiresAt };
+  }
+
+  /**
+   * Check a submitted code against the latest active code
+   */
+  async verifyCode(
+    signupAttemptId: string,
+    channel: VerificationChannel,
+    code: string,
+  ): Promise<VerificationResult> {
+    const record = await this.prisma.verificationCode.findFirst({
+      where: { signupAttemptId, channel, consumedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!record) {
+      return { valid: false, reason: 'not_found' };
+    }
+
+    if (record.expiresAt < new Date()) {
+      return { valid: false, reason: 'expired' };
+    }
+
+    // Claim a guess before comparing, so concurrent requests cannot all pass
+    // the limit check while the comparison is running
+    const claimed = await this.prisma.verificationCode.updateMany({
+      where: {
+        id: record.id,
+        consumedAt: null,
+        attempts: { lt: record.maxAttempts },
+      },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return { valid: false, reason: 'too_many_attempts' };
+    }
+
+    const matches = await bcrypt.compare(code, record.codeHash);
+
+    if (!matches) {
+      const remainingAttempts = Math.max(
+        record.maxAttempts - record.attempts - 1,
+        0,
+      );
+
+      this.logger.warn(
+        `Invalid ${channel} verification code for signup attempt ${signupAttemptId}`,
+      );
+
+      return remainingAttempts === 0
+        ? { valid: false, reason: 'too_many_attempts' }
+        : { valid: false, reason: 'invalid', remainingAttempts };
+    }
+
+    // Consume atomically so the same code cannot be used twice
+    const consumed = await this.prisma.verificationCode.updateMany({
+      where: { id: record.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      return { valid: false, reason: 'not_found' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Number of codes sent to a target (across all attempts) since a point in time
+   */
+  async countCodesSentToTarget(
+    channel: VerificationChannel,
+    target: string,
+    since: Date,
+  ): Promise<number> {
+    return this.prisma.verificationCode.count({
+      where: { channel, target, createdAt: { gte: since } },
+    });
+  }
+
+  /**
+   * Seconds until a new code may be sent for this attempt and channel
+   */
+  async getResendCooldownRemaining(
+    signupAttemptId: string,
+    channel: VerificationChannel,
+  ): Promise<number> {
+    const lastCode = await this.prisma.verificationCode.findFirst({
+      where: { signupAttemptId, channel },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!lastCode) {
+      return 0;
+    }
+
+    const cooldownSeconds = parseInt(
+      this.configService.get<string>(
+        'VERIFICATION_CODE_RESEND_COOLDOWN_SECONDS',
+        '60',
+      ),
+      10,
+    );
+
+    const elapsedSeconds = (Date.now() - lastCode.createdAt.getTime()) / 1000;
+
+    return Math.max(Math.ceil(cooldownSeconds - elapsedSeconds), 0);
+  }
+}
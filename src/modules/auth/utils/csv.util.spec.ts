@@ -0,0 +1,42 @@
+import { toCsvLine } from './csv.util';
+
+describe('toCsvLine', () => {
+  it('joins values with commas and ends the line with CRLF', () => {
+    expect(toCsvLine(['id', 42, true, null, undefined])).toBe(
+      'id,42,true,,\r\n',
+    );
+  });
+
+  it('formats dates as ISO strings and objects as JSON', () => {
+    expect(
+      toCsvLine([new Date('2025-11-01T12:00:00Z'), { reason: 'expired' }]),
+    ).toBe('2025-11-01T12:00:00.000Z,"{""reason"":""expired""}"\r\n');
+  });
+
+  it('quotes values containing commas, quotes or line breaks', () => {
+    expect(toCsvLine(['a,b', 'say "hi"', 'line\nbreak'])).toBe(
+      '"a,b","say ""hi""","line\nbreak"\r\n',
+    );
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tvalue', '\rvalue'])(
+    'prefixes %j with a quote so spreadsheets do not run it',
+    (value) => {
+      const line = toCsvLine([value]);
+
+      expect(line.replace(/^"/, '').startsWith(`'${value[0]}`)).toBe(true);
+    },
+  );
+
+  it('escapes a formula that also needs quoting', () => {
+    expect(toCsvLine(['=HYPERLINK("http://x","y")'])).toBe(
+      '"\'=HYPERLINK(""http://x"",""y"")"\r\n',
+    );
+  });
+
+  it('leaves values that only contain formula characters later on', () => {
+    expect(toCsvLine(['user@example.com', 'a=b'])).toBe(
+      'user@example.com,a=b\r\n',
+    );
+  });
+});
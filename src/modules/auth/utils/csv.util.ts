@@ -0,0 +1,26 @@
+/**
+ * Format one CSV line (RFC 4180). Values that a spreadsheet would run as a
+ * formula are prefixed with a quote so exports cannot carry formula injection.
+ */
+export function toCsvLine(values: unknown[]): string {
+  return (
+    values
+      .map((value) => {
+        let text =
+          value === null || value === undefined
+            ? ''
+            : value instanceof Date
+              ? value.toISOString()
+              : typeof value === 'object'
+                ? JSON.stringify(value)
+                : String(value as string | number | boolean);
+
+        if (/^[=+\-@\t\r]/.test(text)) {
+          text = `'${text}`;
+        }
+
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
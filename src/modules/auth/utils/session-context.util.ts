@@ -0,0 +1,37 @@
+import type { FastifyRequest } from 'fastify';
+import { SessionContext } from '../services/token.service';
+
+/**
+ * Coarse operating system detection for the sessions list
+ */
+function detectPlatform(userAgent?: string): string | undefined {
+  if (!userAgent) {
+    return undefined;
+  }
+
+  if (/android/i.test(userAgent)) return 'Android';
+  if (/iphone|ipad|ipod/i.test(userAgent)) return 'iOS';
+  if (/windows/i.test(userAgent)) return 'Windows';
+  if (/mac os x|macintosh/i.test(userAgent)) return 'macOS';
+  if (/linux/i.test(userAgent)) return 'Linux';
+
+  return undefined;
+}
+
+/**
+ * Collect session metadata from the request
+ * Clients may name their platform (e.g. the micro-frontend) via X-Client-Platform
+ */
+export function getSessionContext(req: FastifyRequest): SessionContext {
+  const userAgent = req.headers['user-agent'];
+  const clientPlatform = req.headers['x-client-platform'];
+
+  return {
+    userAgent,
+    ipAddress: req.ip,
+    requestId: req.id,
+    platform:
+      (typeof clientPlatform === 'string' && clientPlatform.slice(0, 64)) ||
+      detectPlatform(userAgent),
+  };
+}
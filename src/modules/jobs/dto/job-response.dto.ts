@@ -0,0 +1,23 @@
+import { JobRun } from '@prisma/client';
+import { JobInfo } from '../job-runner.service';
+
+export class JobListResponseDto {
+  success: true;
+  jobs: (JobInfo & { lastRun: JobRun | null })[];
+}
+
+export class JobRunListResponseDto {
+  success: true;
+  runs: JobRun[];
+}
+
+export class JobRunResponseDto {
+  success: true;
+  run: JobRun;
+}
+
+export class JobFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+}
@@ -0,0 +1,10 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * A maintenance job run on a cron schedule by one instance at a time
+ */
+export interface ScheduledJob {
+  name: string;
+  defaultCron: string; // overridable with JOB_<NAME>_CRON
+  run: () => Promise<Prisma.InputJsonObject>; // returned object is stored as the run result
+}
@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { JobRunStatus } from '@prisma/client';
+import { Client } from 'pg';
+import { JobRunnerService } from './job-runner.service';
+import { MaintenanceJobsService } from './maintenance-jobs.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+jest.mock('pg', () => ({ Client: jest.fn() }));
+
+describe('JobRunnerService', () => {
+  let jobRunner: JobRunnerService;
+  let job: { name: string; defaultCron: string; run: jest.Mock };
+  let client: Record<'connect' | 'query' | 'end', jest.Mock>;
+  let config: Record<string, string>;
+  let jobRun: Record<string, jest.Mock>;
+
+  const lockQuery = (sql: string) =>
+    (client.query.mock.calls as [string, string[]?][]).filter(([text]) =>
+      text.includes(sql),
+    );
+
+  beforeEach(async () => {
+    job = {
+      name: 'purge-tokens',
+      defaultCron: '0 * * * *',
+      run: jest.fn().mockResolvedValue({ purged: 3 }),
+    };
+    client = {
+      connect: jest.fn(),
+      query: jest.fn((sql: string) =>
+        sql.includes('pg_try_advisory_lock')
+          ? { rows: [{ locked: true }] }
+          : { rows: [] },
+      ),
+      end: jest.fn(),
+    };
+    (Client as unknown as jest.Mock).mockReset().mockReturnValue(client);
+    config = { DATABASE_URL: 'postgresql://pooled/auth' };
+    jobRun = {
+      create: jest.fn().mockResolvedValue({ id: 'run-1' }),
+      update: jest.fn(({ data }: { data: object }) => ({
+        id: 'run-1',
+        ...data,
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobRunnerService,
+        { provide: PrismaService, useValue: { jobRun } },
+        { provide: SchedulerRegistry, useValue: { addCronJob: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, fallback?: string) => config[key] ?? fallback,
+            ),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        {
+          provide: MaintenanceJobsService,
+          useValue: { getJobs: () => [job] },
+        },
+      ],
+    }).compile();
+
+    jobRunner = module.get(JobRunnerService);
+  });
+
+  describe('runJob', () => {
+    it('holds an advisory lock named after the job for the whole run', async () => {
+      job.run.mockImplementation(() => {
+        // Still locked while the job runs
+        expect(lockQuery('pg_advisory_unlock')).toHaveLength(0);
+        return Promise.resolve({ purged: 3 });
+      });
+
+      const run = await jobRunner.runJob(job.name, 'manual', 'admin-1');
+
+      expect(Client).toHaveBeenCalledWith({
+        connectionString: config.DATABASE_URL,
+      });
+      expect(lockQuery('pg_try_advisory_lock')[0][1]).toEqual([
+        `job:${job.name}`,
+      ]);
+      expect(lockQuery('pg_advisory_unlock')[0][1]).toEqual([
+        `job:${job.name}`,
+      ]);
+      expect(client.end).toHaveBeenCalledTimes(1);
+
+      expect(jobRun.create).toHaveBeenCalledWith({
+        data: { job: job.name, trigger: 'manual', triggeredBy: 'admin-1' },
+      });
+      expect(run).toMatchObject({
+        status: JobRunStatus.SUCCEEDED,
+        result: { purged: 3 },
+      });
+    });
+
+    it('takes the lock over DIRECT_URL when it is set', async () => {
+      config.DIRECT_URL = 'postgresql://direct/auth';
+
+      await jobRunner.runJob(job.name, 'schedule');
+
+      expect(Client).toHaveBeenCalledWith({
+        connectionString: config.DIRECT_URL,
+      });
+    });
+
+    it('skips the job while another instance holds the lock', async () => {
+      client.query.mockReturnValue({ rows: [{ locked: false }] });
+
+      await expect(jobRunner.runJob(job.name, 'schedule')).resolves.toBeNull();
+
+      expect(job.run).not.toHaveBeenCalled();
+      expect(jobRun.create).not.toHaveBeenCalled();
+      expect(lockQuery('pg_advisory_unlock')).toHaveLength(0);
+      expect(client.end).toHaveBeenCalledTimes(1);
+    });
+
+    it('records a failed run when the job throws and releases the lock', async () => {
+      job.run.mockRejectedValue(new Error('database unavailable'));
+
+      const run = await jobRunner.runJob(job.name, 'schedule');
+
+      expect(run).toMatchObject({
+        status: JobRunStatus.FAILED,
+        error: 'database unavailable',
+      });
+      const [{ data }] = jobRun.update.mock.calls[0] as [
+        { data: Record<string, unknown> },
+      ];
+      expect(data.finishedAt).toBeInstanceOf(Date);
+      expect(lockQuery('pg_advisory_unlock')).toHaveLength(1);
+      expect(client.end).toHaveBeenCalledTimes(1);
+    });
+
+    it('releases the lock when the run cannot be recorded', async () => {
+      jobRun.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(jobRunner.runJob(job.name, 'schedule')).rejects.toThrow(
+        'connection lost',
+      );
+      expect(lockQuery('pg_advisory_unlock')).toHaveLength(1);
+      expect(client.end).toHaveBeenCalledTimes(1);
+    });
+
+    it('rethrows when the lock connection fails', async () => {
+      client.connect.mockRejectedValue(new Error('connection refused'));
+
+      await expect(jobRunner.runJob(job.name, 'schedule')).rejects.toThrow(
+        'connection refused',
+      );
+      expect(job.run).not.toHaveBeenCalled();
+    });
+
+    it('refuses unknown jobs', async () => {
+      await expect(jobRunner.runJob('unknown', 'manual')).rejects.toThrow(
+        'Unknown job unknown',
+      );
+      expect(Client).not.toHaveBeenCalled();
+    });
+  });
+});
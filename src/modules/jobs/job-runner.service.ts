@@ -0,0 +1,193 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { Client } from 'pg';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MaintenanceJobsService } from './maintenance-jobs.service';
+import { ScheduledJob } from './interfaces/scheduled-job.interface';
+import { JobRun, JobRunStatus } from '@prisma/client';
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface JobInfo {
+  name: string;
+  cron: string;
+}
+
+@Injectable()
+export class JobRunnerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(JobRunnerService.name);
+  private readonly jobs: Map<string, ScheduledJob>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly configService: ConfigService,
+    maintenanceJobsService: MaintenanceJobsService,
+  ) {
+    this.jobs = new Map(
+      maintenanceJobsService.getJobs().map((job) => [job.name, job]),
+    );
+  }
+
+  /**
+   * Register every job with the scheduler unless JOBS_ENABLED is false
+   */
+  onApplicationBootstrap() {
+    if (this.configService.get<string>('JOBS_ENABLED', 'true') === 'false') {
+      this.logger.log('Scheduled jobs are disabled');
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      const cronJob = CronJob.from({
+        cronTime: this.getCron(job),
+        onTick: () => {
+          // Failures are logged by runJob
+          this.runJob(job.name, 'schedule').catch(() => undefined);
+        },
+        start: true,
+      });
+
+      this.schedulerRegistry.addCronJob(job.name, cronJob);
+      this.logger.log(`Scheduled job ${job.name} (${this.getCron(job)})`);
+    }
+  }
+
+  listJobs(): JobInfo[] {
+    return [...this.jobs.values()].map((job) => ({
+      name: job.name,
+      cron: this.getCron(job),
+    }));
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Run a job if no other instance is running it.
+   * A session-level Postgres advisory lock is held on a dedicated connection
+   * for as long as the job runs, and released when it finishes or when the
+   * connection drops.
+   * Returns the recorded run, or null when the lock is held elsewhere.
+   */
+  async runJob(
+    name: string,
+    trigger: JobTrigger,
+    triggeredBy?: string,
+  ): Promise<JobRun | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job ${name}`);
+    }
+
+    try {
+      return await this.withJobLock(name, () =>
+        this.execute(job, trigger, triggeredBy),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to run job ${name}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  async listRuns(job?: string, limit = 50): Promise<JobRun[]> {
+    return this.prisma.jobRun.findMany({
+      where: job ? { job } : {},
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Run the job and record the outcome; job failures are recorded, not thrown
+   */
+  private async execute(
+    job: ScheduledJob,
+    trigger: JobTrigger,
+    triggeredBy?: string,
+  ): Promise<JobRun> {
+    const run = await this.prisma.jobRun.create({
+      data: { job: job.name, trigger, triggeredBy },
+    });
+
+    try {
+      const result = await job.run();
+
+      this.logger.log(`Job ${job.name} succeeded: ${JSON.stringify(result)}`);
+
+      return await this.prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: JobRunStatus.SUCCEEDED,
+          result,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Job ${job.name} failed`, error);
+
+      return this.prisma.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: JobRunStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Run fn while holding the job's advisory lock, or return null if another
+   * instance holds it. The lock needs its own connection: a pooled one may
+   * serve other queries while the job runs. DIRECT_URL bypasses a
+   * transaction-pooling proxy, which would not keep the session.
+   */
+  private async withJobLock<T>(
+    name: string,
+    fn: () => Promise<T>,
+  ): Promise<T | null> {
+    const lockName = `job:${name}`;
+    const client = new Client({
+      connectionString:
+        this.configService.get<string>('DIRECT_URL') ||
+        this.configService.getOrThrow<string>('DATABASE_URL'),
+    });
+    await client.connect();
+
+    try {
+      const {
+        rows: [{ locked }],
+      } = await client.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+        [lockName],
+      );
+
+      if (!locked) {
+        this.logger.debug(`Job ${name} is running on another instance`);
+        return null;
+      }
+
+      try {
+        return await fn();
+      } finally {
+        await client.query('SELECT pg_advisory_unlock(hashtext($1))', [
+          lockName,
+        ]);
+      }
+    } finally {
+      await client.end();
+    }
+  }
+
+  private getCron(job: ScheduledJob): string {
+    const configKey = `JOB_${job.name.toUpperCase().replace(/-/g, '_')}_CRON`;
+    return this.configService.get<string>(configKey, job.defaultCron);
+  }
+}
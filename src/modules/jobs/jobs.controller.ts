@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Res,
+  HttpStatus,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { JobRunnerService } from './job-runner.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthorizationGuard } from '../auth/guards/authorization.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/constants/permissions';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  JobFailureResponseDto,
+  JobListResponseDto,
+  JobRunListResponseDto,
+  JobRunResponseDto,
+} from './dto/job-response.dto';
+import type { User } from '@prisma/client';
+
+@Controller('admin/jobs')
+@UseGuards(JwtAuthGuard, AuthorizationGuard)
+@RequirePermissions(Permission.JOBS_MANAGE)
+export class JobsController {
+  private readonly logger = new Logger(JobsController.name);
+
+  constructor(private readonly jobRunnerService: JobRunnerService) {}
+
+  /**
+   * GET /admin/jobs
+   * List scheduled jobs with their latest run
+   */
+  @Get()
+  async listJobs(@Res() res: FastifyReply) {
+    const jobs = await Promise.all(
+      this.jobRunnerService.listJobs().map(async (job) => {
+        const [lastRun] = await this.jobRunnerService.listRuns(job.name, 1);
+        return { ...job, lastRun: lastRun ?? null };
+      }),
+    );
+
+    const response: JobListResponseDto = { success: true, jobs };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * GET /admin/jobs/runs?job=<name>&limit=<n>
+   * Run history, newest first
+   */
+  @Get('runs')
+  async listRuns(
+    @Query('job') job: string | undefined,
+    @Query('limit') limit: string | undefined,
+    @Res() res: FastifyReply,
+  ) {
+    const take = Math.min(Math.max(parseInt(limit ?? '50', 10) || 50, 1), 500);
+    const runs = await this.jobRunnerService.listRuns(job, take);
+
+    const response: JobRunListResponseDto = { success: true, runs };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /admin/jobs/:name/run
+   * Run a job now and wait for it to finish
+   */
+  @Post(':name/run')
+  async runJob(
+    @Param('name') name: string,
+    @CurrentUser() user: User,
+    @Res() res: FastifyReply,
+  ) {
+    if (!this.jobRunnerService.hasJob(name)) {
+      const response: JobFailureResponseDto = {
+        success: false,
+        message: `Unknown job ${name}`,
+        statusCode: HttpStatus.NOT_FOUND,
+      };
+      return res.status(HttpStatus.NOT_FOUND).send(response);
+    }
+
+    this.logger.log(`Job ${name} triggered manually by user ${user.id}`);
+
+    const run = await this.jobRunnerService.runJob(name, 'manual', user.id);
+
+    if (!run) {
+      const response: JobFailureResponseDto = {
+        success: false,
+        message: `Job ${name} is already running`,
+        statusCode: HttpStatus.CONFLICT,
+      };
+      return res.status(HttpStatus.CONFLICT).send(response);
+    }
+
+    const response: JobRunResponseDto = { success: true, run };
+    return res.status(HttpStatus.OK).send(response);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { JobsController } from './jobs.controller';
+import { JobRunnerService } from './job-runner.service';
+import { MaintenanceJobsService } from './maintenance-jobs.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [JobsController],
+  providers: [JobRunnerService, MaintenanceJobsService],
+  exports: [JobRunnerService],
+})
+export class JobsModule {}
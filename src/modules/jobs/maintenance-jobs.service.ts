@@ -0,0 +1,177 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SignupAttemptService } from '../auth/services/signup-attempt.service';
+import { AccountService } from '../auth/services/account.service';
+import { ScheduledJob } from './interfaces/scheduled-job.interface';
+import { AttemptStatus } from '@prisma/client';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Housekeeping jobs for signup attempts, deleted accounts and short-lived
+ * credentials
+ */
+@Injectable()
+export class MaintenanceJobsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly signupAttemptService: SignupAttemptService,
+    private readonly accountService: AccountService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  getJobs(): ScheduledJob[] {
+    return [
+      {
+        name: 'expire-signup-attempts',
+        defaultCron: '*/5 * * * *',
+        run: () => this.expireSignupAttempts(),
+      },
+      {
+        name: 'purge-tokens',
+        defaultCron: '0 * * * *',
+        run: () => this.purgeTokens(),
+      },
+      {
+        name: 'finalize-account-deletions',
+        defaultCron: '15 * * * *',
+        run: () => this.finalizeAccountDeletions(),
+      },
+      {
+        name: 'purge-records',
+        defaultCron: '30 3 * * *',
+        run: () => this.purgeRecords(),
+      },
+    ];
+  }
+
+  /**
+   * Expire attempts past their expiry, then abandon attempts idle for too long
+   */
+  private async expireSignupAttempts() {
+    const expired = await this.signupAttemptService.markExpiredAttempts();
+
+    const abandonAfterMinutes = this.getNumber(
+      'SIGNUP_ATTEMPT_ABANDON_AFTER_MINUTES',
+      '60',
+    );
+    const abandoned = await this.signupAttemptService.markAbandonedAttempts(
+      new Date(Date.now() - abandonAfterMinutes * MINUTE_MS),
+    );
+
+    return { expired, abandoned };
+  }
+
+  /**
+   * Anonymize accounts whose deletion grace period has ended
+   */
+  private async finalizeAccountDeletions() {
+    const anonymized = await this.accountService.finalizeDueDeletions();
+    return { anonymized };
+  }
+
+  /**
+   * Hard-delete refresh tokens, password reset and email change tokens,
+   * verification codes and OAuth authorization codes that expired or were
+   * revoked/used before the retention window
+   */
+  private async purgeTokens() {
+    const refreshTokenCutoff = this.getCutoff(
+      'REFRESH_TOKEN_RETENTION_DAYS',
+      '30',
+    );
+    const verificationCutoff = this.getCutoff(
+      'VERIFICATION_RETENTION_DAYS',
+      '7',
+    );
+
+    const refreshTokens = await this.prisma.refreshToken.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: refreshTokenCutoff } },
+          { revoked: true, revokedAt: { lt: refreshTokenCutoff } },
+        ],
+      },
+    });
+
+    const passwordResetTokens = await this.prisma.passwordResetToken.deleteMany(
+      {
+        where: { createdAt: { lt: verificationCutoff } },
+      },
+    );
+
+    const emailChangeTokens = await this.prisma.emailChangeToken.deleteMany({
+      where: { createdAt: { lt: verificationCutoff } },
+    });
+
+    const verificationCodes = await this.prisma.verificationCode.deleteMany({
+      where: { createdAt: { lt: verificationCutoff } },
+    });
+
+    const authorizationCodes =
+      await this.prisma.oAuthAuthorizationCode.deleteMany({
+        where: { createdAt: { lt: verificationCutoff } },
+      });
+
+    return {
+      refreshTokens: refreshTokens.count,
+      passwordResetTokens: passwordResetTokens.count,
+      emailChangeTokens: emailChangeTokens.count,
+      verificationCodes: verificationCodes.count,
+      authorizationCodes: authorizationCodes.count,
+    };
+  }
+
+  /**
+   * Hard-delete finished signup attempts, expired rate limit counters, old job
+   * runs and auth events past their retention
+   */
+  private async purgeRecords() {
+    const signupAttempts = await this.prisma.signupAttempt.deleteMany({
+      where: {
+        status: { not: AttemptStatus.IN_PROGRESS },
+        updatedAt: {
+          lt: this.getCutoff('SIGNUP_ATTEMPT_RETENTION_DAYS', '30'),
+        },
+      },
+    });
+
+    const rateLimitCounters = await this.prisma.rateLimitCounter.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    const jobRuns = await this.prisma.jobRun.deleteMany({
+      where: {
+        startedAt: { lt: this.getCutoff('JOB_RUN_RETENTION_DAYS', '30') },
+      },
+    });
+
+    const authEvents = await this.prisma.authEvent.deleteMany({
+      where: {
+        createdAt: { lt: this.getCutoff('AUTH_EVENT_RETENTION_DAYS', '365') },
+      },
+    });
+
+    return {
+      signupAttempts: signupAttempts.count,
+      rateLimitCounters: rateLimitCounters.count,
+      jobRuns: jobRuns.count,
+      authEvents: authEvents.count,
+    };
+  }
+
+  private getCutoff(configKey: string, defaultDays: string): Date {
+    return new Date(
+      Date.now() - this.getNumber(configKey, defaultDays) * DAY_MS,
+    );
+  }
+
+  private getNumber(configKey: string, defaultValue: string): number {
+    return parseInt(
+      this.configService.get<string>(configKey, defaultValue),
+      10,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Injection token for the active mail transport
+ */
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/**
+ * Contract every mail transport (console, file, SMTP, provider API) implements
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
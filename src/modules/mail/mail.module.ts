@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import {
+  MAIL_TRANSPORT,
+  MailTransport,
+} from './interfaces/mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>(
+          'MAIL_TRANSPORT',
+          'console',
+        );
+
+        if (transport === 'file') {
+          return new FileMailTransport(
+            configService.get<string>('MAIL_FILE_DIR', '.tmp/mail'),
+          );
+        }
+
+        return new ConsoleMailTransport();
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
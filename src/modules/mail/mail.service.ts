@@ -0,0 +1,31 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './interfaces/mail-transport.interface';
+import type {
+  MailMessage,
+  MailTransport,
+} from './interfaces/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send mail through the configured transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    const from = this.configService.get<string>(
+      'MAIL_FROM',
+      'no-reply@vritti.local',
+    );
+
+    await this.transport.send({ ...message, from });
+
+    this.logger.log(`Sent "${message.subject}" to ${message.to}`);
+  }
+}
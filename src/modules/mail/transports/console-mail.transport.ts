@@ -0,0 +1,19 @@
+import { Logger } from '@nestjs/common';
+import {
+  MailTransport,
+  OutgoingMail,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Prints outgoing mail to the application log (local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(mail: OutgoingMail): Promise<void> {
+    this.logger.log(
+      `Mail to ${mail.to} from ${mail.from}\nSubject: ${mail.subject}\n\n${mail.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,32 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  MailTransport,
+  OutgoingMail,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Writes outgoing mail as JSON files into a directory (local development and tests)
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly directory: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomUUID()}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...mail, sentAt: new Date().toISOString() }, null, 2),
+      'utf-8',
+    );
+
+    this.logger.log(`Mail to ${mail.to} written to ${filePath}`);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  ExecutionContext,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsTokenGuard } from './metrics-token.guard';
+
+describe('MetricsTokenGuard', () => {
+  const reply = { header: jest.fn() };
+
+  const createContext = (authorization?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { authorization }, ip: '10.0.0.1' }),
+        getResponse: () => reply,
+      }),
+    }) as ExecutionContext;
+
+  const createGuard = (token?: string) =>
+    new MetricsTokenGuard({
+      get: jest.fn(() => token),
+    } as unknown as ConfigService);
+
+  it('hides the endpoint when METRICS_TOKEN is not set', () => {
+    expect(() =>
+      createGuard().canActivate(createContext('Bearer anything')),
+    ).toThrow(NotFoundException);
+  });
+
+  it('admits the configured bearer token', () => {
+    expect(
+      createGuard('scrape-secret').canActivate(
+        createContext('Bearer scrape-secret'),
+      ),
+    ).toBe(true);
+  });
+
+  it.each([undefined, 'Bearer wrong', 'Basic c2NyYXBlLXNlY3JldA=='])(
+    'rejects the authorization header %p',
+    (authorization) => {
+      expect(() =>
+        createGuard('scrape-secret').canActivate(createContext(authorization)),
+      ).toThrow(UnauthorizedException);
+      expect(reply.header).toHaveBeenCalledWith(
+        'WWW-Authenticate',
+        'Bearer realm="metrics"',
+      );
+    },
+  );
+});
@@ -0,0 +1,54 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import * as crypto from 'crypto';
+
+/**
+ * Admits scrapers presenting METRICS_TOKEN as a bearer token. Without
+ * METRICS_TOKEN the metrics endpoint is disabled and answers 404.
+ */
+@Injectable()
+export class MetricsTokenGuard implements CanActivate {
+  private readonly logger = new Logger(MetricsTokenGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const reply = context.switchToHttp().getResponse<FastifyReply>();
+
+    const expectedToken = this.configService.get<string>('METRICS_TOKEN');
+    if (!expectedToken) {
+      throw new NotFoundException();
+    }
+
+    const authHeader = request.headers.authorization;
+    if (
+      !authHeader ||
+      !authHeader.startsWith('Bearer ') ||
+      !this.tokensMatch(authHeader.substring(7), expectedToken)
+    ) {
+      this.logger.warn(`Rejected metrics scrape from ${request.ip}`);
+      reply.header('WWW-Authenticate', 'Bearer realm="metrics"');
+      throw new UnauthorizedException('Invalid metrics token');
+    }
+
+    return true;
+  }
+
+  /**
+   * Constant-time comparison (hashing first makes the lengths equal)
+   */
+  private tokensMatch(actual: string, expected: string): boolean {
+    const hash = (value: string) =>
+      crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(hash(actual), hash(expected));
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, HttpStatus, Res, UseGuards } from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { MetricsService } from './metrics.service';
+import { MetricsTokenGuard } from './guards/metrics-token.guard';
+
+/**
+ * Prometheus scrape endpoint, enabled by setting METRICS_TOKEN
+ */
+@Controller('metrics')
+@UseGuards(MetricsTokenGuard)
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * GET /metrics
+   * All metrics in the Prometheus text format (Authorization: Bearer <METRICS_TOKEN>)
+   */
+  @Get()
+  async getMetrics(@Res() res: FastifyReply) {
+    const metrics = await this.metricsService.getMetrics();
+
+    res.header('Content-Type', this.metricsService.contentType);
+    res.header('Cache-Control', 'no-store');
+    return res.status(HttpStatus.OK).send(metrics);
+  }
+}
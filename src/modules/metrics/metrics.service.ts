@@ -0,0 +1,143 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import type { FastifyInstance } from 'fastify';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import * as si from 'systeminformation';
+
+const PRISMA_OPERATIONS = new Set([
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'BEGIN',
+  'COMMIT',
+  'ROLLBACK',
+]);
+
+/**
+ * Prometheus metrics for the /metrics endpoint. Process metrics (CPU,
+ * memory, event-loop lag) come from prom-client's defaults; HTTP, auth and
+ * Prisma metrics are recorded by the code that observes them.
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit {
+  private readonly logger = new Logger(MetricsService.name);
+  readonly registry = new Registry();
+
+  readonly httpRequestsTotal = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests handled, by route and status',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    registers: [this.registry],
+  });
+
+  readonly httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency, by route and status',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  readonly authSignupsTotal = new Counter({
+    name: 'auth_signups_total',
+    help: 'Signup attempts started or resumed',
+    labelNames: ['outcome'] as const,
+    registers: [this.registry],
+  });
+
+  readonly authRefreshTotal = new Counter({
+    name: 'auth_refresh_total',
+    help: 'Session refreshes, by outcome and failure reason',
+    labelNames: ['outcome', 'reason'] as const,
+    registers: [this.registry],
+  });
+
+  readonly authTokenRotationsTotal = new Counter({
+    name: 'auth_token_rotations_total',
+    help: 'Refresh tokens rotated',
+    registers: [this.registry],
+  });
+
+  readonly prismaQueryDuration = new Histogram({
+    name: 'prisma_query_duration_seconds',
+    help: 'Database query duration reported by Prisma, by operation',
+    labelNames: ['operation'] as const,
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+
+  constructor(private readonly adapterHost: HttpAdapterHost) {
+    collectDefaultMetrics({ register: this.registry });
+
+    // Host-wide figures, as shown on the server usage page
+    new Gauge({
+      name: 'system_cpu_usage_percent',
+      help: 'Current CPU load of the host',
+      registers: [this.registry],
+      async collect() {
+        this.set((await si.currentLoad()).currentLoad);
+      },
+    });
+    new Gauge({
+      name: 'system_memory_bytes',
+      help: 'Memory of the host, by state',
+      labelNames: ['state'] as const,
+      registers: [this.registry],
+      async collect() {
+        const memory = await si.mem();
+        this.set({ state: 'used' }, memory.used);
+        this.set({ state: 'total' }, memory.total);
+      },
+    });
+  }
+
+  onModuleInit() {
+    const fastify =
+      this.adapterHost.httpAdapter?.getInstance<FastifyInstance>();
+    if (!fastify) {
+      this.logger.warn('No HTTP server, request metrics are disabled');
+      return;
+    }
+
+    fastify.addHook('onResponse', (request, reply, done) => {
+      // Label by route pattern so ids in paths do not create new series
+      const labels = {
+        method: request.method,
+        route: request.routeOptions.url ?? 'unmatched',
+        status_code: String(reply.statusCode),
+      };
+      this.httpRequestsTotal.inc(labels);
+      this.httpRequestDuration.observe(labels, reply.elapsedTime / 1000);
+      done();
+    });
+  }
+
+  /**
+   * Record a Prisma query event; duration is in milliseconds
+   */
+  observeQuery(query: string, durationMs: number): void {
+    const keyword = query.trimStart().split(/\s/, 1)[0].toUpperCase();
+    this.prismaQueryDuration.observe(
+      { operation: PRISMA_OPERATIONS.has(keyword) ? keyword : 'OTHER' },
+      durationMs / 1000,
+    );
+  }
+
+  /**
+   * Everything in the registry, in the Prometheus text format
+   */
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
@@ -0,0 +1,268 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OAuthClient, User } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ClientRegistryService } from './client-registry.service';
+import { AuthorizeDecisionDto, AuthorizeRequestDto } from './dto/authorize.dto';
+import {
+  AuthorizeRedirectResponseDto,
+  ConsentRequiredResponseDto,
+  OAuthErrorResponseDto,
+} from './dto/oauth-response.dto';
+import {
+  OAUTH_SCOPE_DESCRIPTIONS,
+  OAuthScopeName,
+} from '../auth/constants/oauth-scopes';
+
+/**
+ * Authorization request that passed validation
+ */
+export interface ValidatedAuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  codeChallenge: string;
+}
+
+/**
+ * Invalid authorization request. Errors are only redirected to the client
+ * (redirectTo) once the client and redirect URI are known to be valid.
+ */
+export interface AuthorizationRequestError {
+  error: OAuthErrorResponseDto;
+  redirectTo?: string;
+}
+
+/**
+ * Authorization endpoint: request validation, consent and code issuance
+ */
+@Injectable()
+export class AuthorizationService {
+  private readonly logger = new Logger(AuthorizationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly clientRegistryService: ClientRegistryService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Validate an authorization request; only the code flow with PKCE S256 is supported
+   */
+  async validateRequest(
+    dto: AuthorizeRequestDto,
+  ): Promise<ValidatedAuthorizationRequest | AuthorizationRequestError> {
+    const client = dto.client_id
+      ? await this.clientRegistryService.findClient(dto.client_id)
+      : null;
+
+    if (!client) {
+      return { error: this.createError('invalid_request', 'Unknown client') };
+    }
+
+    if (
+      !dto.redirect_uri ||
+      !this.clientRegistryService.isRedirectUriAllowed(client, dto.redirect_uri)
+    ) {
+      this.logger.warn(`Redirect URI not allowed for client ${client.id}`);
+      return {
+        error: this.createError(
+          'invalid_request',
+          'Redirect URI is not registered for this client',
+        ),
+      };
+    }
+
+    const redirectError = (error: string, description: string) => ({
+      error: this.createError(error, description),
+      redirectTo: this.buildRedirect(dto.redirect_uri!, {
+        error,
+        error_description: description,
+        state: dto.state,
+      }),
+    });
+
+    if (dto.response_type !== 'code') {
+      return redirectError(
+        'unsupported_response_type',
+        'Only the authorization code flow is supported',
+      );
+    }
+
+    if (!dto.code_challenge || dto.code_challenge_method !== 'S256') {
+      return redirectError(
+        'invalid_request',
+        'PKCE with code_challenge_method S256 is required',
+      );
+    }
+
+    const scopes = this.clientRegistryService.resolveScopes(client, dto.scope);
+    if (!scopes) {
+      return redirectError(
+        'invalid_scope',
+        'Requested scope is not allowed for this client',
+      );
+    }
+
+    return {
+      client,
+      redirectUri: dto.redirect_uri,
+      scopes,
+      state: dto.state,
+      codeChallenge: dto.code_challenge,
+    };
+  }
+
+  /**
+   * Frontend consent page the browser is sent to with the request parameters
+   */
+  buildConsentUrl(dto: AuthorizeRequestDto): string {
+    const url = new URL(
+      this.configService.get<string>(
+        'OAUTH_CONSENT_URL',
+        'http://localhost:5173/oauth/consent',
+      ),
+    );
+
+    for (const [key, value] of Object.entries(dto)) {
+      if (typeof value === 'string') {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Decide an authorization request for the logged-in user: redirect with a
+   * code when consent is on record (or given now), otherwise ask for consent
+   */
+  async decide(
+    user: User,
+    dto: AuthorizeDecisionDto,
+  ): Promise<
+    | AuthorizeRedirectResponseDto
+    | ConsentRequiredResponseDto
+    | OAuthErrorResponseDto
+  > {
+    const request = await this.validateRequest(dto);
+
+    if ('error' in request) {
+      return request.redirectTo
+        ? { success: true, redirectTo: request.redirectTo }
+        : request.error;
+    }
+
+    const { client, scopes, redirectUri, state } = request;
+
+    if (dto.approve === false) {
+      this.logger.log(`User ${user.id} denied client ${client.id}`);
+      return {
+        success: true,
+        redirectTo: this.buildRedirect(redirectUri, {
+          error: 'access_denied',
+          error_description: 'The user denied the request',
+          state,
+        }),
+      };
+    }
+
+    const consent = await this.prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId: user.id, clientId: client.id } },
+    });
+    const consented =
+      client.firstParty ||
+      scopes.every((scope) => consent?.scopes.includes(scope));
+
+    if (!consented && dto.approve !== true) {
+      return {
+        success: true,
+        consentRequired: true,
+        client: { clientId: client.id, name: client.name },
+        scopes: scopes.map((scope) => ({
+          scope,
+          description: OAUTH_SCOPE_DESCRIPTIONS[scope as OAuthScopeName],
+        })),
+      };
+    }
+
+    if (!consented) {
+      const grantedScopes = [
+        ...new Set([...(consent?.scopes ?? []), ...scopes]),
+      ];
+      await this.prisma.oAuthConsent.upsert({
+        where: { userId_clientId: { userId: user.id, clientId: client.id } },
+        create: { userId: user.id, clientId: client.id, scopes: grantedScopes },
+        update: { scopes: grantedScopes },
+      });
+      this.logger.log(
+        `User ${user.id} granted ${scopes.join(' ')} to client ${client.id}`,
+      );
+    }
+
+    const code = await this.issueCode(user.id, request);
+
+    return {
+      success: true,
+      redirectTo: this.buildRedirect(redirectUri, { code, state }),
+    };
+  }
+
+  /**
+   * Client redirect URI with response parameters added to its query
+   */
+  buildRedirect(
+    redirectUri: string,
+    params: Record<string, string | undefined>,
+  ): string {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Store a single-use authorization code (60 seconds by default)
+   */
+  private async issueCode(
+    userId: string,
+    request: ValidatedAuthorizationRequest,
+  ): Promise<string> {
+    const code = crypto.randomBytes(32).toString('base64url');
+
+    const ttlSeconds = parseInt(
+      this.configService.get<string>('OAUTH_CODE_TTL_SECONDS', '60'),
+      10,
+    );
+
+    await this.prisma.oAuthAuthorizationCode.create({
+      data: {
+        codeHash: crypto.createHash('sha256').update(code).digest('hex'),
+        clientId: request.client.id,
+        userId,
+        redirectUri: request.redirectUri,
+        scope: request.scopes.join(' '),
+        codeChallenge: request.codeChallenge,
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      },
+    });
+
+    this.logger.log(
+      `Issued authorization code for user ${userId} to client ${request.client.id}`,
+    );
+
+    return code;
+  }
+
+  private createError(
+    error: string,
+    description: string,
+  ): OAuthErrorResponseDto {
+    return { error, error_description: description, statusCode: 400 };
+  }
+}
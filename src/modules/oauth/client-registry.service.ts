@@ -0,0 +1,189 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { OAuthClient, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { OAuthClientDto } from './dto/oauth-response.dto';
+
+/**
+ * Client credentials as sent to the token and revocation endpoints
+ */
+export interface ClientCredentials {
+  authorization?: string; // HTTP Basic (client_secret_basic)
+  clientId?: string; // request body (client_secret_post, or public clients)
+  clientSecret?: string;
+}
+
+/**
+ * Registered OAuth clients: lookup, authentication and administration
+ */
+@Injectable()
+export class ClientRegistryService {
+  private readonly logger = new Logger(ClientRegistryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  findClient(clientId: string): Promise<OAuthClient | null> {
+    return this.prisma.oAuthClient.findUnique({ where: { id: clientId } });
+  }
+
+  /**
+   * Authenticate a client; public clients (no secret) only identify themselves
+   * Returns null for unknown clients or wrong secrets
+   */
+  async authenticateClient(
+    credentials: ClientCredentials,
+  ): Promise<OAuthClient | null> {
+    let { clientId, clientSecret } = credentials;
+
+    if (credentials.authorization?.startsWith('Basic ')) {
+      const decoded = Buffer.from(
+        credentials.authorization.substring(6),
+        'base64',
+      ).toString('utf-8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        return null;
+      }
+      // Basic credentials are form-encoded (RFC 6749 section 2.3.1)
+      try {
+        clientId = decodeURIComponent(decoded.slice(0, separator));
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+      } catch {
+        return null;
+      }
+    }
+
+    if (!clientId) {
+      return null;
+    }
+
+    const client = await this.findClient(clientId);
+    if (!client) {
+      this.logger.warn(`Unknown OAuth client ${clientId}`);
+      return null;
+    }
+
+    if (client.secretHash) {
+      if (
+        !clientSecret ||
+        !this.secretMatches(clientSecret, client.secretHash)
+      ) {
+        this.logger.warn(`OAuth client ${clientId} authentication failed`);
+        return null;
+      }
+    } else if (clientSecret) {
+      this.logger.warn(`Public OAuth client ${clientId} sent a secret`);
+      return null;
+    }
+
+    return client;
+  }
+
+  /**
+   * Exact match against the client's allow-list (no prefix or wildcard matching)
+   */
+  isRedirectUriAllowed(client: OAuthClient, redirectUri: string): boolean {
+    return client.redirectUris.includes(redirectUri);
+  }
+
+  /**
+   * Requested scopes, or all allowed scopes when none are requested
+   * Returns null if any requested scope is not allowed for the client
+   */
+  resolveScopes(client: OAuthClient, requested?: string): string[] | null {
+    const scopes = [...new Set((requested ?? '').split(' ').filter(Boolean))];
+
+    if (scopes.length === 0) {
+      return client.allowedScopes;
+    }
+
+    return scopes.every((scope) => client.allowedScopes.includes(scope))
+      ? scopes
+      : null;
+  }
+
+  async listClients(): Promise<OAuthClientDto[]> {
+    const clients = await this.prisma.oAuthClient.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+    return clients.map((client) => this.toDto(client));
+  }
+
+  /**
+   * Register a client; the secret of confidential clients is returned once
+   */
+  async createClient(
+    dto: CreateOAuthClientDto,
+  ): Promise<{ client: OAuthClientDto; clientSecret?: string }> {
+    const clientSecret =
+      dto.confidential === false
+        ? undefined
+        : crypto.randomBytes(32).toString('base64url');
+
+    try {
+      const client = await this.prisma.oAuthClient.create({
+        data: {
+          id: dto.clientId ?? crypto.randomBytes(12).toString('hex'),
+          name: dto.name,
+          secretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+          redirectUris: dto.redirectUris,
+          allowedScopes: dto.allowedScopes,
+          firstParty: dto.firstParty ?? false,
+        },
+      });
+
+      this.logger.log(`Registered OAuth client ${client.id}`);
+
+      return { client: this.toDto(client), clientSecret };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(`Client ${dto.clientId} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a client with its consents, codes and refresh tokens
+   */
+  async deleteClient(clientId: string): Promise<boolean> {
+    const result = await this.prisma.oAuthClient.deleteMany({
+      where: { id: clientId },
+    });
+
+    if (result.count > 0) {
+      this.logger.log(`Deleted OAuth client ${clientId}`);
+    }
+
+    return result.count > 0;
+  }
+
+  private toDto(client: OAuthClient): OAuthClientDto {
+    return {
+      clientId: client.id,
+      name: client.name,
+      confidential: !!client.secretHash,
+      redirectUris: client.redirectUris,
+      allowedScopes: client.allowedScopes,
+      firstParty: client.firstParty,
+      createdAt: client.createdAt,
+    };
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private secretMatches(secret: string, secretHash: string): boolean {
+    const expected = Buffer.from(secretHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+}
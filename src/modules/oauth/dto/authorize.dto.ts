@@ -0,0 +1,44 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Authorization request parameters (RFC 6749 section 4.1.1, RFC 7636)
+ * Checked by AuthorizationService so errors can be returned in OAuth form
+ */
+export class AuthorizeRequestDto {
+  @IsOptional()
+  @IsString()
+  response_type?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  redirect_uri?: string;
+
+  @IsOptional()
+  @IsString()
+  scope?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsString()
+  code_challenge?: string;
+
+  @IsOptional()
+  @IsString()
+  code_challenge_method?: string;
+}
+
+/**
+ * Sent by the consent page on behalf of the logged-in user
+ */
+export class AuthorizeDecisionDto extends AuthorizeRequestDto {
+  @IsOptional()
+  @IsBoolean({ message: 'Approve must be a boolean' })
+  approve?: boolean; // omitted to ask whether consent is still needed
+}
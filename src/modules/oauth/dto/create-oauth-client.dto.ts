@@ -0,0 +1,49 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+} from 'class-validator';
+import { OAuthScope } from '../../auth/constants/oauth-scopes';
+
+export class CreateOAuthClientDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  name: string;
+
+  @IsOptional()
+  @Matches(/^[a-z0-9][a-z0-9-]{2,63}$/, {
+    message:
+      'Client id must be 3-64 lowercase letters, digits or dashes (generated when omitted)',
+  })
+  clientId?: string;
+
+  @IsArray({ message: 'Redirect URIs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one redirect URI is required' })
+  @IsUrl(
+    { require_tld: false, require_protocol: true },
+    { each: true, message: 'Each redirect URI must be an absolute URL' },
+  )
+  redirectUris: string[];
+
+  @IsArray({ message: 'Allowed scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @IsIn(Object.values(OAuthScope), {
+    each: true,
+    message: `Scopes must be one of: ${Object.values(OAuthScope).join(', ')}`,
+  })
+  allowedScopes: string[];
+
+  @IsOptional()
+  @IsBoolean({ message: 'Confidential must be a boolean' })
+  confidential?: boolean; // issue a client secret (default true)
+
+  @IsOptional()
+  @IsBoolean({ message: 'First party must be a boolean' })
+  firstParty?: boolean; // skip the consent screen (default false)
+}
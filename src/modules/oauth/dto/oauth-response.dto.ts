@@ -0,0 +1,59 @@
+/**
+ * Successful token response (RFC 6749 section 5.1)
+ */
+export class OAuthTokenResponseDto {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number; // seconds
+  scope: string;
+  refresh_token?: string; // when offline_access was granted
+}
+
+/**
+ * Error response (RFC 6749 sections 4.1.2.1 and 5.2)
+ * statusCode is used for the HTTP status and not sent
+ */
+export class OAuthErrorResponseDto {
+  error: string; // e.g. invalid_request, invalid_client, invalid_grant
+  error_description?: string;
+  statusCode: number;
+}
+
+export class AuthorizeRedirectResponseDto {
+  success: true;
+  redirectTo: string; // client redirect URI with code or error
+}
+
+export class ConsentRequiredResponseDto {
+  success: true;
+  consentRequired: true;
+  client: { clientId: string; name: string };
+  scopes: { scope: string; description: string }[];
+}
+
+export class OAuthClientDto {
+  clientId: string;
+  name: string;
+  confidential: boolean;
+  redirectUris: string[];
+  allowedScopes: string[];
+  firstParty: boolean;
+  createdAt: Date;
+}
+
+export class OAuthClientListResponseDto {
+  success: true;
+  clients: OAuthClientDto[];
+}
+
+export class OAuthClientCreatedResponseDto {
+  success: true;
+  client: OAuthClientDto;
+  clientSecret?: string; // shown once, only for confidential clients
+}
+
+export class OAuthClientFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode?: number;
+}
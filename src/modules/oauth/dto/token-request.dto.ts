@@ -0,0 +1,56 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Token request parameters (RFC 6749 sections 4.1.3 and 6)
+ * Client credentials may also be sent with HTTP Basic authentication
+ */
+export class TokenRequestDto {
+  @IsOptional()
+  @IsString()
+  grant_type?: string;
+
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  redirect_uri?: string;
+
+  @IsOptional()
+  @IsString()
+  code_verifier?: string;
+
+  @IsOptional()
+  @IsString()
+  refresh_token?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
+
+/**
+ * Token revocation request (RFC 7009)
+ */
+export class RevokeTokenRequestDto {
+  @IsOptional()
+  @IsString()
+  token?: string;
+
+  @IsOptional()
+  @IsString()
+  token_type_hint?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Res,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+  ConflictException,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { ClientRegistryService } from './client-registry.service';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import {
+  OAuthClientCreatedResponseDto,
+  OAuthClientFailureResponseDto,
+  OAuthClientListResponseDto,
+} from './dto/oauth-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AuthorizationGuard } from '../auth/guards/authorization.guard';
+import { RequirePermissions } from '../auth/decorators/require-permissions.decorator';
+import { Permission } from '../auth/constants/permissions';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { User } from '@prisma/client';
+
+@Controller('admin/oauth/clients')
+@UseGuards(JwtAuthGuard, AuthorizationGuard)
+@RequirePermissions(Permission.OAUTH_CLIENTS_MANAGE)
+export class OAuthClientsController {
+  private readonly logger = new Logger(OAuthClientsController.name);
+
+  constructor(private readonly clientRegistryService: ClientRegistryService) {}
+
+  /**
+   * GET /admin/oauth/clients
+   * List registered OAuth clients
+   */
+  @Get()
+  async listClients(@Res() res: FastifyReply) {
+    const response: OAuthClientListResponseDto = {
+      success: true,
+      clients: await this.clientRegistryService.listClients(),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /admin/oauth/clients
+   * Register a client; the secret is only returned in this response
+   */
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createClient(
+    @CurrentUser() user: User,
+    @Body() createOAuthClientDto: CreateOAuthClientDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`User ${user.id} registering OAuth client`);
+
+    try {
+      const { client, clientSecret } =
+        await this.clientRegistryService.createClient(createOAuthClientDto);
+
+      const response: OAuthClientCreatedResponseDto = {
+        success: true,
+        client,
+        ...(clientSecret && { clientSecret }),
+      };
+      res.header('Cache-Control', 'no-store');
+      return res.status(HttpStatus.CREATED).send(response);
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        const response: OAuthClientFailureResponseDto = {
+          success: false,
+          message: error.message,
+          statusCode: HttpStatus.CONFLICT,
+        };
+        return res.status(HttpStatus.CONFLICT).send(response);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * DELETE /admin/oauth/clients/:clientId
+   * Delete a client, signing out every session it holds
+   */
+  @Delete(':clientId')
+  async deleteClient(
+    @CurrentUser() user: User,
+    @Param('clientId') clientId: string,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(`User ${user.id} deleting OAuth client ${clientId}`);
+
+    const deleted = await this.clientRegistryService.deleteClient(clientId);
+
+    if (!deleted) {
+      const response: OAuthClientFailureResponseDto = {
+        success: false,
+        message: `Unknown client ${clientId}`,
+        statusCode: HttpStatus.NOT_FOUND,
+      };
+      return res.status(HttpStatus.NOT_FOUND).send(response);
+    }
+
+    return res
+      .status(HttpStatus.OK)
+      .send({ success: true, message: 'Client deleted' });
+  }
+}
@@ -0,0 +1,259 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { OAuthTokenService } from './oauth-token.service';
+import { ClientRegistryService } from './client-registry.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TokenService } from '../auth/services/token.service';
+import {
+  AuthEventService,
+  AuthEventType,
+} from '../auth/services/auth-event.service';
+import { RefreshTokenRevokedReason } from '../auth/constants/refresh-token';
+
+describe('OAuthTokenService', () => {
+  let oauthTokenService: OAuthTokenService;
+  let prisma: {
+    oAuthAuthorizationCode: Record<string, jest.Mock>;
+    refreshToken: Record<string, jest.Mock>;
+  };
+  let tokenService: Record<string, jest.Mock>;
+  let authEventService: Record<string, jest.Mock>;
+
+  const client = { id: 'client-1' };
+  const user = { id: 'user-1', email: 'user@example.com', status: 'ACTIVE' };
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeRecord = {
+    id: 'code-1',
+    clientId: client.id,
+    userId: user.id,
+    redirectUri: 'https://app.example/callback',
+    codeChallenge: crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url'),
+    scope: 'profile offline_access',
+    expiresAt: new Date(Date.now() + 60_000),
+    usedAt: null as Date | null,
+    sessionId: null as string | null,
+    user,
+  };
+  const tokenRequest = {
+    grant_type: 'authorization_code',
+    code: 'code',
+    redirect_uri: codeRecord.redirectUri,
+    code_verifier: codeVerifier,
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      oAuthAuthorizationCode: {
+        findUnique: jest.fn().mockResolvedValue(codeRecord),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+      },
+      refreshToken: { findUnique: jest.fn() },
+    };
+    tokenService = {
+      generateRefreshToken: jest.fn().mockResolvedValue({
+        token: 'refresh-token',
+        sessionId: 'session-1',
+      }),
+      generateAccessToken: jest.fn().mockReturnValue('access-token'),
+      getAccessTokenExpiryInSeconds: jest.fn().mockReturnValue(900),
+      revokeSession: jest.fn().mockResolvedValue(2),
+      verifyRefreshToken: jest.fn(),
+      verifyAccessToken: jest.fn(() => {
+        throw new UnauthorizedException();
+      }),
+      matchesRefreshTokenHash: jest.fn().mockReturnValue(true),
+      rotateRefreshToken: jest.fn(),
+    };
+    authEventService = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: tokenService },
+        {
+          provide: ClientRegistryService,
+          useValue: { authenticateClient: jest.fn().mockResolvedValue(client) },
+        },
+        { provide: AuthEventService, useValue: authEventService },
+      ],
+    }).compile();
+
+    oauthTokenService = module.get(OAuthTokenService);
+  });
+
+  describe('authorization_code grant', () => {
+    it('redeems the code once and remembers the session it started', async () => {
+      const response = await oauthTokenService.exchange(
+        tokenRequest,
+        undefined,
+      );
+
+      expect(response).toEqual({
+        access_token: 'access-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        scope: codeRecord.scope,
+        refresh_token: 'refresh-token',
+      });
+      expect(prisma.oAuthAuthorizationCode.findUnique).toHaveBeenCalledWith({
+        where: {
+          codeHash: crypto.createHash('sha256').update('code').digest('hex'),
+        },
+        include: { user: true },
+      });
+      expect(prisma.oAuthAuthorizationCode.updateMany).toHaveBeenCalledWith({
+        where: { id: codeRecord.id, usedAt: null },
+        data: { usedAt: expect.any(Date) as Date },
+      });
+      expect(prisma.oAuthAuthorizationCode.update).toHaveBeenCalledWith({
+        where: { id: codeRecord.id },
+        data: { sessionId: 'session-1' },
+      });
+    });
+
+    it('issues nothing when a concurrent request redeemed the code first', async () => {
+      prisma.oAuthAuthorizationCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        oauthTokenService.exchange(tokenRequest, undefined),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+      expect(tokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session a reused code issued', async () => {
+      prisma.oAuthAuthorizationCode.findUnique.mockResolvedValue({
+        ...codeRecord,
+        usedAt: new Date(),
+        sessionId: 'session-1',
+      });
+
+      await expect(
+        oauthTokenService.exchange(tokenRequest, undefined),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+      expect(tokenService.revokeSession).toHaveBeenCalledWith(
+        user.id,
+        'session-1',
+        RefreshTokenRevokedReason.CODE_REUSE,
+        { context: {} },
+      );
+      expect(authEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: AuthEventType.AUTHORIZATION_CODE_REUSE,
+        }),
+      );
+      expect(tokenService.generateAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('rejects a code_verifier that does not match the challenge', async () => {
+      await expect(
+        oauthTokenService.exchange(
+          {
+            ...tokenRequest,
+            code_verifier: crypto.randomBytes(32).toString('base64url'),
+          },
+          undefined,
+        ),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+      expect(prisma.oAuthAuthorizationCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a code issued to another client', async () => {
+      prisma.oAuthAuthorizationCode.findUnique.mockResolvedValue({
+        ...codeRecord,
+        clientId: 'client-2',
+      });
+
+      await expect(
+        oauthTokenService.exchange(tokenRequest, undefined),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+      expect(tokenService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('rejects a redirect_uri other than the one the code was issued for', async () => {
+      await expect(
+        oauthTokenService.exchange(
+          { ...tokenRequest, redirect_uri: 'https://evil.example/callback' },
+          undefined,
+        ),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+    });
+  });
+
+  describe('refresh_token grant', () => {
+    it('revokes the session when a rotated client refresh token is reused', async () => {
+      tokenService.verifyRefreshToken.mockReturnValue({ tokenId: 'token-1' });
+      prisma.refreshToken.findUnique.mockResolvedValue({
+        id: 'token-1',
+        userId: user.id,
+        sessionId: 'session-1',
+        clientId: client.id,
+        scope: 'profile offline_access',
+        tokenHash: 'hash',
+        revoked: true,
+        revokedReason: RefreshTokenRevokedReason.ROTATED,
+        user,
+      });
+
+      await expect(
+        oauthTokenService.exchange(
+          { grant_type: 'refresh_token', refresh_token: 'refresh-token' },
+          undefined,
+        ),
+      ).resolves.toMatchObject({ error: 'invalid_grant' });
+      expect(tokenService.revokeSession).toHaveBeenCalledWith(
+        user.id,
+        'session-1',
+        RefreshTokenRevokedReason.REUSE_DETECTED,
+        { context: {} },
+      );
+      expect(tokenService.rotateRefreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    const refreshRecord = {
+      id: 'token-1',
+      userId: user.id,
+      sessionId: 'session-1',
+      clientId: client.id,
+      tokenHash: 'hash',
+    };
+
+    beforeEach(() => {
+      tokenService.verifyRefreshToken.mockReturnValue({ tokenId: 'token-1' });
+      prisma.refreshToken.findUnique.mockResolvedValue(refreshRecord);
+    });
+
+    it('revokes the session of a refresh token issued to the client', async () => {
+      await expect(
+        oauthTokenService.revoke({ token: 'refresh-token' }, undefined),
+      ).resolves.toBeNull();
+
+      expect(tokenService.matchesRefreshTokenHash).toHaveBeenCalledWith(
+        'refresh-token',
+        refreshRecord.tokenHash,
+      );
+      expect(tokenService.revokeSession).toHaveBeenCalledWith(
+        user.id,
+        'session-1',
+        RefreshTokenRevokedReason.OAUTH_REVOKED,
+        { context: {} },
+      );
+    });
+
+    it('revokes nothing for a token whose hash does not match the stored one', async () => {
+      tokenService.matchesRefreshTokenHash.mockReturnValue(false);
+
+      await expect(
+        oauthTokenService.revoke({ token: 'refresh-token' }, undefined),
+      ).resolves.toBeNull();
+      expect(tokenService.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+});
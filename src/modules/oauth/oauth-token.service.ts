@@ -0,0 +1,414 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { OAuthClient, User } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  DelegatedGrant,
+  SessionContext,
+  TokenService,
+} from '../auth/services/token.service';
+import {
+  AuthEventService,
+  AuthEventType,
+} from '../auth/services/auth-event.service';
+import { RefreshTokenRevokedReason } from '../auth/constants/refresh-token';
+import { OAuthScope } from '../auth/constants/oauth-scopes';
+import {
+  ClientCredentials,
+  ClientRegistryService,
+} from './client-registry.service';
+import {
+  RevokeTokenRequestDto,
+  TokenRequestDto,
+} from './dto/token-request.dto';
+import {
+  OAuthErrorResponseDto,
+  OAuthTokenResponseDto,
+} from './dto/oauth-response.dto';
+
+/**
+ * Token and revocation endpoints. Tokens are issued through TokenService,
+ * so access tokens carry the granted scope and client_id and are accepted
+ * by JwtAuthGuard; refresh tokens are stored with their client and scope.
+ */
+@Injectable()
+export class OAuthTokenService {
+  private readonly logger = new Logger(OAuthTokenService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+    private readonly clientRegistryService: ClientRegistryService,
+    private readonly authEventService: AuthEventService,
+  ) {}
+
+  /**
+   * POST /oauth/token: authorization_code and refresh_token grants
+   */
+  async exchange(
+    dto: TokenRequestDto,
+    authorization: string | undefined,
+    context: SessionContext = {},
+  ): Promise<OAuthTokenResponseDto | OAuthErrorResponseDto> {
+    const client = await this.clientRegistryService.authenticateClient(
+      this.getCredentials(dto, authorization),
+    );
+    if (!client) {
+      return this.createError(
+        'invalid_client',
+        'Client authentication failed',
+        401,
+      );
+    }
+
+    switch (dto.grant_type) {
+      case 'authorization_code':
+        return this.exchangeAuthorizationCode(client, dto, context);
+      case 'refresh_token':
+        return this.exchangeRefreshToken(client, dto, context);
+      default:
+        return this.createError(
+          'unsupported_grant_type',
+          'Supported grant types are authorization_code and refresh_token',
+        );
+    }
+  }
+
+  /**
+   * POST /oauth/revoke: revoke the session behind a refresh token, or behind
+   * an access token issued to the client. Unknown tokens are not an error
+   * (RFC 7009 section 2.2).
+   */
+  async revoke(
+    dto: RevokeTokenRequestDto,
+    authorization: string | undefined,
+    context: SessionContext = {},
+  ): Promise<OAuthErrorResponseDto | null> {
+    const client = await this.clientRegistryService.authenticateClient(
+      this.getCredentials(dto, authorization),
+    );
+    if (!client) {
+      return this.createError(
+        'invalid_client',
+        'Client authentication failed',
+        401,
+      );
+    }
+
+    if (!dto.token) {
+      return this.createError('invalid_request', 'token is required');
+    }
+
+    const session =
+      (await this.findRefreshTokenSession(client, dto.token)) ??
+      this.findAccessTokenSession(client, dto.token);
+
+    if (session) {
+      await this.tokenService.revokeSession(
+        session.userId,
+        session.sessionId,
+        RefreshTokenRevokedReason.OAUTH_REVOKED,
+        { context },
+      );
+      this.logger.log(
+        `Client ${client.id} revoked session ${session.sessionId}`,
+      );
+    }
+
+    return null;
+  }
+
+  private async exchangeAuthorizationCode(
+    client: OAuthClient,
+    dto: TokenRequestDto,
+    context: SessionContext,
+  ): Promise<OAuthTokenResponseDto | OAuthErrorResponseDto> {
+    if (!dto.code || !dto.redirect_uri || !dto.code_verifier) {
+      return this.createError(
+        'invalid_request',
+        'code, redirect_uri and code_verifier are required',
+      );
+    }
+
+    const invalidGrant = this.createError(
+      'invalid_grant',
+      'Invalid or expired authorization code',
+    );
+
+    const record = await this.prisma.oAuthAuthorizationCode.findUnique({
+      where: {
+        codeHash: crypto.createHash('sha256').update(dto.code).digest('hex'),
+      },
+      include: { user: true },
+    });
+
+    if (!record || record.clientId !== client.id) {
+      return invalidGrant;
+    }
+
+    // A code used twice may have been intercepted: revoke what it issued
+    if (record.usedAt) {
+      await this.handleCodeReuse(record.userId, record.sessionId, context);
+      return invalidGrant;
+    }
+
+    if (
+      record.expiresAt < new Date() ||
+      record.redirectUri !== dto.redirect_uri ||
+      !this.verifyCodeChallenge(dto.code_verifier, record.codeChallenge)
+    ) {
+      this.logger.warn(`Authorization code ${record.id} rejected`);
+      return invalidGrant;
+    }
+
+    // Conditional update so concurrent requests cannot redeem the code twice
+    const redeemed = await this.prisma.oAuthAuthorizationCode.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (redeemed.count === 0 || record.user.status !== 'ACTIVE') {
+      return invalidGrant;
+    }
+
+    const grant: DelegatedGrant = { clientId: client.id, scope: record.scope };
+    const response = await this.issueTokens(record.user, grant, context);
+
+    if (response.sessionId) {
+      await this.prisma.oAuthAuthorizationCode.update({
+        where: { id: record.id },
+        data: { sessionId: response.sessionId },
+      });
+    }
+
+    this.logger.log(
+      `Issued tokens for user ${record.userId} to client ${client.id}`,
+    );
+
+    return response.tokens;
+  }
+
+  private async exchangeRefreshToken(
+    client: OAuthClient,
+    dto: TokenRequestDto,
+    context: SessionContext,
+  ): Promise<OAuthTokenResponseDto | OAuthErrorResponseDto> {
+    if (!dto.refresh_token) {
+      return this.createError('invalid_request', 'refresh_token is required');
+    }
+
+    const invalidGrant = this.createError(
+      'invalid_grant',
+      'Invalid or expired refresh token',
+    );
+
+    let tokenId: string;
+    try {
+      tokenId = this.tokenService.verifyRefreshToken(dto.refresh_token).tokenId;
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return invalidGrant;
+      }
+      throw error;
+    }
+
+    const record = await this.prisma.refreshToken.findUnique({
+      where: { id: tokenId },
+      include: { user: true },
+    });
+
+    if (
+      !record ||
+      record.clientId !== client.id ||
+      record.scope === null ||
+      !this.tokenService.matchesRefreshTokenHash(
+        dto.refresh_token,
+        record.tokenHash,
+      )
+    ) {
+      return invalidGrant;
+    }
+
+    if (record.revoked) {
+      // Client refresh tokens rotate on every use, so any reuse is suspicious
+      if (record.revokedReason === RefreshTokenRevokedReason.ROTATED) {
+        await this.tokenService.revokeSession(
+          record.userId,
+          record.sessionId,
+          RefreshTokenRevokedReason.REUSE_DETECTED,
+          { context },
+        );
+        this.authEventService.record({
+          type: AuthEventType.REFRESH_TOKEN_REUSE,
+          userId: record.userId,
+          sessionId: record.sessionId,
+          context,
+          metadata: { tokenId: record.id, clientId: client.id },
+        });
+      }
+      return invalidGrant;
+    }
+
+    if (record.expiresAt < new Date() || record.user.status !== 'ACTIVE') {
+      return invalidGrant;
+    }
+
+    const rotated = await this.tokenService.rotateRefreshToken(
+      record.id,
+      record.userId,
+      context,
+    );
+    if (!rotated) {
+      return invalidGrant;
+    }
+
+    const grant: DelegatedGrant = { clientId: client.id, scope: record.scope };
+
+    return {
+      access_token: this.tokenService.generateAccessToken(
+        record.user,
+        record.sessionId,
+        { grant },
+      ),
+      token_type: 'Bearer',
+      expires_in: this.tokenService.getAccessTokenExpiryInSeconds(),
+      scope: record.scope,
+      refresh_token: rotated.token,
+    };
+  }
+
+  /**
+   * Access token, plus a refresh token (starting a session) when
+   * offline_access was granted
+   */
+  private async issueTokens(
+    user: User,
+    grant: DelegatedGrant,
+    context: SessionContext,
+  ): Promise<{ tokens: OAuthTokenResponseDto; sessionId?: string }> {
+    let refreshToken: string | undefined;
+    let sessionId: string | undefined;
+
+    if (grant.scope.split(' ').includes(OAuthScope.OFFLINE_ACCESS)) {
+      const issued = await this.tokenService.generateRefreshToken(
+        user.id,
+        context,
+        undefined,
+        grant,
+      );
+      refreshToken = issued.token;
+      sessionId = issued.sessionId;
+    }
+
+    return {
+      sessionId,
+      tokens: {
+        access_token: this.tokenService.generateAccessToken(user, sessionId, {
+          grant,
+        }),
+        token_type: 'Bearer',
+        expires_in: this.tokenService.getAccessTokenExpiryInSeconds(),
+        scope: grant.scope,
+        ...(refreshToken && { refresh_token: refreshToken }),
+      },
+    };
+  }
+
+  private async handleCodeReuse(
+    userId: string,
+    sessionId: string | null,
+    context: SessionContext,
+  ): Promise<void> {
+    if (sessionId) {
+      await this.tokenService.revokeSession(
+        userId,
+        sessionId,
+        RefreshTokenRevokedReason.CODE_REUSE,
+        { context },
+      );
+    }
+
+    this.authEventService.record({
+      type: AuthEventType.AUTHORIZATION_CODE_REUSE,
+      userId,
+      sessionId: sessionId ?? undefined,
+      context,
+    });
+  }
+
+  private async findRefreshTokenSession(
+    client: OAuthClient,
+    token: string,
+  ): Promise<{ userId: string; sessionId: string } | null> {
+    try {
+      const { tokenId } = this.tokenService.verifyRefreshToken(token, {
+        ignoreExpiration: true,
+      });
+      const record = await this.prisma.refreshToken.findUnique({
+        where: { id: tokenId },
+      });
+
+      return record &&
+        record.clientId === client.id &&
+        this.tokenService.matchesRefreshTokenHash(token, record.tokenHash)
+        ? record
+        : null;
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private findAccessTokenSession(
+    client: OAuthClient,
+    token: string,
+  ): { userId: string; sessionId: string } | null {
+    try {
+      const payload = this.tokenService.verifyAccessToken(token);
+
+      return payload.client_id === client.id && payload.sid
+        ? { userId: payload.sub, sessionId: payload.sid }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private verifyCodeChallenge(
+    codeVerifier: string,
+    challenge: string,
+  ): boolean {
+    if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) {
+      return false;
+    }
+
+    const expected = Buffer.from(challenge);
+    const actual = Buffer.from(
+      crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  private getCredentials(
+    dto: { client_id?: string; client_secret?: string },
+    authorization?: string,
+  ): ClientCredentials {
+    return {
+      authorization,
+      clientId: dto.client_id,
+      clientSecret: dto.client_secret,
+    };
+  }
+
+  private createError(
+    error: string,
+    description: string,
+    statusCode = 400,
+  ): OAuthErrorResponseDto {
+    return { error, error_description: description, statusCode };
+  }
+}
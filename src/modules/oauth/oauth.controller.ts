@@ -0,0 +1,166 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Req,
+  Res,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { AuthorizationService } from './authorization.service';
+import { OAuthTokenService } from './oauth-token.service';
+import { AuthorizeDecisionDto, AuthorizeRequestDto } from './dto/authorize.dto';
+import {
+  RevokeTokenRequestDto,
+  TokenRequestDto,
+} from './dto/token-request.dto';
+import { OAuthErrorResponseDto } from './dto/oauth-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { getSessionContext } from '../auth/utils/session-context.util';
+import { RateLimitGuard } from '../rate-limit/guards/rate-limit.guard';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
+import type { User } from '@prisma/client';
+
+@Controller('oauth')
+@UseGuards(RateLimitGuard)
+export class OAuthController {
+  private readonly logger = new Logger(OAuthController.name);
+
+  constructor(
+    private readonly authorizationService: AuthorizationService,
+    private readonly oauthTokenService: OAuthTokenService,
+  ) {}
+
+  /**
+   * GET /oauth/authorize
+   * Validate the authorization request and hand it to the frontend consent
+   * page, which logs the user in and posts the decision back
+   */
+  @Get('authorize')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async authorize(
+    @Query() authorizeRequestDto: AuthorizeRequestDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Authorization request received for client ${authorizeRequestDto.client_id}`,
+    );
+
+    const result =
+      await this.authorizationService.validateRequest(authorizeRequestDto);
+
+    if ('error' in result) {
+      if (result.redirectTo) {
+        return res.redirect(result.redirectTo, HttpStatus.FOUND);
+      }
+      return this.sendError(res, result.error);
+    }
+
+    return res.redirect(
+      this.authorizationService.buildConsentUrl(authorizeRequestDto),
+      HttpStatus.FOUND,
+    );
+  }
+
+  /**
+   * POST /oauth/authorize
+   * Approve or deny an authorization request as the logged-in user
+   * Only first-party session tokens are accepted here
+   */
+  @Post('authorize')
+  @UseGuards(JwtAuthGuard)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async decide(
+    @CurrentUser() user: User,
+    @Body() authorizeDecisionDto: AuthorizeDecisionDto,
+    @Res() res: FastifyReply,
+  ) {
+    this.logger.log(
+      `Authorization decision received from user ${user.id} for client ${authorizeDecisionDto.client_id}`,
+    );
+
+    const result = await this.authorizationService.decide(
+      user,
+      authorizeDecisionDto,
+    );
+
+    if ('error' in result) {
+      return this.sendError(res, result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /oauth/token
+   * Exchange an authorization code or refresh token for tokens
+   */
+  @Post('token')
+  @RateLimit({ by: 'ip', limit: 60, windowSeconds: 60 })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async token(
+    @Body() tokenRequestDto: TokenRequestDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    const result = await this.oauthTokenService.exchange(
+      tokenRequestDto,
+      req.headers.authorization,
+      getSessionContext(req),
+    );
+
+    res.header('Cache-Control', 'no-store');
+    res.header('Pragma', 'no-cache');
+
+    if ('error' in result) {
+      return this.sendError(res, result);
+    }
+
+    return res.status(HttpStatus.OK).send(result);
+  }
+
+  /**
+   * POST /oauth/revoke
+   * Revoke a refresh or access token issued to the calling client
+   */
+  @Post('revoke')
+  @RateLimit({ by: 'ip', limit: 60, windowSeconds: 60 })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async revoke(
+    @Body() revokeTokenRequestDto: RevokeTokenRequestDto,
+    @Req() req: FastifyRequest,
+    @Res() res: FastifyReply,
+  ) {
+    const error = await this.oauthTokenService.revoke(
+      revokeTokenRequestDto,
+      req.headers.authorization,
+      getSessionContext(req),
+    );
+
+    if (error) {
+      return this.sendError(res, error);
+    }
+
+    return res.status(HttpStatus.OK).send();
+  }
+
+  /**
+   * Send an OAuth error; client authentication failures get a Basic challenge
+   */
+  private sendError(res: FastifyReply, result: OAuthErrorResponseDto) {
+    const { statusCode, ...body } = result;
+
+    if (result.error === 'invalid_client') {
+      res.header('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+
+    return res.status(statusCode).send(body);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { OAuthController } from './oauth.controller';
+import { OAuthClientsController } from './oauth-clients.controller';
+import { AuthorizationService } from './authorization.service';
+import { OAuthTokenService } from './oauth-token.service';
+import { ClientRegistryService } from './client-registry.service';
+
+@Module({
+  imports: [AuthModule, RateLimitModule],
+  controllers: [OAuthController, OAuthClientsController],
+  providers: [AuthorizationService, OAuthTokenService, ClientRegistryService],
+})
+export class OAuthModule {}
@@ -0,0 +1,65 @@
+import { OrganizationRole } from '@prisma/client';
+
+export class OrganizationDto {
+  id: string;
+  name: string;
+  slug: string;
+  role: OrganizationRole; // the current user's role
+  createdAt: Date;
+}
+
+export class OrganizationListResponseDto {
+  success: true;
+  organizations: OrganizationDto[];
+}
+
+export class OrganizationResponseDto {
+  success: true;
+  organization: OrganizationDto;
+}
+
+export class MemberDto {
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export class MemberListResponseDto {
+  success: true;
+  members: MemberDto[];
+}
+
+export class InvitationDto {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedById: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export class InvitationListResponseDto {
+  success: true;
+  invitations: InvitationDto[];
+}
+
+export class InvitationResponseDto {
+  success: true;
+  invitation: InvitationDto;
+}
+
+export class SwitchOrganizationResponseDto {
+  success: true;
+  accessToken: string;
+  expiresIn: number;
+  organization: OrganizationDto | null; // null when leaving organization context
+}
+
+export class OrganizationFailureResponseDto {
+  success: false;
+  message: string;
+  statusCode: number;
+}
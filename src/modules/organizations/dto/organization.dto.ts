@@ -0,0 +1,46 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { OrganizationRole } from '@prisma/client';
+
+export class CreateOrganizationDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  name: string;
+
+  @Matches(/^[a-z0-9][a-z0-9-]{1,62}$/, {
+    message: 'Slug must be 2-63 lowercase letters, digits or dashes',
+  })
+  slug: string;
+}
+
+export class InviteMemberDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+
+  @IsOptional()
+  @IsEnum(OrganizationRole, { message: 'Role must be OWNER, ADMIN or MEMBER' })
+  role?: OrganizationRole; // default MEMBER
+}
+
+export class UpdateMemberRoleDto {
+  @IsEnum(OrganizationRole, { message: 'Role must be OWNER, ADMIN or MEMBER' })
+  role: OrganizationRole;
+}
+
+export class AcceptInvitationDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+}
+
+export class SwitchOrganizationDto {
+  @IsOptional()
+  @IsString({ message: 'Organization id must be a string' })
+  organizationId?: string | null; // omit or null to leave organization context
+}
@@ -0,0 +1,127 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Membership, OrganizationRole } from '@prisma/client';
+import { OrganizationService } from './organization.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TokenService } from '../auth/services/token.service';
+import { RoleService } from '../auth/services/role.service';
+import { MailService } from '../mail/mail.service';
+
+describe('OrganizationService', () => {
+  let organizationService: OrganizationService;
+  let tx: {
+    $queryRaw: jest.Mock;
+    membership: Record<string, jest.Mock>;
+    refreshToken: Record<string, jest.Mock>;
+  };
+
+  const owner = {
+    id: 'membership-1',
+    organizationId: 'org-1',
+    userId: 'owner-1',
+    role: OrganizationRole.OWNER,
+  } as Membership;
+
+  beforeEach(async () => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      membership: {
+        findUnique: jest.fn().mockResolvedValue(owner),
+        count: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      refreshToken: { updateMany: jest.fn() },
+    };
+    const prisma = {
+      $transaction: jest.fn((operation: (client: typeof tx) => unknown) =>
+        operation(tx),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TokenService, useValue: {} },
+        { provide: RoleService, useValue: {} },
+        { provide: MailService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    organizationService = module.get(OrganizationService);
+  });
+
+  describe('updateMemberRole', () => {
+    it('refuses to demote the last owner', async () => {
+      tx.membership.count.mockResolvedValue(1);
+
+      await expect(
+        organizationService.updateMemberRole(
+          'org-1',
+          owner.userId,
+          OrganizationRole.ADMIN,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.membership.update).not.toHaveBeenCalled();
+    });
+
+    it('locks the organization before counting owners', async () => {
+      tx.membership.count.mockResolvedValue(2);
+
+      await organizationService.updateMemberRole(
+        'org-1',
+        owner.userId,
+        OrganizationRole.ADMIN,
+      );
+
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.membership.count.mock.invocationCallOrder[0],
+      );
+      expect(tx.membership.update).toHaveBeenCalledWith({
+        where: { id: owner.id },
+        data: { role: OrganizationRole.ADMIN },
+      });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('refuses to remove the last owner', async () => {
+      tx.membership.count.mockResolvedValue(1);
+
+      await expect(
+        organizationService.removeMember(owner, owner.userId),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.membership.delete).not.toHaveBeenCalled();
+    });
+
+    it('does not let admins remove owners', async () => {
+      const admin = {
+        ...owner,
+        id: 'membership-2',
+        userId: 'admin-1',
+        role: OrganizationRole.ADMIN,
+      };
+
+      await expect(
+        organizationService.removeMember(admin, owner.userId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('removes the member and clears the organization from their sessions', async () => {
+      tx.membership.count.mockResolvedValue(2);
+
+      await organizationService.removeMember(owner, owner.userId);
+
+      expect(tx.membership.delete).toHaveBeenCalledWith({
+        where: { id: owner.id },
+      });
+      expect(tx.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: owner.userId, organizationId: 'org-1' },
+        data: { organizationId: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Membership,
+  Organization,
+  OrganizationInvitation,
+  OrganizationRole,
+  Prisma,
+  User,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TokenService } from '../auth/services/token.service';
+import { RoleService } from '../auth/services/role.service';
+import { MailService } from '../mail/mail.service';
+import { CreateOrganizationDto, InviteMemberDto } from './dto/organization.dto';
+import {
+  InvitationDto,
+  MemberDto,
+  OrganizationDto,
+  SwitchOrganizationResponseDto,
+} from './dto/organization-response.dto';
+
+/**
+ * Organizations (tenants), their memberships and invitations
+ * Failures are thrown as HTTP exceptions for the controller to report
+ */
+@Injectable()
+export class OrganizationService {
+  private readonly logger = new Logger(OrganizationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tokenService: TokenService,
+    private readonly roleService: RoleService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create an organization owned by the user
+   */
+  async createOrganization(
+    user: User,
+    dto: CreateOrganizationDto,
+  ): Promise<OrganizationDto> {
+    try {
+      const organization = await this.prisma.organization.create({
+        data: {
+          name: dto.name,
+          slug: dto.slug,
+          memberships: {
+            create: { userId: user.id, role: OrganizationRole.OWNER },
+          },
+        },
+      });
+
+      this.logger.log(
+        `User ${user.id} created organization ${organization.id}`,
+      );
+
+      return this.toOrganizationDto(organization, OrganizationRole.OWNER);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(`Slug ${dto.slug} is already taken`);
+      }
+      throw error;
+    }
+  }
+
+  async listOrganizations(userId: string): Promise<OrganizationDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map((membership) =>
+      this.toOrganizationDto(membership.organization, membership.role),
+    );
+  }
+
+  async listMembers(organizationId: string): Promise<MemberDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { organizationId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map((membership) => ({
+      userId: membership.userId,
+      email: membership.user.email,
+      firstName: membership.user.firstName,
+      lastName: membership.user.lastName,
+      role: membership.role,
+      joinedAt: membership.createdAt,
+    }));
+  }
+
+  /**
+   * Change a member's role (owners only); the last owner cannot be demoted
+   */
+  async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.lockOrganization(tx, organizationId);
+      const membership = await this.getMembership(organizationId, userId, tx);
+
+      if (
+        membership.role === OrganizationRole.OWNER &&
+        role !== OrganizationRole.OWNER
+      ) {
+        await this.assertNotLastOwner(organizationId, tx);
+      }
+
+      await tx.membership.update({
+        where: { id: membership.id },
+        data: { role },
+      });
+    });
+
+    this.logger.log(
+      `Set role of user ${userId} in organization ${organizationId} to ${role}`,
+    );
+  }
+
+  /**
+   * Remove a member. Members may remove themselves; owners and admins may
+   * remove others, but only owners remove owners, and the last owner stays.
+   */
+  async removeMember(actor: Membership, userId: string): Promise<void> {
+    const { organizationId } = actor;
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.lockOrganization(tx, organizationId);
+      const membership = await this.getMembership(organizationId, userId, tx);
+
+      if (userId !== actor.userId) {
+        if (
+          actor.role === OrganizationRole.MEMBER ||
+          (membership.role === OrganizationRole.OWNER &&
+            actor.role !== OrganizationRole.OWNER)
+        ) {
+          throw new ForbiddenException('Insufficient organization role');
+        }
+      }
+
+      if (membership.role === OrganizationRole.OWNER) {
+        await this.assertNotLastOwner(organizationId, tx);
+      }
+
+      await tx.membership.delete({ where: { id: membership.id } });
+      // Sessions in this organization fall back to no active organization
+      await tx.refreshToken.updateMany({
+        where: { userId, organizationId },
+        data: { organizationId: null },
+      });
+    });
+
+    this.logger.log(
+      `Removed user ${userId} from organization ${organizationId}`,
+    );
+  }
+
+  /**
+   * Invite someone by email, replacing their pending invitation if any
+   * Admins cannot invite owners
+   */
+  async createInvitation(
+    actor: Membership & { organization: Organization },
+    dto: InviteMemberDto,
+  ): Promise<InvitationDto> {
+    const role = dto.role ?? OrganizationRole.MEMBER;
+    const email = dto.email.toLowerCase();
+
+    if (
+      role === OrganizationRole.OWNER &&
+      actor.role !== OrganizationRole.OWNER
+    ) {
+      throw new ForbiddenException('Only owners can invite owners');
+    }
+
+    const existingMember = await this.prisma.membership.findFirst({
+      where: {
+        organizationId: actor.organizationId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+    });
+    if (existingMember) {
+      throw new ConflictException(`${email} is already a member`);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const ttlHours = parseInt(
+      this.configService.get<string>('ORG_INVITATION_TTL_HOURS', '72'),
+      10,
+    );
+
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.organizationInvitation.deleteMany({
+        where: {
+          organizationId: actor.organizationId,
+          email,
+          acceptedAt: null,
+        },
+      }),
+      this.prisma.organizationInvitation.create({
+        data: {
+          organizationId: actor.organizationId,
+          email,
+          role,
+          tokenHash: this.hashToken(token),
+          invitedById: actor.userId,
+          expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `User ${actor.userId} invited ${email} to organization ${actor.organizationId}`,
+    );
+
+    try {
+      await this.mailService.send({
+        to: email,
+        subject: `You are invited to join ${actor.organization.name}`,
+        text:
+          `You have been invited to join ${actor.organization.name}. Accept the invitation using this link:\n\n` +
+          `${this.buildInvitationUrl(token)}\n\n` +
+          `It expires in ${ttlHours} hours. If you were not expecting it, you can ignore this email.`,
+      });
+    } catch (error) {
+      this.logger.error('Failed to send invitation email', error);
+    }
+
+    return this.toInvitationDto(invitation);
+  }
+
+  async listInvitations(organizationId: string): Promise<InvitationDto[]> {
+    const invitations = await this.prisma.organizationInvitation.findMany({
+      where: {
+        organizationId,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toInvitationDto(invitation));
+  }
+
+  async revokeInvitation(
+    organizationId: string,
+    invitationId: string,
+  ): Promise<void> {
+    const result = await this.prisma.organizationInvitation.deleteMany({
+      where: { id: invitationId, organizationId, acceptedAt: null },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException(`Unknown invitation ${invitationId}`);
+    }
+
+    this.logger.log(
+      `Revoked invitation ${invitationId} to organization ${organizationId}`,
+    );
+  }
+
+  /**
+   * Accept an invitation addressed to the user's email
+   */
+  async acceptInvitation(user: User, token: string): Promise<OrganizationDto> {
+    const invitation = await this.prisma.organizationInvitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { organization: true },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.expiresAt < new Date()
+    ) {
+      throw new NotFoundException('Invalid or expired invitation');
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      this.logger.warn(
+        `User ${user.id} tried to accept invitation ${invitation.id} for another email`,
+      );
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Conditional update so the invitation cannot be accepted twice
+        const accepted = await tx.organizationInvitation.updateMany({
+          where: { id: invitation.id, acceptedAt: null },
+          data: { acceptedAt: new Date() },
+        });
+        if (accepted.count === 0) {
+          throw new NotFoundException('Invalid or expired invitation');
+        }
+
+        await tx.membership.create({
+          data: {
+            organizationId: invitation.organizationId,
+            userId: user.id,
+            role: invitation.role,
+          },
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('You are already a member');
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `User ${user.id} joined organization ${invitation.organizationId}`,
+    );
+
+    return this.toOrganizationDto(invitation.organization, invitation.role);
+  }
+
+  /**
+   * Make an organization (or none) the session's active organization and
+   * issue an access token with the matching org claim; refreshes keep it
+   */
+  async switchOrganization(
+    user: User,
+    sessionId: string | undefined,
+    organizationId: string | null,
+  ): Promise<SwitchOrganizationResponseDto> {
+    if (!sessionId) {
+      throw new BadRequestException('Access token is not bound to a session');
+    }
+
+    const membership = organizationId
+      ? await this.prisma.membership.findUnique({
+          where: {
+            organizationId_userId: { organizationId, userId: user.id },
+          },
+          include: { organization: true },
+        })
+      : null;
+
+    if (organizationId && !membership) {
+      throw new ForbiddenException('Not a member of this organization');
+    }
+
+    await this.tokenService.setSessionOrganization(
+      user.id,
+      sessionId,
+      organizationId,
+    );
+
+    this.logger.log(
+      `User ${user.id} switched session ${sessionId} to organization ${organizationId ?? 'none'}`,
+    );
+
+    return {
+      success: true,
+      accessToken: this.tokenService.generateAccessToken(user, sessionId, {
+        roles: await this.roleService.getRolesClaim(user),
+        organizationId: organizationId ?? undefined,
+      }),
+      expiresIn: this.tokenService.getAccessTokenExpiryInSeconds(),
+      organization: membership
+        ? this.toOrganizationDto(membership.organization, membership.role)
+        : null,
+    };
+  }
+
+  /**
+   * Build the link sent in the invitation email
+   */
+  buildInvitationUrl(token: string): string {
+    const url = new URL(
+      this.configService.get<string>(
+        'ORG_INVITATION_URL',
+        'http://localhost:5173/invitations/accept',
+      ),
+    );
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private async getMembership(
+    organizationId: string,
+    userId: string,
+    client: Prisma.TransactionClient,
+  ): Promise<Membership> {
+    const membership = await client.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!membership) {
+      throw new NotFoundException(`User ${userId} is not a member`);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Serialize owner changes within an organization, so two owners demoting
+   * or removing each other cannot both pass the last-owner check
+   */
+  private async lockOrganization(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+  ): Promise<void> {
+    await tx.$queryRaw`
+      SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE
+    `;
+  }
+
+  private async assertNotLastOwner(
+    organizationId: string,
+    client: Prisma.TransactionClient,
+  ): Promise<void> {
+    const owners = await client.membership.count({
+      where: { organizationId, role: OrganizationRole.OWNER },
+    });
+
+    if (owners <= 1) {
+      throw new ConflictException('An organization needs at least one owner');
+    }
+  }
+
+  private toOrganizationDto(
+    organization: Organization,
+    role: OrganizationRole,
+  ): OrganizationDto {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      role,
+      createdAt: organization.createdAt,
+    };
+  }
+
+  private toInvitationDto(invitation: OrganizationInvitation): InvitationDto {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
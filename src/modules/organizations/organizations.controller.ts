@@ -0,0 +1,289 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Res,
+  HttpStatus,
+  HttpException,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { OrganizationRole } from '@prisma/client';
+import type { Membership, Organization } from '@prisma/client';
+import { OrganizationService } from './organization.service';
+import {
+  AcceptInvitationDto,
+  CreateOrganizationDto,
+  InviteMemberDto,
+  SwitchOrganizationDto,
+  UpdateMemberRoleDto,
+} from './dto/organization.dto';
+import {
+  InvitationListResponseDto,
+  InvitationResponseDto,
+  MemberListResponseDto,
+  OrganizationFailureResponseDto,
+  OrganizationListResponseDto,
+  OrganizationResponseDto,
+} from './dto/organization-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OrganizationGuard } from '../auth/guards/organization.guard';
+import { OrgRoles } from '../auth/decorators/org-roles.decorator';
+import {
+  CurrentAccessToken,
+  CurrentMembership,
+  CurrentUser,
+} from '../auth/decorators/current-user.decorator';
+import type { AccessTokenPayload } from '../auth/services/token.service';
+import type { AuthenticatedUser } from '../auth/services/role.service';
+
+@Controller('organizations')
+@UseGuards(JwtAuthGuard)
+export class OrganizationsController {
+  private readonly logger = new Logger(OrganizationsController.name);
+
+  constructor(private readonly organizationService: OrganizationService) {}
+
+  /**
+   * GET /organizations
+   * Organizations the user is a member of, with their role
+   */
+  @Get()
+  async listOrganizations(
+    @CurrentUser() user: AuthenticatedUser,
+    @Res() res: FastifyReply,
+  ) {
+    const response: OrganizationListResponseDto = {
+      success: true,
+      organizations: await this.organizationService.listOrganizations(user.id),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /organizations
+   * Create an organization with the user as owner
+   */
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createOrganization(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.CREATED, async () => {
+      const response: OrganizationResponseDto = {
+        success: true,
+        organization: await this.organizationService.createOrganization(
+          user,
+          createOrganizationDto,
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * POST /organizations/switch
+   * Set the session's active organization (or none) and get an access token
+   * with the matching org claim
+   */
+  @Post('switch')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async switchOrganization(
+    @CurrentUser() user: AuthenticatedUser,
+    @CurrentAccessToken() accessToken: AccessTokenPayload,
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.OK, () =>
+      this.organizationService.switchOrganization(
+        user,
+        accessToken.sid,
+        switchOrganizationDto.organizationId ?? null,
+      ),
+    );
+  }
+
+  /**
+   * POST /organizations/invitations/accept
+   * Join an organization through an invitation sent to the user's email
+   */
+  @Post('invitations/accept')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async acceptInvitation(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.OK, async () => {
+      const response: OrganizationResponseDto = {
+        success: true,
+        organization: await this.organizationService.acceptInvitation(
+          user,
+          acceptInvitationDto.token,
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * GET /organizations/:orgId/members
+   * List members (any member)
+   */
+  @Get(':orgId/members')
+  @UseGuards(OrganizationGuard)
+  async listMembers(
+    @CurrentMembership() membership: Membership,
+    @Res() res: FastifyReply,
+  ) {
+    const response: MemberListResponseDto = {
+      success: true,
+      members: await this.organizationService.listMembers(
+        membership.organizationId,
+      ),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * PUT /organizations/:orgId/members/:userId
+   * Change a member's role (owners)
+   */
+  @Put(':orgId/members/:userId')
+  @UseGuards(OrganizationGuard)
+  @OrgRoles(OrganizationRole.OWNER)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateMemberRole(
+    @CurrentMembership() membership: Membership,
+    @Param('userId') userId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.OK, async () => {
+      await this.organizationService.updateMemberRole(
+        membership.organizationId,
+        userId,
+        updateMemberRoleDto.role,
+      );
+      return { success: true, message: 'Member role updated' };
+    });
+  }
+
+  /**
+   * DELETE /organizations/:orgId/members/:userId
+   * Remove a member, or leave the organization (own user id)
+   */
+  @Delete(':orgId/members/:userId')
+  @UseGuards(OrganizationGuard)
+  async removeMember(
+    @CurrentMembership() membership: Membership,
+    @Param('userId') userId: string,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.OK, async () => {
+      await this.organizationService.removeMember(membership, userId);
+      return { success: true, message: 'Member removed' };
+    });
+  }
+
+  /**
+   * GET /organizations/:orgId/invitations
+   * Pending invitations (owners and admins)
+   */
+  @Get(':orgId/invitations')
+  @UseGuards(OrganizationGuard)
+  @OrgRoles(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  async listInvitations(
+    @CurrentMembership() membership: Membership,
+    @Res() res: FastifyReply,
+  ) {
+    const response: InvitationListResponseDto = {
+      success: true,
+      invitations: await this.organizationService.listInvitations(
+        membership.organizationId,
+      ),
+    };
+    return res.status(HttpStatus.OK).send(response);
+  }
+
+  /**
+   * POST /organizations/:orgId/invitations
+   * Invite someone by email (owners and admins)
+   */
+  @Post(':orgId/invitations')
+  @UseGuards(OrganizationGuard)
+  @OrgRoles(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createInvitation(
+    @CurrentMembership()
+    membership: Membership & { organization: Organization },
+    @Body() inviteMemberDto: InviteMemberDto,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.CREATED, async () => {
+      const response: InvitationResponseDto = {
+        success: true,
+        invitation: await this.organizationService.createInvitation(
+          membership,
+          inviteMemberDto,
+        ),
+      };
+      return response;
+    });
+  }
+
+  /**
+   * DELETE /organizations/:orgId/invitations/:invitationId
+   * Revoke a pending invitation (owners and admins)
+   */
+  @Delete(':orgId/invitations/:invitationId')
+  @UseGuards(OrganizationGuard)
+  @OrgRoles(OrganizationRole.OWNER, OrganizationRole.ADMIN)
+  async revokeInvitation(
+    @CurrentMembership() membership: Membership,
+    @Param('invitationId') invitationId: string,
+    @Res() res: FastifyReply,
+  ) {
+    return this.handle(res, HttpStatus.OK, async () => {
+      await this.organizationService.revokeInvitation(
+        membership.organizationId,
+        invitationId,
+      );
+      return { success: true, message: 'Invitation revoked' };
+    });
+  }
+
+  /**
+   * Send the result of an organization operation, reporting HTTP
+   * exceptions thrown by the service as failure responses
+   */
+  private async handle(
+    res: FastifyReply,
+    status: HttpStatus,
+    operation: () => Promise<object>,
+  ) {
+    try {
+      return res.status(status).send(await operation());
+    } catch (error) {
+      if (error instanceof HttpException) {
+        this.logger.warn(`Organization request failed: ${error.message}`);
+        const response: OrganizationFailureResponseDto = {
+          success: false,
+          message: error.message,
+          statusCode: error.getStatus(),
+        };
+        return res.status(error.getStatus()).send(response);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationService } from './organization.service';
+
+@Module({
+  imports: [AuthModule, MailModule],
+  controllers: [OrganizationsController],
+  providers: [OrganizationService],
+})
+export class OrganizationsModule {}
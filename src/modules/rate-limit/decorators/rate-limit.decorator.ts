@@ -0,0 +1,24 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * What a policy counts requests by:
+ * - ip: the client address
+ * - email: the `email` field of the request body (skipped when absent)
+ * - route: every request to the route, regardless of client
+ */
+export type RateLimitKey = 'ip' | 'email' | 'route';
+
+export interface RateLimitPolicy {
+  by: RateLimitKey;
+  limit: number;
+  windowSeconds: number;
+}
+
+export const RATE_LIMIT_POLICIES = 'rateLimitPolicies';
+
+/**
+ * Decorator to apply sliding-window rate limits to a route
+ * Used with RateLimitGuard; every policy must pass
+ */
+export const RateLimit = (...policies: RateLimitPolicy[]) =>
+  SetMetadata(RATE_LIMIT_POLICIES, policies);
@@ -0,0 +1,98 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from '../rate-limit.service';
+import { RateLimitPolicy } from '../decorators/rate-limit.decorator';
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let rateLimitService: Record<string, jest.Mock>;
+  let policies: RateLimitPolicy[] | undefined;
+  let reply: { header: jest.Mock };
+  let context: ExecutionContext;
+
+  const request = {
+    method: 'POST',
+    routeOptions: { url: '/auth/login' },
+    ip: '10.0.0.1',
+    body: { email: ' User@Example.com ' },
+  };
+
+  beforeEach(() => {
+    policies = [
+      { by: 'ip', limit: 10, windowSeconds: 60 },
+      { by: 'email', limit: 5, windowSeconds: 900 },
+    ];
+    rateLimitService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      consume: jest.fn().mockResolvedValue({
+        allowed: true,
+        limit: 10,
+        remaining: 9,
+        resetSeconds: 60,
+      }),
+    };
+    reply = { header: jest.fn() };
+    context = {
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => reply,
+      }),
+    } as unknown as ExecutionContext;
+
+    const reflector = {
+      getAllAndOverride: jest.fn(() => policies),
+    } as unknown as Reflector;
+    guard = new RateLimitGuard(
+      reflector,
+      rateLimitService as unknown as RateLimitService,
+    );
+  });
+
+  it('lets routes without policies through without counting', async () => {
+    policies = undefined;
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(rateLimitService.consume).not.toHaveBeenCalled();
+  });
+
+  it('counts every policy under its own key', async () => {
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      'ip:POST /auth/login:10.0.0.1',
+      10,
+      60,
+    );
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      'email:POST /auth/login:user@example.com',
+      5,
+      900,
+    );
+    expect(reply.header).toHaveBeenCalledWith('RateLimit-Remaining', '9');
+  });
+
+  it('rejects with 429 and Retry-After once a policy is exceeded', async () => {
+    rateLimitService.consume.mockResolvedValueOnce({
+      allowed: false,
+      limit: 10,
+      remaining: 0,
+      resetSeconds: 30,
+      retryAfter: 42,
+    });
+
+    const error = await guard.canActivate(context).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(429);
+    expect(reply.header).toHaveBeenCalledWith('Retry-After', '42');
+  });
+
+  it('fails open when the store is unavailable', async () => {
+    rateLimitService.consume.mockRejectedValue(new Error('connection lost'));
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+});
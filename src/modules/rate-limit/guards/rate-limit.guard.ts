@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { RateLimitResult, RateLimitService } from '../rate-limit.service';
+import {
+  RATE_LIMIT_POLICIES,
+  RateLimitPolicy,
+} from '../decorators/rate-limit.decorator';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policies = this.reflector.getAllAndOverride<
+      RateLimitPolicy[] | undefined
+    >(RATE_LIMIT_POLICIES, [context.getHandler(), context.getClass()]);
+
+    if (!policies?.length || !this.rateLimitService.isEnabled()) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const reply = context.switchToHttp().getResponse<FastifyReply>();
+    const route = `${request.method} ${request.routeOptions.url}`;
+
+    const results: { policy: RateLimitPolicy; result: RateLimitResult }[] = [];
+    try {
+      for (const policy of policies) {
+        const subject = this.getSubject(policy, request);
+        if (subject === null) {
+          continue;
+        }
+
+        const result = await this.rateLimitService.consume(
+          `${policy.by}:${route}:${subject}`,
+          policy.limit,
+          policy.windowSeconds,
+        );
+        results.push({ policy, result });
+      }
+    } catch (error) {
+      // Fail open: a store outage must not take authentication down
+      this.logger.error('Rate limit check failed', error);
+      return true;
+    }
+
+    if (!results.length) {
+      return true;
+    }
+
+    // Report the policy that blocks longest, or else the one closest to its limit
+    const blocked = results.filter((entry) => !entry.result.allowed);
+    const { policy, result } = blocked.length
+      ? blocked.reduce((longest, entry) =>
+          (entry.result.retryAfter ?? 0) > (longest.result.retryAfter ?? 0)
+            ? entry
+            : longest,
+        )
+      : results.reduce((tightest, entry) =>
+          entry.result.remaining < tightest.result.remaining ? entry : tightest,
+        );
+
+    reply.header(
+      'RateLimit-Policy',
+      `${policy.limit};w=${policy.windowSeconds}`,
+    );
+    reply.header('RateLimit-Limit', result.limit.toString());
+    reply.header('RateLimit-Remaining', result.remaining.toString());
+    reply.header('RateLimit-Reset', result.resetSeconds.toString());
+
+    if (!result.allowed) {
+      const retryAfter = result.retryAfter ?? 1;
+
+      this.logger.warn(
+        `Rate limit exceeded on ${route} by ${policy.by} (${request.ip})`,
+      );
+
+      reply.header('Retry-After', retryAfter.toString());
+      throw new HttpException(
+        {
+          success: false,
+          message: 'Too many requests, please try again later',
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Value the policy counts by, or null if the request does not carry it
+   */
+  private getSubject(
+    policy: RateLimitPolicy,
+    request: FastifyRequest,
+  ): string | null {
+    switch (policy.by) {
+      case 'ip':
+        return request.ip;
+      case 'email': {
+        const email = (request.body as { email?: unknown } | undefined)?.email;
+        return typeof email === 'string' ? email.trim().toLowerCase() : null;
+      }
+      case 'route':
+        return '*';
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Hit counts of the current and previous fixed windows for one key,
+ * combined by the caller into a sliding-window estimate
+ */
+export interface SlidingWindowCounts {
+  current: number;
+  previous: number;
+  windowStart: number; // epoch ms of the current window
+}
+
+/**
+ * Injection token for the active rate limit store
+ */
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
+
+/**
+ * Contract every rate limit store (in-memory, Postgres, Redis) implements
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<SlidingWindowCounts>;
+}
@@ -0,0 +1,42 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitGuard } from './guards/rate-limit.guard';
+import {
+  RATE_LIMIT_STORE,
+  RateLimitStore,
+} from './interfaces/rate-limit-store.interface';
+import { MemoryRateLimitStore } from './stores/memory-rate-limit.store';
+import { PrismaRateLimitStore } from './stores/prisma-rate-limit.store';
+
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      inject: [ConfigService, PrismaService],
+      useFactory: (
+        configService: ConfigService,
+        prisma: PrismaService,
+      ): RateLimitStore => {
+        const store = configService.get<string>('RATE_LIMIT_STORE', 'memory');
+
+        if (store === 'postgres') {
+          return new PrismaRateLimitStore(prisma);
+        }
+
+        if (store !== 'memory') {
+          new Logger('RateLimitModule').warn(
+            `Unknown rate limit store "${store}", falling back to memory store`,
+          );
+        }
+
+        return new MemoryRateLimitStore();
+      },
+    },
+    RateLimitService,
+    RateLimitGuard,
+  ],
+  exports: [RateLimitService, RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_STORE } from './interfaces/rate-limit-store.interface';
+
+describe('RateLimitService', () => {
+  const windowStart = 10 * 60 * 1000;
+  let rateLimitService: RateLimitService;
+  let store: { increment: jest.Mock };
+
+  beforeEach(async () => {
+    store = { increment: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RATE_LIMIT_STORE, useValue: store },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'true') } },
+      ],
+    }).compile();
+
+    rateLimitService = module.get(RateLimitService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows hits under the limit and reports what is left', async () => {
+    jest.useFakeTimers({ now: windowStart + 15 * 1000 });
+    store.increment.mockResolvedValue({ current: 2, previous: 0, windowStart });
+
+    await expect(rateLimitService.consume('ip:1', 5, 60)).resolves.toEqual({
+      allowed: true,
+      limit: 5,
+      remaining: 3,
+      resetSeconds: 45,
+    });
+    expect(store.increment).toHaveBeenCalledWith('ip:1', 60 * 1000);
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    // A quarter into the window, three quarters of the previous 4 hits still count
+    jest.useFakeTimers({ now: windowStart + 15 * 1000 });
+    store.increment.mockResolvedValue({ current: 2, previous: 4, windowStart });
+
+    const result = await rateLimitService.consume('ip:1', 5, 60);
+
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(0);
+  });
+
+  it('blocks over the limit and says when to retry', async () => {
+    jest.useFakeTimers({ now: windowStart + 30 * 1000 });
+    store.increment.mockResolvedValue({ current: 6, previous: 0, windowStart });
+
+    const result = await rateLimitService.consume('ip:1', 5, 60);
+
+    expect(result).toMatchObject({ allowed: false, remaining: 0 });
+    expect(result.retryAfter).toBe(50);
+  });
+});
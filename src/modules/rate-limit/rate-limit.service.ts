@@ -0,0 +1,98 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RATE_LIMIT_STORE,
+  type RateLimitStore,
+} from './interfaces/rate-limit-store.interface';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // until the current window ends
+  retryAfter?: number; // seconds until the next request would be allowed
+}
+
+@Injectable()
+export class RateLimitService {
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  isEnabled(): boolean {
+    return (
+      this.configService.get<string>('RATE_LIMIT_ENABLED', 'true') !== 'false'
+    );
+  }
+
+  /**
+   * Count a hit against a key and check it against the limit using a
+   * sliding window: the previous window's count is weighted by how much
+   * of it still overlaps the sliding window
+   */
+  async consume(
+    key: string,
+    limit: number,
+    windowSeconds: number,
+  ): Promise<RateLimitResult> {
+    const windowMs = windowSeconds * 1000;
+    const { current, previous, windowStart } = await this.store.increment(
+      key,
+      windowMs,
+    );
+
+    const elapsed = Date.now() - windowStart;
+    const count = previous * (1 - elapsed / windowMs) + current;
+    const resetSeconds = Math.ceil((windowMs - elapsed) / 1000);
+
+    if (count <= limit) {
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - count)),
+        resetSeconds,
+      };
+    }
+
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetSeconds,
+      retryAfter: this.getRetryAfterSeconds(
+        current,
+        previous,
+        elapsed,
+        limit,
+        windowMs,
+      ),
+    };
+  }
+
+  /**
+   * Time until one more hit would fit under the limit, assuming no other hits
+   */
+  private getRetryAfterSeconds(
+    current: number,
+    previous: number,
+    elapsed: number,
+    limit: number,
+    windowMs: number,
+  ): number {
+    let waitMs: number;
+
+    if (current + 1 <= limit) {
+      // Still in this window, once enough of the previous window has slid out
+      waitMs = windowMs * (1 - (limit - current - 1) / previous) - elapsed;
+    } else {
+      // In the next window, where this window's hits become the previous count
+      waitMs =
+        windowMs -
+        elapsed +
+        Math.max(0, windowMs * (1 - (limit - 1) / current));
+    }
+
+    return Math.max(1, Math.ceil(waitMs / 1000));
+  }
+}
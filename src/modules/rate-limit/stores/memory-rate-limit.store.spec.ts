@@ -0,0 +1,56 @@
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+
+describe('MemoryRateLimitStore', () => {
+  const windowMs = 60 * 1000;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 10 * windowMs + 1000 });
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts hits within the current window', async () => {
+    await store.increment('ip:1', windowMs);
+    const counts = await store.increment('ip:1', windowMs);
+
+    expect(counts).toEqual({
+      current: 2,
+      previous: 0,
+      windowStart: 10 * windowMs,
+    });
+  });
+
+  it('keeps keys apart', async () => {
+    await store.increment('ip:1', windowMs);
+
+    await expect(store.increment('ip:2', windowMs)).resolves.toMatchObject({
+      current: 1,
+    });
+  });
+
+  it('carries the count of the window that just ended as previous', async () => {
+    await store.increment('ip:1', windowMs);
+    await store.increment('ip:1', windowMs);
+    jest.advanceTimersByTime(windowMs);
+
+    await expect(store.increment('ip:1', windowMs)).resolves.toEqual({
+      current: 1,
+      previous: 2,
+      windowStart: 11 * windowMs,
+    });
+  });
+
+  it('forgets counts older than the previous window', async () => {
+    await store.increment('ip:1', windowMs);
+    jest.advanceTimersByTime(2 * windowMs);
+
+    await expect(store.increment('ip:1', windowMs)).resolves.toMatchObject({
+      current: 1,
+      previous: 0,
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  RateLimitStore,
+  SlidingWindowCounts,
+} from '../interfaces/rate-limit-store.interface';
+
+interface WindowEntry {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in process memory. Limits are per instance and reset on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, WindowEntry>();
+  private lastSweep = Date.now();
+
+  increment(key: string, windowMs: number): Promise<SlidingWindowCounts> {
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    let previous = 0;
+    let current = 0;
+
+    if (entry?.windowStart === windowStart) {
+      previous = entry.previous;
+      current = entry.current;
+    } else if (entry?.windowStart === windowStart - windowMs) {
+      previous = entry.current;
+    }
+
+    current += 1;
+    this.entries.set(key, { windowStart, windowMs, current, previous });
+
+    return Promise.resolve({ current, previous, windowStart });
+  }
+
+  /**
+   * Drop entries whose windows can no longer affect the sliding count
+   */
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { PrismaRateLimitStore } from './prisma-rate-limit.store';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('PrismaRateLimitStore', () => {
+  const windowMs = 60 * 1000;
+  const windowStart = 10 * windowMs;
+  let store: PrismaRateLimitStore;
+  let prisma: {
+    $transaction: jest.Mock;
+    rateLimitCounter: Record<string, jest.Mock>;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: windowStart + 1000 });
+    prisma = {
+      $transaction: jest.fn((operations: Promise<unknown>[]) =>
+        Promise.all(operations),
+      ),
+      rateLimitCounter: {
+        upsert: jest.fn().mockResolvedValue({ count: 3 }),
+        findUnique: jest.fn().mockResolvedValue({ count: 7 }),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    store = new PrismaRateLimitStore(prisma as unknown as PrismaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('increments the current window and reads the previous one in one transaction', async () => {
+    await expect(store.increment('ip:1', windowMs)).resolves.toEqual({
+      current: 3,
+      previous: 7,
+      windowStart,
+    });
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.rateLimitCounter.upsert).toHaveBeenCalledWith({
+      where: {
+        key_windowStart: { key: 'ip:1', windowStart: new Date(windowStart) },
+      },
+      create: {
+        key: 'ip:1',
+        windowStart: new Date(windowStart),
+        count: 1,
+        expiresAt: new Date(windowStart + 2 * windowMs),
+      },
+      update: { count: { increment: 1 } },
+    });
+    expect(prisma.rateLimitCounter.findUnique).toHaveBeenCalledWith({
+      where: {
+        key_windowStart: {
+          key: 'ip:1',
+          windowStart: new Date(windowStart - windowMs),
+        },
+      },
+    });
+  });
+
+  it('counts a missing previous window as zero', async () => {
+    prisma.rateLimitCounter.findUnique.mockResolvedValue(null);
+
+    await expect(store.increment('ip:1', windowMs)).resolves.toMatchObject({
+      previous: 0,
+    });
+  });
+
+  it('deletes expired counters at most once per interval', async () => {
+    await store.increment('ip:1', windowMs);
+    await store.increment('ip:1', windowMs);
+
+    expect(prisma.rateLimitCounter.deleteMany).toHaveBeenCalledTimes(1);
+    expect(prisma.rateLimitCounter.deleteMany).toHaveBeenCalledWith({
+      where: { expiresAt: { lt: new Date(windowStart + 1000) } },
+    });
+
+    jest.advanceTimersByTime(windowMs);
+    await store.increment('ip:1', windowMs);
+
+    expect(prisma.rateLimitCounter.deleteMany).toHaveBeenCalledTimes(2);
+  });
+});
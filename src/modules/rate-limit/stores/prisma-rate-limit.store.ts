@@ -0,0 +1,74 @@
+import { Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  RateLimitStore,
+  SlidingWindowCounts,
+} from '../interfaces/rate-limit-store.interface';
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in Postgres so limits hold across instances
+ */
+export class PrismaRateLimitStore implements RateLimitStore {
+  private readonly logger = new Logger(PrismaRateLimitStore.name);
+  private lastCleanup = 0;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async increment(key: string, windowMs: number): Promise<SlidingWindowCounts> {
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    // The upsert runs as a single INSERT ... ON CONFLICT, so concurrent hits are not lost
+    const [current, previous] = await this.prisma.$transaction([
+      this.prisma.rateLimitCounter.upsert({
+        where: {
+          key_windowStart: { key, windowStart: new Date(windowStart) },
+        },
+        create: {
+          key,
+          windowStart: new Date(windowStart),
+          count: 1,
+          expiresAt: new Date(windowStart + 2 * windowMs),
+        },
+        update: { count: { increment: 1 } },
+      }),
+      this.prisma.rateLimitCounter.findUnique({
+        where: {
+          key_windowStart: {
+            key,
+            windowStart: new Date(windowStart - windowMs),
+          },
+        },
+      }),
+    ]);
+
+    this.cleanup(now);
+
+    return {
+      current: current.count,
+      previous: previous?.count ?? 0,
+      windowStart,
+    };
+  }
+
+  /**
+   * Delete expired counters, at most once per interval per instance
+   */
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) {
+      return;
+    }
+    this.lastCleanup = now;
+
+    this.prisma.rateLimitCounter
+      .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+      .catch((error) => {
+        this.logger.error(
+          'Failed to delete expired rate limit counters',
+          error,
+        );
+      });
+  }
+}
@@ -0,0 +1,16 @@
+export interface SmsMessage {
+  to: string; // E.164 phone number
+  body: string;
+}
+
+/**
+ * Injection token for the active SMS provider
+ */
+export const SMS_PROVIDER = Symbol('SMS_PROVIDER');
+
+/**
+ * Contract every SMS provider (log stand-in, Twilio, SNS, ...) implements
+ */
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
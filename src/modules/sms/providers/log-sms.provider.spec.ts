@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+import { LogSmsProvider } from './log-sms.provider';
+
+describe('LogSmsProvider', () => {
+  let provider: LogSmsProvider;
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new LogSmsProvider();
+    log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  it('masks the code in the log line', async () => {
+    await provider.send({
+      to: '+15555550100',
+      body: 'Your Vritti verification code is 123456',
+    });
+
+    expect(log).toHaveBeenCalledWith(
+      'SMS to +15555550100: Your Vritti verification code is ******',
+    );
+  });
+
+  it('keeps the sent message, code included, for tests', async () => {
+    await provider.send({ to: '+15555550100', body: 'Code 123456' });
+
+    expect(provider.getSentMessages()).toEqual([
+      {
+        to: '+15555550100',
+        body: 'Code 123456',
+        sentAt: expect.any(Date) as Date,
+      },
+    ]);
+  });
+
+  it('keeps only the last 100 messages', async () => {
+    for (let index = 0; index < 150; index++) {
+      await provider.send({ to: '+15555550100', body: `Message ${index}` });
+    }
+
+    const messages = provider.getSentMessages();
+    expect(messages).toHaveLength(100);
+    expect(messages[0].body).toBe('Message 50');
+    expect(messages[99].body).toBe('Message 149');
+  });
+});
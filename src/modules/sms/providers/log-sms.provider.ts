@@ -0,0 +1,38 @@
+import { Logger } from '@nestjs/common';
+import { SmsMessage, SmsProvider } from '../interfaces/sms-provider.interface';
+
+const MAX_KEPT_MESSAGES = 100;
+
+/**
+ * Logs outgoing SMS with codes masked and keeps the most recent ones in
+ * memory (local development and tests)
+ */
+export class LogSmsProvider implements SmsProvider {
+  private readonly logger = new Logger(LogSmsProvider.name);
+  private readonly sentMessages: (SmsMessage & { sentAt: Date })[] = [];
+
+  send(message: SmsMessage): Promise<void> {
+    this.sentMessages.push({ ...message, sentAt: new Date() });
+    if (this.sentMessages.length > MAX_KEPT_MESSAGES) {
+      this.sentMessages.shift();
+    }
+
+    this.logger.log(`SMS to ${message.to}: ${this.maskCodes(message.body)}`);
+    return Promise.resolve();
+  }
+
+  /**
+   * The last messages sent (up to 100), most recent last
+   */
+  getSentMessages(): (SmsMessage & { sentAt: Date })[] {
+    return [...this.sentMessages];
+  }
+
+  /**
+   * Hide one-time codes (runs of four or more digits) so logs cannot be
+   * used to pass verification
+   */
+  private maskCodes(body: string): string {
+    return body.replace(/\d{4,}/g, (digits) => '*'.repeat(digits.length));
+  }
+}
@@ -0,0 +1,28 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SmsService } from './sms.service';
+import { SMS_PROVIDER, SmsProvider } from './interfaces/sms-provider.interface';
+import { LogSmsProvider } from './providers/log-sms.provider';
+
+@Module({
+  providers: [
+    {
+      provide: SMS_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): SmsProvider => {
+        const provider = configService.get<string>('SMS_PROVIDER', 'log');
+
+        if (provider !== 'log') {
+          new Logger('SmsModule').warn(
+            `Unknown SMS provider "${provider}", falling back to log provider`,
+          );
+        }
+
+        return new LogSmsProvider();
+      },
+    },
+    SmsService,
+  ],
+  exports: [SmsService],
+})
+export class SmsModule {}
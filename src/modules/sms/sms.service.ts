@@ -0,0 +1,22 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SMS_PROVIDER } from './interfaces/sms-provider.interface';
+import type {
+  SmsMessage,
+  SmsProvider,
+} from './interfaces/sms-provider.interface';
+
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+
+  constructor(@Inject(SMS_PROVIDER) private readonly provider: SmsProvider) {}
+
+  /**
+   * Send SMS through the configured provider
+   */
+  async send(message: SmsMessage): Promise<void> {
+    await this.provider.send(message);
+
+    this.logger.log(`Sent SMS to ${message.to}`);
+  }
+}
@@ -1,19 +1,20 @@
 import {
   Injectable,
   OnModuleInit,
-  OnModuleDestroy,
+  OnApplicationShutdown,
   Logger,
 } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { MetricsService } from '../modules/metrics/metrics.service';
 
 @Injectable()
 export class PrismaService
   extends PrismaClient
-  implements OnModuleInit, OnModuleDestroy
+  implements OnModuleInit, OnApplicationShutdown
 {
   private readonly logger = new Logger(PrismaService.name);
 
-  constructor() {
+  constructor(private readonly metricsService: MetricsService) {
     super({
       log: [
         { emit: 'event', level: 'query' },
@@ -29,13 +30,16 @@ export class PrismaService
       await this.$connect();
       this.logger.log('Successfully connected to database');
 
-      // Enable query logging in development
-      if (process.env.NODE_ENV === 'development') {
-        this.$on('query' as never, (e: any) => {
+      const debugQueries = process.env.NODE_ENV === 'development';
+      this.$on('query' as never, (e: Prisma.QueryEvent) => {
+        this.metricsService.observeQuery(e.query, e.duration);
+
+        // Enable query logging in development
+        if (debugQueries) {
           this.logger.debug(`Query: ${e.query}`);
           this.logger.debug(`Duration: ${e.duration}ms`);
-        });
-      }
+        }
+      });
 
       this.$on('error' as never, (e: any) => {
         this.logger.error(`Prisma error: ${e.message}`);
@@ -46,7 +50,9 @@ export class PrismaService
     }
   }
 
-  async onModuleDestroy() {
+  // Disconnect after every onModuleDestroy hook so services can still write
+  // on shutdown (AuthEventService flushes its buffered audit events there)
+  async onApplicationShutdown() {
     await this.$disconnect();
     this.logger.log('Disconnected from database');
   }